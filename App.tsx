@@ -1,50 +1,135 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { Business, LocationCoords } from './types';
-import { findNearbyBusinesses } from './services/geminiService';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Business, GeocodedPlace, LocationCoords, SavedSearch } from './types';
+import { dataProvider } from './services/dataProvider';
 import BusinessCard from './components/BusinessCard';
 import Loader from './components/Loader';
-import { SearchIcon } from './components/Icons';
+import { SearchIcon, MapPinIcon, ArrowPathIcon, XMarkIcon } from './components/Icons';
 import BusinessDetailModal from './components/BusinessDetailModal';
-
-const getDistance = (loc1: LocationCoords, loc2: { latitude: number; longitude: number }): number => {
-    const R = 6371; // Radius of the Earth in km
-    const dLat = (loc2.latitude - loc1.latitude) * (Math.PI / 180);
-    const dLon = (loc2.longitude - loc1.longitude) * (Math.PI / 180);
-    const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(loc1.latitude * (Math.PI / 180)) *
-    Math.cos(loc2.latitude * (Math.PI / 180)) *
-    Math.sin(dLon / 2) *
-    Math.sin(dLon / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    const d = R * c; // Distance in km
-    return d;
-};
-
+import ExportMenu from './components/ExportMenu';
+import EnrichmentPanel from './components/EnrichmentPanel';
+import OpenHoursFilterControl from './components/OpenHoursFilterControl';
+import LeadBoard from './components/LeadBoard';
+import MapView from './components/MapView';
+import ErrorNotice from './components/ErrorNotice';
+import SavedSearchesPanel from './components/SavedSearchesPanel';
+import LocationCandidatePicker from './components/LocationCandidatePicker';
+import LeadScoreSettings from './components/LeadScoreSettings';
+import FitRatingButton from './components/FitRatingButton';
+import StorageIssuesNotice from './components/StorageIssuesNotice';
+import DataPanel from './components/DataPanel';
+import ShareListBar from './components/ShareListBar';
+import CategoryChipsInput from './components/CategoryChipsInput';
+import AreaSweepControls from './components/AreaSweepControls';
+import SweepProgressGrid from './components/SweepProgressGrid';
+import UsagePanel from './components/UsagePanel';
+import BudgetNotice from './components/BudgetNotice';
+import { useCachedDetails } from './hooks/useCachedDetails';
+import { useFavorites } from './hooks/useFavorites';
+import { useSavedSearches } from './hooks/useSavedSearches';
+import { usePitchSettings } from './hooks/usePitchSettings';
+import { useLeadScoring } from './hooks/useLeadScoring';
+import { useFitRatings } from './hooks/useFitRatings';
+import { useUsage } from './hooks/useUsage';
+import { SearchDiff, SearchParams, describeSearchCategories, describeSearchLocation } from './services/savedSearches';
+import { CategorySearchFailure, CategorySearchResult, dedupeCategories, mergeCategorizedBusiness, parseCategories, searchCategories } from './services/categorySearch';
+import {
+  DEFAULT_SWEEP_PACE_MS,
+  SWEEP_TOO_LARGE_ERROR,
+  SweepInput,
+  SweepTileProgress,
+  countSweepTiles,
+  isSweepTooLarge,
+  createTileProgress,
+  getBoundsCircle,
+  isInBounds,
+  parseSweepInput,
+  planSweepTiles,
+  runAreaSweep,
+  toSweepInput,
+} from './services/areaSweep';
+import { LocationNotFoundError, NoLocationError } from './services/errors';
+import { getDistance, hasCoordinates } from './utils/geo';
+import { DuplicateMatch, findDuplicates } from './services/duplicates';
+import { OpenHoursFilter, matchesOpenHoursFilter } from './services/openingHours';
+import { scoreLead } from './services/leadScoring';
+import { buildMapsSearchUri } from './services/responseValidation';
+import { MAX_SHARED_BUSINESSES, SharedList, UrlState, buildUrlSearch, isSameSearch, parseUrlState } from './services/urlState';
+import { getCachedSearch, putCachedSearch } from './services/searchCache';
 
 const App: React.FC = () => {
+  // Categories entered as chips; `searchTerm` is the text typed after them.
+  const [categories, setCategories] = useState<string[]>([]);
   const [searchTerm, setSearchTerm] = useState<string>('');
   const [manualLocation, setManualLocation] = useState<string>('');
   const [businesses, setBusinesses] = useState<Business[]>([]);
-  const [favorites, setFavorites] = useState<Business[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [searchError, setSearchError] = useState<unknown>(null);
   const [location, setLocation] = useState<LocationCoords | null>(null);
   const [locationError, setLocationError] = useState<string | null>(null);
+  // Search around the typed location even when GPS is available.
+  const [useTypedLocation, setUseTypedLocation] = useState<boolean>(false);
+  // The typed location resolved to coordinates, and the text it was resolved from.
+  const [resolvedPlace, setResolvedPlace] = useState<{ query: string; place: GeocodedPlace } | null>(null);
+  const [locationCandidates, setLocationCandidates] = useState<GeocodedPlace[]>([]);
+  const [isGeocoding, setIsGeocoding] = useState<boolean>(false);
   const [selectedBusiness, setSelectedBusiness] = useState<Business | null>(null);
   const [searchRadius, setSearchRadius] = useState<number>(50);
-
-  // Load favorites from localStorage on initial render
-  useEffect(() => {
-    try {
-      const storedFavorites = localStorage.getItem('favoriteBusinesses');
-      if (storedFavorites) {
-        setFavorites(JSON.parse(storedFavorites));
-      }
-    } catch (e) {
-      console.error("Failed to parse favorites from localStorage", e);
-    }
-  }, []);
+  const [favoritesView, setFavoritesView] = useState<'cards' | 'board'>('cards');
+  const [openHoursFilter, setOpenHoursFilter] = useState<OpenHoursFilter>({ mode: 'any' });
+  const [showMap, setShowMap] = useState<boolean>(false);
+  const [highlightedPlaceId, setHighlightedPlaceId] = useState<string | null>(null);
+  // The parameters the current results were fetched with; may differ from the inputs.
+  const [lastSearch, setLastSearch] = useState<SearchParams | null>(null);
+  const [searchDiff, setSearchDiff] = useState<SearchDiff | null>(null);
+  const [discardedCount, setDiscardedCount] = useState<number>(0);
+  const [isLoadingMore, setIsLoadingMore] = useState<boolean>(false);
+  const [hasMoreResults, setHasMoreResults] = useState<boolean>(false);
+  const [loadMoreError, setLoadMoreError] = useState<unknown>(null);
+  const [searchStopped, setSearchStopped] = useState<boolean>(false);
+  const [categoryFailures, setCategoryFailures] = useState<CategorySearchFailure[]>([]);
+  // Show only results found by this category; null shows all.
+  const [categoryFilter, setCategoryFilter] = useState<string | null>(null);
+  const [groupByCategory, setGroupByCategory] = useState<boolean>(false);
+  // Area sweep settings from the search bar; null runs ordinary searches.
+  const [sweepInput, setSweepInput] = useState<SweepInput | null>(null);
+  const [sweepPaceMs, setSweepPaceMs] = useState<number>(DEFAULT_SWEEP_PACE_MS);
+  // Per-tile progress of the sweep the current results came from.
+  const [sweepTiles, setSweepTiles] = useState<SweepTileProgress[] | null>(null);
+  // The search (or location lookup) in progress; a newer one cancels it, and
+  // responses for anything but the current controller are ignored.
+  const searchAbortRef = useRef<AbortController | null>(null);
+  const loadMoreAbortRef = useRef<AbortController | null>(null);
+  const [sortBy, setSortBy] = useState<'distance' | 'score'>('distance');
+  const [minScore, setMinScore] = useState<number>(0);
+  const [showScoreSettings, setShowScoreSettings] = useState<boolean>(false);
+  // A hand-picked list opened from a share link.
+  const [sharedList, setSharedList] = useState<SharedList | null>(null);
+  const [isPickingForShare, setIsPickingForShare] = useState<boolean>(false);
+  const [pickedForShare, setPickedForShare] = useState<Business[]>([]);
+  // Set once the state in the URL the page was opened with has been applied.
+  const [isUrlApplied, setIsUrlApplied] = useState<boolean>(false);
+  const hasReadUrlRef = useRef(false);
+  const { savedSearches, saveSearch, deleteSearch, recordRun } = useSavedSearches();
+  const cachedDetails = useCachedDetails();
+  const { profile: senderProfile, options: pitchOptions, setProfile: setSenderProfile, setOptions: setPitchOptions } = usePitchSettings();
+  const { scoringConfig, setScoringConfig } = useLeadScoring();
+  const { fitRatings, setFitRating } = useFitRatings();
+  const { dailyUsage, todayCostUsd, budget, setBudget, budgetStatus, clearUsage } = useUsage();
+  // Bulk actions that make many calls are paused once the hard daily budget is spent.
+  const bulkBlockedReason = budgetStatus === 'hard-exceeded' ? 'the daily API budget has been reached' : null;
+  const sweepBlockedError = bulkBlockedReason && `Area sweeps are paused because ${bulkBlockedReason}. Search without a sweep, or raise the hard budget under "API usage and budgets".`;
+  const {
+    favorites,
+    isFavorite,
+    toggleFavorite,
+    setLeadStatus,
+    setFollowUpDate,
+    addLeadNote,
+    deleteLeadNote,
+    mergeFavorites,
+    importFavorites,
+  } = useFavorites();
 
   useEffect(() => {
     if (navigator.geolocation) {
@@ -66,52 +151,367 @@ const App: React.FC = () => {
     }
   }, []);
   
-  const isFavorite = useCallback(
-    (business: Business) => favorites.some((fav) => fav.placeId === business.placeId),
-    [favorites]
-  );
-  
-  const toggleFavorite = useCallback((business: Business) => {
-    let updatedFavorites: Business[];
-    if (isFavorite(business)) {
-      updatedFavorites = favorites.filter((fav) => fav.placeId !== business.placeId);
-    } else {
-      updatedFavorites = [...favorites, business];
-    }
-    setFavorites(updatedFavorites);
-    localStorage.setItem('favoriteBusinesses', JSON.stringify(updatedFavorites));
-  }, [favorites, isFavorite]);
+  const updateSweepTile = useCallback((tile: SweepTileProgress) => {
+    setSweepTiles(prev => prev && prev.map(t => t.id === tile.id ? tile : t));
+  }, []);
 
-  const handleSearch = useCallback(async () => {
-    if (!searchTerm.trim()) {
-      setError('Please enter a business category to search.');
-      return;
+  const runSearch = useCallback(async (params: SearchParams): Promise<Business[] | null> => {
+    if (params.sweep && sweepBlockedError) {
+      setSearchError(null);
+      setError(sweepBlockedError);
+      return null;
     }
-    if (!location && !manualLocation.trim()) {
-        setError('Could not get your location. Please enable location services in your browser or enter a location manually.');
-        return;
+    // Links and saved searches can carry any sweep, not only one checked in the search bar.
+    if (params.sweep && isSweepTooLarge(params.radiusKm, params.sweep, params.categories.length)) {
+      setSearchError(null);
+      setError(SWEEP_TOO_LARGE_ERROR);
+      return null;
     }
-
+    searchAbortRef.current?.abort();
+    loadMoreAbortRef.current?.abort();
+    const controller = new AbortController();
+    searchAbortRef.current = controller;
+    const isCurrent = () => searchAbortRef.current === controller;
     setIsLoading(true);
     setError(null);
+    setSearchError(null);
     setBusinesses([]);
+    setSearchDiff(null);
+    setDiscardedCount(0);
+    setHasMoreResults(false);
+    setLoadMoreError(null);
+    setSearchStopped(false);
+    setCategoryFailures([]);
+    setCategoryFilter(null);
+    setSweepTiles(null);
+    setLastSearch(params);
 
     try {
-      const results = await findNearbyBusinesses(searchTerm, location, manualLocation);
+      const onBusiness = (business: Business) => {
+        if (isCurrent()) setBusinesses(prev => mergeCategorizedBusiness(prev, business));
+      };
+      let outcome: CategorySearchResult;
+      let isSweepIncomplete = false;
+      if (params.sweep) {
+        const tiles = planSweepTiles({ ...params, sweep: params.sweep });
+        setSweepTiles(tiles.map(createTileProgress));
+        const sweep = await runAreaSweep(params.categories, tiles, {
+          delayMs: sweepPaceMs,
+          signal: controller.signal,
+          onBusiness,
+          onTileUpdate: tile => { if (isCurrent()) updateSweepTile(tile); },
+        });
+        outcome = { ...sweep, failures: [] };
+        isSweepIncomplete = sweep.tiles.some(tile => tile.status !== 'done');
+      } else {
+        outcome = await searchCategories(params.categories, params.location, params.manualLocation, {
+          signal: controller.signal,
+          onBusiness,
+        });
+      }
+      if (!isCurrent()) return null;
+      const { businesses: results, discardedCount, stopped, failures } = outcome;
       if (results.length === 0) {
-        setError(`No results found for "${searchTerm}". Try a different category or location.`);
+        setError(stopped
+          ? 'The search was stopped before any results arrived.'
+          : failures.length > 0
+            ? `The search for ${failures.map(failure => `"${failure.category}"`).join(', ')} failed and the other categories found nothing.`
+            : `No results found for "${describeSearchCategories(params)}". Try a different category or location.`);
       }
       setBusinesses(results);
+      setDiscardedCount(discardedCount);
+      setCategoryFailures(failures);
+      // A sweep has already searched the whole area, so it has no "load more".
+      setHasMoreResults(results.length > 0 && !params.sweep);
+      setSearchStopped(!!stopped);
+      // A stopped or partly failed search is incomplete, so it isn't recorded as a saved-search run.
+      return stopped || failures.length > 0 || isSweepIncomplete ? null : results;
     } catch (err) {
-      if (err instanceof Error) {
-          setError(err.message);
-      } else {
-          setError('An unknown error occurred.');
+      if (isCurrent()) {
+        // Drops the unverified businesses streamed in before the failure.
+        setBusinesses([]);
+        setSearchError(err);
       }
+      return null;
     } finally {
-      setIsLoading(false);
+      if (isCurrent()) {
+        searchAbortRef.current = null;
+        setIsLoading(false);
+      }
+    }
+  }, [sweepPaceMs, updateSweepTile, sweepBlockedError]);
+
+  // Searches the sweep's tiles that were stopped before they ran or failed,
+  // adding what they find to the current results.
+  const handleResumeSweep = useCallback(async () => {
+    if (!lastSearch?.sweep || !sweepTiles) return;
+    if (bulkBlockedReason) {
+      setError(`The sweep can't be resumed because ${bulkBlockedReason}.`);
+      return;
+    }
+    searchAbortRef.current?.abort();
+    const controller = new AbortController();
+    searchAbortRef.current = controller;
+    const isCurrent = () => searchAbortRef.current === controller;
+    setIsLoading(true);
+    setSearchStopped(false);
+    try {
+      const { businesses: found, discardedCount, stopped } = await runAreaSweep(
+        lastSearch.categories,
+        sweepTiles.filter(tile => tile.status !== 'done'),
+        {
+          delayMs: sweepPaceMs,
+          signal: controller.signal,
+          knownPlaceIds: new Set(businesses.map(b => b.placeId)),
+          onBusiness: business => { if (isCurrent()) setBusinesses(prev => mergeCategorizedBusiness(prev, business)); },
+          onTileUpdate: tile => { if (isCurrent()) updateSweepTile(tile); },
+        },
+      );
+      if (!isCurrent()) return;
+      // Replaces the provisional businesses streamed in with the verified ones.
+      setBusinesses(found.reduce(mergeCategorizedBusiness, businesses));
+      setDiscardedCount(prev => prev + discardedCount);
+      setSearchStopped(stopped);
+    } catch (err) {
+      // Every tile failed; each is marked with its error in the progress grid.
+      console.error("Area sweep failed", err);
+      if (isCurrent()) setBusinesses(businesses);
+    } finally {
+      if (isCurrent()) {
+        searchAbortRef.current = null;
+        setIsLoading(false);
+      }
+    }
+  }, [lastSearch, sweepTiles, sweepPaceMs, businesses, updateSweepTile, bulkBlockedReason]);
+
+  // A sweep that runs over the hard budget stops; its remaining tiles can be resumed later.
+  useEffect(() => {
+    if (bulkBlockedReason && lastSearch?.sweep) searchAbortRef.current?.abort();
+  }, [bulkBlockedReason, lastSearch]);
+
+  // Stops the search or location lookup in progress. A search keeps what it found so far.
+  const handleCancelSearch = () => {
+    searchAbortRef.current?.abort();
+  };
+
+  // Puts a search's parameters back into the search inputs.
+  const restoreSearchInputs = useCallback((params: SearchParams) => {
+    setCategories(params.categories);
+    setSearchTerm('');
+    setSweepInput(params.sweep ? toSweepInput(params.sweep) : null);
+    setManualLocation(params.manualLocation ?? '');
+    setSearchRadius(params.radiusKm);
+    setLocationCandidates([]);
+    if (params.manualLocation) {
+      setUseTypedLocation(true);
+      if (params.location) {
+        setResolvedPlace({ query: params.manualLocation, place: { label: params.manualLocation, ...params.location } });
+      }
+    }
+  }, []);
+
+  // Stops the running search and "load more", and forgets them so their partial
+  // results can't overwrite whatever is shown next.
+  const abortRunningSearch = useCallback(() => {
+    searchAbortRef.current?.abort();
+    searchAbortRef.current = null;
+    loadMoreAbortRef.current?.abort();
+    loadMoreAbortRef.current = null;
+    setIsLoading(false);
+    setIsLoadingMore(false);
+  }, []);
+
+  // Shows a search from a link or the browser history, from this tab's cache if it ran before.
+  // A sweep from a link only runs once the user agrees to its many searches.
+  const restoreSearch = useCallback((params: SearchParams, isFromLink = false) => {
+    abortRunningSearch();
+    restoreSearchInputs(params);
+    const cached = getCachedSearch(params);
+    if (!cached) {
+      // Sweeps that are too large or paused are refused by runSearch without asking.
+      const needsConfirmation = isFromLink && params.sweep && !sweepBlockedError && !isSweepTooLarge(params.radiusKm, params.sweep, params.categories.length);
+      if (needsConfirmation && !window.confirm(
+        `This link starts an area sweep of ${countSweepTiles(params.radiusKm, params.sweep)} tiles for ${params.categories.length} ${params.categories.length === 1 ? 'category' : 'categories'}, one search each. Run it now?`,
+      )) return;
+      runSearch(params);
+      return;
+    }
+    setError(null);
+    setSearchError(null);
+    setSearchDiff(null);
+    setDiscardedCount(0);
+    setLoadMoreError(null);
+    setSearchStopped(false);
+    setCategoryFailures([]);
+    setCategoryFilter(null);
+    setSweepTiles(null);
+    setLastSearch(params);
+    setBusinesses(cached);
+    setHasMoreResults(cached.length > 0 && !params.sweep);
+  }, [abortRunningSearch, restoreSearchInputs, runSearch, sweepBlockedError]);
+
+  useEffect(() => {
+    const isSweepIncomplete = !!sweepTiles?.some(tile => tile.status !== 'done');
+    if (lastSearch && !isLoading && !searchStopped && !isSweepIncomplete && businesses.length > 0) {
+      putCachedSearch(lastSearch, businesses);
+    }
+  }, [lastSearch, isLoading, searchStopped, sweepTiles, businesses]);
+
+  // Fetches another batch for the current search, telling the provider what has
+  // already been found. A batch with nothing new means the area is exhausted.
+  const handleLoadMore = useCallback(async () => {
+    if (!lastSearch) return;
+    loadMoreAbortRef.current?.abort();
+    const controller = new AbortController();
+    loadMoreAbortRef.current = controller;
+    setIsLoadingMore(true);
+    setLoadMoreError(null);
+    try {
+      const { businesses: batch, discardedCount } = await searchCategories(
+        lastSearch.categories,
+        lastSearch.location,
+        lastSearch.manualLocation,
+        { exclude: businesses.map(({ placeId, title }) => ({ placeId, title })), signal: controller.signal },
+      );
+      // A new search started meanwhile; this batch belongs to the old one.
+      if (controller.signal.aborted) return;
+      const seen = new Set(businesses.map(b => b.placeId));
+      if (batch.every(b => seen.has(b.placeId))) {
+        setHasMoreResults(false);
+      }
+      // Already-listed businesses found by another category pick up its tag.
+      setBusinesses(prev => batch.reduce(mergeCategorizedBusiness, prev));
+      setDiscardedCount(prev => prev + discardedCount);
+    } catch (err) {
+      if (!controller.signal.aborted) setLoadMoreError(err);
+    } finally {
+      if (loadMoreAbortRef.current === controller) {
+        loadMoreAbortRef.current = null;
+        setIsLoadingMore(false);
+      }
+    }
+  }, [lastSearch, businesses]);
+
+  const isUsingTypedLocation = !location || useTypedLocation;
+
+  // The chips plus whatever has been typed after them.
+  const searchCategoryList = useMemo(
+    () => dedupeCategories([...categories, ...parseCategories(searchTerm)]),
+    [categories, searchTerm]
+  );
+
+  const sweepRequest = useMemo(() => sweepInput ? parseSweepInput(sweepInput) : null, [sweepInput]);
+
+  const searchAroundPlace = useCallback(async (query: string, place: GeocodedPlace) => {
+    setResolvedPlace({ query, place });
+    setLocationCandidates([]);
+    await runSearch({
+      categories: searchCategoryList,
+      location: { latitude: place.latitude, longitude: place.longitude },
+      manualLocation: query,
+      radiusKm: searchRadius,
+      sweep: sweepRequest && 'sweep' in sweepRequest ? sweepRequest.sweep : undefined,
+    });
+  }, [searchCategoryList, searchRadius, sweepRequest, runSearch]);
+
+  const handleSearch = useCallback(async () => {
+    if (searchCategoryList.length === 0) {
+      setSearchError(null);
+      setError('Please enter a business category to search.');
+      return;
+    }
+    if (sweepRequest && 'error' in sweepRequest) {
+      setSearchError(null);
+      setError(sweepRequest.error);
+      return;
+    }
+    const sweep = sweepRequest?.sweep;
+    if (sweep && isSweepTooLarge(searchRadius, sweep, searchCategoryList.length)) {
+      setSearchError(null);
+      setError(SWEEP_TOO_LARGE_ERROR);
+      return;
+    }
+    if (sweep && sweepBlockedError) {
+      setSearchError(null);
+      setError(sweepBlockedError);
+      return;
+    }
+    setCategories(searchCategoryList);
+    setSearchTerm('');
+    if (sweep?.bounds) {
+      const { center, radiusKm } = getBoundsCircle(sweep.bounds);
+      await runSearch({ categories: searchCategoryList, location: center, radiusKm, sweep });
+      return;
+    }
+    if (!isUsingTypedLocation) {
+      await runSearch({ categories: searchCategoryList, location, radiusKm: searchRadius, sweep });
+      return;
+    }
+    const query = manualLocation.trim();
+    if (!query) {
+        setError(null);
+        setSearchError(new NoLocationError());
+        return;
+    }
+    if (resolvedPlace?.query === query) {
+      await searchAroundPlace(query, resolvedPlace.place);
+      return;
+    }
+
+    // Resolve the typed location first so it can act as the search center.
+    searchAbortRef.current?.abort();
+    const controller = new AbortController();
+    searchAbortRef.current = controller;
+    setIsGeocoding(true);
+    setError(null);
+    setSearchError(null);
+    setLocationCandidates([]);
+    let candidates: GeocodedPlace[];
+    try {
+      candidates = await dataProvider.geocodeLocation(query, { signal: controller.signal });
+    } catch (err) {
+      if (!controller.signal.aborted) setSearchError(err);
+      return;
+    } finally {
+      if (searchAbortRef.current === controller) {
+        searchAbortRef.current = null;
+        setIsGeocoding(false);
+      }
+    }
+    if (controller.signal.aborted) return;
+    if (candidates.length === 0) {
+      setSearchError(new LocationNotFoundError(query));
+    } else if (candidates.length === 1) {
+      await searchAroundPlace(query, candidates[0]);
+    } else {
+      setLocationCandidates(candidates);
+    }
+  }, [searchCategoryList, sweepRequest, sweepBlockedError, isUsingTypedLocation, location, manualLocation, searchRadius, resolvedPlace, runSearch, searchAroundPlace]);
+
+  const handleManualLocationChange = (value: string) => {
+    setManualLocation(value);
+    setLocationCandidates([]);
+  };
+
+  const handleRunSavedSearch = useCallback(async (search: SavedSearch) => {
+    restoreSearchInputs(search);
+    const results = await runSearch({
+      categories: search.categories,
+      location: search.location,
+      manualLocation: search.manualLocation,
+      radiusKm: search.radiusKm,
+      sweep: search.sweep,
+    });
+    if (results) {
+      setSearchDiff(recordRun(search, results));
+    }
+  }, [restoreSearchInputs, runSearch, recordRun]);
+
+  const handleSaveCurrentSearch = useCallback((name: string) => {
+    if (lastSearch) {
+      saveSearch(name, lastSearch, businesses);
     }
-  }, [searchTerm, location, manualLocation]);
+  }, [lastSearch, businesses, saveSearch]);
 
   const handleKeyPress = (event: React.KeyboardEvent<HTMLInputElement>) => {
     if (event.key === 'Enter') {
@@ -124,42 +524,302 @@ const App: React.FC = () => {
   };
   
   const handleCloseModal = () => {
-    setSelectedBusiness(null);
+    // A details panel opened in the app has its own history entry; going back
+    // closes it, so the close button and the browser's Back button agree.
+    if (selectedBusiness && window.history.state?.placeId === selectedBusiness.placeId) {
+      window.history.back();
+    } else {
+      setSelectedBusiness(null);
+    }
   }
+
+  // `isFromLink` is set for the URL the page was opened with, as opposed to back/forward navigation.
+  const applyUrlState = (state: UrlState, isFromLink = false) => {
+    setSharedList(state.sharedList ?? null);
+    if (state.search) {
+      if (isSameSearch(state.search, lastSearch)) {
+        setSearchRadius(state.search.radiusKm);
+      } else {
+        restoreSearch(state.search, isFromLink);
+      }
+    } else if (lastSearch) {
+      abortRunningSearch();
+      setLastSearch(null);
+      setBusinesses([]);
+      setError(null);
+      setSearchError(null);
+      setSearchDiff(null);
+      setHasMoreResults(false);
+      setSearchStopped(false);
+      setCategoryFailures([]);
+      setSweepTiles(null);
+    }
+    if (state.place) {
+      const { placeId, title } = state.place;
+      const known = [...businesses, ...favorites, ...(state.sharedList?.businesses ?? [])].find(b => b.placeId === placeId);
+      setSelectedBusiness(known ?? { title, placeId, uri: buildMapsSearchUri(title, placeId) });
+    } else {
+      setSelectedBusiness(null);
+    }
+  };
+  const applyUrlStateRef = useRef(applyUrlState);
+  applyUrlStateRef.current = applyUrlState;
+
+  useEffect(() => {
+    if (!hasReadUrlRef.current) {
+      hasReadUrlRef.current = true;
+      applyUrlStateRef.current(parseUrlState(window.location.search), true);
+      setIsUrlApplied(true);
+    }
+    const handlePopState = () => applyUrlStateRef.current(parseUrlState(window.location.search));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  // Mirrors the current search, open business and shared list into the URL.
+  useEffect(() => {
+    if (!isUrlApplied) return;
+    const state: UrlState = {
+      search: lastSearch ? { ...lastSearch, radiusKm: searchRadius } : undefined,
+      place: selectedBusiness ? { placeId: selectedBusiness.placeId, title: selectedBusiness.title } : undefined,
+      sharedList: sharedList ?? undefined,
+    };
+    const search = buildUrlSearch(state);
+    if (search === window.location.search) return;
+    const current = parseUrlState(window.location.search);
+    // Radius changes, and tidying the URL a link was opened with, don't get their own history entries.
+    const isSameEntry = (current.search ? isSameSearch(current.search, state.search) : !state.search) &&
+      current.place?.placeId === state.place?.placeId &&
+      !!current.sharedList === !!state.sharedList;
+    const url = `${window.location.pathname}${search}${window.location.hash}`;
+    if (isSameEntry) {
+      window.history.replaceState(window.history.state, '', url);
+    } else {
+      window.history.pushState(state.place ? { placeId: state.place.placeId } : null, '', url);
+    }
+  }, [isUrlApplied, lastSearch, searchRadius, selectedBusiness, sharedList]);
+
+  const pickedPlaceIds = useMemo(() => new Set(pickedForShare.map(biz => biz.placeId)), [pickedForShare]);
+
+  const handleTogglePick = (business: Business) => {
+    setPickedForShare(prev => prev.some(biz => biz.placeId === business.placeId)
+      ? prev.filter(biz => biz.placeId !== business.placeId)
+      : prev.length < MAX_SHARED_BUSINESSES ? [...prev, business] : prev);
+  };
   
+  const searchCenter = lastSearch?.location ?? location;
+  // A sweep of a bounding box keeps results inside the box rather than within the radius.
+  const sweepBounds = lastSearch?.sweep?.bounds;
+
   const businessesWithDistance = useMemo(() => {
-    if (!location) {
+    if (!searchCenter) {
         return businesses.map(biz => ({ biz, distance: undefined }));
     }
     return businesses
         .map(biz => {
             if (biz.latitude && biz.longitude) {
-                const distance = getDistance(location, { latitude: biz.latitude, longitude: biz.longitude });
+                const distance = getDistance(searchCenter, { latitude: biz.latitude, longitude: biz.longitude });
                 return { biz, distance };
             }
             // Cannot calculate distance, but keep in list unless filtered by other means
             return { biz, distance: undefined };
         })
-        .filter(({ distance }) => distance === undefined || distance <= searchRadius)
+        .filter(({ biz, distance }) => sweepBounds
+            ? !hasCoordinates(biz) || isInBounds(sweepBounds, biz)
+            : distance === undefined || distance <= searchRadius)
         .sort((a, b) => (a.distance ?? Infinity) - (b.distance ?? Infinity));
-  }, [businesses, searchRadius, location]);
+  }, [businesses, searchRadius, searchCenter, sweepBounds]);
+
+  const { visibleResults, unknownHoursCount } = useMemo(() => {
+    if (openHoursFilter.mode === 'any') {
+      return { visibleResults: businessesWithDistance, unknownHoursCount: 0 };
+    }
+    const now = new Date();
+    let unknown = 0;
+    const visible = businessesWithDistance.filter(({ biz }) => {
+      const matches = matchesOpenHoursFilter(cachedDetails[biz.placeId]?.details.hours, openHoursFilter, now);
+      if (matches === null) unknown++;
+      return matches === true;
+    });
+    return { visibleResults: visible, unknownHoursCount: unknown };
+  }, [businessesWithDistance, openHoursFilter, cachedDetails]);
+
+  const scoresByPlaceId = useMemo(
+    () => new Map(businessesWithDistance.map(({ biz, distance }) => [biz.placeId, scoreLead({
+      title: biz.title,
+      distance,
+      radiusKm: searchCenter ? searchRadius : undefined,
+      details: cachedDetails[biz.placeId]?.details,
+      fit: fitRatings[biz.placeId],
+    }, scoringConfig)])),
+    [businessesWithDistance, searchCenter, searchRadius, cachedDetails, fitRatings, scoringConfig]
+  );
+
+  // Results after the category and score filters, in the chosen order.
+  const rankedResults = useMemo(() => {
+    const scored = visibleResults.filter(({ biz }) =>
+      (!categoryFilter || !!biz.categories?.includes(categoryFilter)) &&
+      (scoresByPlaceId.get(biz.placeId)?.total ?? 0) >= minScore);
+    return sortBy === 'score'
+      ? [...scored].sort((a, b) => (scoresByPlaceId.get(b.biz.placeId)?.total ?? 0) - (scoresByPlaceId.get(a.biz.placeId)?.total ?? 0))
+      : scored;
+  }, [visibleResults, categoryFilter, scoresByPlaceId, sortBy, minScore]);
+
+  const isMultiCategory = !!lastSearch && lastSearch.categories.length > 1;
+
+  // One group per searched category; a business found by several appears in each of their groups.
+  const resultGroups = useMemo(() => {
+    if (!isMultiCategory || !groupByCategory || !lastSearch) return null;
+    return lastSearch.categories
+      .filter(category => !categoryFilter || category === categoryFilter)
+      .map(category => ({ category, results: rankedResults.filter(({ biz }) => biz.categories?.includes(category)) }));
+  }, [isMultiCategory, groupByCategory, lastSearch, categoryFilter, rankedResults]);
+
+  // Likely duplicates in the results, including ones already saved as favorites.
+  const resultDuplicates = useMemo(() => {
+    const resultIds = new Set(businesses.map(biz => biz.placeId));
+    const candidates = [...businesses, ...favorites.filter(fav => !resultIds.has(fav.placeId))]
+      .map(business => ({ business, details: cachedDetails[business.placeId]?.details }));
+    return findDuplicates(candidates);
+  }, [businesses, favorites, cachedDetails]);
+
+  // Duplicates among saved leads, which can be merged.
+  const favoriteDuplicates = useMemo(
+    () => findDuplicates(favorites.map(business => ({ business, details: cachedDetails[business.placeId]?.details }))),
+    [favorites, cachedDetails]
+  );
+
+  const handleMergeDuplicate = (keepPlaceId: string, match: DuplicateMatch) => {
+    if (window.confirm(`Merge "${match.title}" into this lead? Its notes, pitch history and fit rating will be kept and the duplicate removed.`)) {
+      mergeFavorites(keepPlaceId, match.placeId);
+    }
+  };
+
+  const leadsByPlaceId = useMemo(
+    () => new Map(favorites.map(fav => [fav.placeId, fav.lead])),
+    [favorites]
+  );
+
+  const savedPlaceIds = useMemo(() => new Set(favorites.map(fav => fav.placeId)), [favorites]);
+
+  const renderMap = () => {
+    if (businesses.length === 0 && favorites.length === 0) return null;
+    return (
+      <div className="mb-12">
+        <button
+          onClick={() => setShowMap(show => !show)}
+          aria-expanded={showMap}
+          className="flex items-center gap-2 text-sm font-semibold text-slate-300 hover:text-sky-400 transition-colors mb-4"
+        >
+          <MapPinIcon className="h-5 w-5" />
+          {showMap ? 'Hide map' : 'Show map'}
+        </button>
+        {showMap && (
+          <MapView
+            center={searchCenter}
+            radiusKm={sweepBounds ? getBoundsCircle(sweepBounds).radiusKm : searchCenter ? searchRadius : undefined}
+            results={rankedResults.map(({ biz }) => biz)}
+            favorites={favorites}
+            sweepTiles={sweepTiles ?? undefined}
+            highlightedPlaceId={highlightedPlaceId}
+            onHighlight={setHighlightedPlaceId}
+            onSelect={handleShowDetails}
+          />
+        )}
+      </div>
+    );
+  };
 
   const renderFavorites = () => {
     if (favorites.length === 0) return null;
     return (
       <div className="mb-12">
-        <h2 className="text-2xl font-bold text-sky-300 border-b-2 border-slate-700 pb-2 mb-6">
-          ⭐ Your Favorites
-        </h2>
+        <div className="flex flex-wrap items-center justify-between gap-4 border-b-2 border-slate-700 pb-2 mb-6">
+          <h2 className="text-2xl font-bold text-sky-300">
+            ⭐ Your Favorites
+          </h2>
+          <div className="flex rounded-md overflow-hidden border border-slate-600 text-sm" role="group" aria-label="Favorites view">
+            {(['cards', 'board'] as const).map(view => (
+              <button
+                key={view}
+                onClick={() => setFavoritesView(view)}
+                aria-pressed={favoritesView === view}
+                className={`px-3 py-1 capitalize transition-colors ${favoritesView === view ? 'bg-sky-600 text-white' : 'bg-slate-800 text-slate-300 hover:bg-slate-700'}`}
+              >
+                {view}
+              </button>
+            ))}
+          </div>
+          <EnrichmentPanel businesses={favorites} label="favorites" blockedReason={bulkBlockedReason} />
+          <ExportMenu
+            source="favorites"
+            blockedReason={bulkBlockedReason}
+            items={favorites.map(fav => ({
+              business: fav,
+              distance: location && fav.latitude && fav.longitude ? getDistance(location, fav as LocationCoords) : undefined,
+              cached: cachedDetails[fav.placeId],
+            }))}
+          />
+        </div>
+        {favoritesView === 'board' ? (
+          <LeadBoard leads={favorites} onChangeStatus={setLeadStatus} onShowDetails={handleShowDetails} />
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {favorites.map((fav) => (
+              <BusinessCard
+                key={fav.placeId}
+                business={fav}
+                isFavorite={true}
+                onToggleFavorite={toggleFavorite}
+                onShowDetails={handleShowDetails}
+                distance={location && fav.latitude && fav.longitude ? getDistance(location, fav as LocationCoords) : undefined}
+                details={cachedDetails[fav.placeId]?.details}
+                lead={fav.lead}
+                isHighlighted={showMap && highlightedPlaceId === fav.placeId}
+                duplicates={favoriteDuplicates.get(fav.placeId)}
+                onHighlight={setHighlightedPlaceId}
+                onChangeLeadStatus={setLeadStatus}
+                onChangeFollowUpDate={setFollowUpDate}
+                onMergeDuplicate={(match) => handleMergeDuplicate(fav.placeId, match)}
+                isPicked={pickedPlaceIds.has(fav.placeId)}
+                onTogglePick={isPickingForShare ? handleTogglePick : undefined}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderSharedList = () => {
+    if (!sharedList) return null;
+    return (
+      <div className="mb-12">
+        <div className="flex flex-wrap items-center justify-between gap-4 border-b-2 border-slate-700 pb-2 mb-6">
+          <h2 className="text-2xl font-bold text-sky-300">
+            📋 {sharedList.title || 'Shared list'}
+          </h2>
+          <button
+            onClick={() => setSharedList(null)}
+            className="flex items-center gap-1 text-sm text-slate-400 hover:text-white transition-colors"
+          >
+            <XMarkIcon className="h-4 w-4" />
+            Close list
+          </button>
+        </div>
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {favorites.map((fav) => (
+          {sharedList.businesses.map((biz) => (
             <BusinessCard
-              key={fav.placeId}
-              business={fav}
-              isFavorite={true}
+              key={biz.placeId}
+              business={biz}
+              isFavorite={isFavorite(biz)}
               onToggleFavorite={toggleFavorite}
               onShowDetails={handleShowDetails}
-              distance={location && fav.latitude && fav.longitude ? getDistance(location, fav as LocationCoords) : undefined}
+              distance={location && biz.latitude && biz.longitude ? getDistance(location, biz as LocationCoords) : undefined}
+              details={cachedDetails[biz.placeId]?.details}
+              lead={leadsByPlaceId.get(biz.placeId)}
+              isPicked={pickedPlaceIds.has(biz.placeId)}
+              onTogglePick={isPickingForShare ? handleTogglePick : undefined}
             />
           ))}
         </div>
@@ -167,37 +827,215 @@ const App: React.FC = () => {
     );
   };
 
+  const renderResultCard = ({ biz, distance }: { biz: Business; distance?: number }) => (
+    <BusinessCard
+      key={biz.placeId}
+      business={biz}
+      isFavorite={isFavorite(biz)}
+      onToggleFavorite={toggleFavorite}
+      onShowDetails={handleShowDetails}
+      distance={distance}
+      details={cachedDetails[biz.placeId]?.details}
+      lead={leadsByPlaceId.get(biz.placeId)}
+      isHighlighted={showMap && highlightedPlaceId === biz.placeId}
+      isNew={searchDiff?.newPlaceIds.has(biz.placeId)}
+      duplicates={resultDuplicates.get(biz.placeId)}
+      score={scoresByPlaceId.get(biz.placeId)}
+      isPicked={pickedPlaceIds.has(biz.placeId)}
+      onTogglePick={isPickingForShare ? handleTogglePick : undefined}
+      onHighlight={setHighlightedPlaceId}
+      onChangeLeadStatus={setLeadStatus}
+      onChangeFollowUpDate={setFollowUpDate}
+    />
+  );
+
+  const renderLoadMore = () => (
+    <div className="mt-8 flex flex-col items-center gap-3">
+      {loadMoreError && (
+        <ErrorNotice error={loadMoreError} onRetry={handleLoadMore} className="w-full max-w-xl" />
+      )}
+      {hasMoreResults ? (
+        !loadMoreError && (
+          <button
+            onClick={handleLoadMore}
+            disabled={isLoadingMore}
+            className="flex items-center gap-2 px-5 py-2 bg-slate-700 text-slate-200 font-semibold rounded-md hover:bg-slate-600 disabled:bg-slate-700/50 disabled:text-slate-400 disabled:cursor-not-allowed transition-colors"
+          >
+            <ArrowPathIcon className={`h-4 w-4 ${isLoadingMore ? 'animate-spin' : ''}`} />
+            {isLoadingMore ? 'Loading more...' : 'Load more'}
+          </button>
+        )
+      ) : (
+        <p className="text-sm text-slate-500">No more new businesses found for this search.</p>
+      )}
+    </div>
+  );
+
   const renderContent = () => {
-    if (isLoading) {
+    if ((isLoading || isGeocoding) && businesses.length === 0) {
       return <Loader />;
     }
+    if (searchError) {
+      return (
+        <ErrorNotice
+          error={searchError}
+          onRetry={lastSearch ? () => runSearch(lastSearch) : undefined}
+          className="mt-8 max-w-xl mx-auto"
+        />
+      );
+    }
     if (error) {
       return <p className="text-center text-red-400 mt-8">{error}</p>;
     }
     if (businesses.length > 0) {
       if (businessesWithDistance.length > 0) {
         return (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mt-8">
-            {businessesWithDistance.map(({ biz, distance }) => (
-              <BusinessCard 
-                key={biz.placeId} 
-                business={biz}
-                isFavorite={isFavorite(biz)}
-                onToggleFavorite={toggleFavorite}
-                onShowDetails={handleShowDetails}
-                distance={distance}
+          <div className="mt-8">
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+              <p className="text-slate-400">
+                {rankedResults.length === businessesWithDistance.length
+                  ? `${businessesWithDistance.length} results`
+                  : `${rankedResults.length} of ${businessesWithDistance.length} results`}
+                {isLoading && <span className="ml-2 text-sky-400 animate-pulse">Receiving more...</span>}
+                {searchStopped && <span className="ml-2 text-amber-400">Search cancelled; results may be incomplete.</span>}
+              </p>
+              <OpenHoursFilterControl filter={openHoursFilter} onChange={setOpenHoursFilter} />
+              {isMultiCategory && lastSearch && (
+                <div className="flex items-center gap-3 text-sm">
+                  <label className="flex items-center gap-2 text-slate-400">
+                    Category
+                    <select
+                      value={categoryFilter ?? ''}
+                      onChange={(e) => setCategoryFilter(e.target.value || null)}
+                      className="bg-slate-800 border border-slate-600 rounded-md px-2 py-1 text-slate-200 focus:ring-2 focus:ring-sky-500 outline-none"
+                    >
+                      <option value="">All categories</option>
+                      {lastSearch.categories.map(category => (
+                        <option key={category} value={category}>{category}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-2 text-slate-400">
+                    <input type="checkbox" checked={groupByCategory} onChange={(e) => setGroupByCategory(e.target.checked)} />
+                    Group by category
+                  </label>
+                </div>
+              )}
+              <div className="flex items-center gap-3 text-sm">
+                <label className="flex items-center gap-2 text-slate-400">
+                  Sort by
+                  <select
+                    value={sortBy}
+                    onChange={(e) => setSortBy(e.target.value as 'distance' | 'score')}
+                    className="bg-slate-800 border border-slate-600 rounded-md px-2 py-1 text-slate-200 focus:ring-2 focus:ring-sky-500 outline-none"
+                  >
+                    <option value="distance">Distance</option>
+                    <option value="score">Lead score</option>
+                  </select>
+                </label>
+                <label className="flex items-center gap-2 text-slate-400">
+                  Min score
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="10"
+                    value={minScore}
+                    onChange={(e) => setMinScore(Math.min(100, Math.max(0, Number(e.target.value) || 0)))}
+                    className="w-16 bg-slate-800 border border-slate-600 rounded-md px-2 py-1 text-slate-200 focus:ring-2 focus:ring-sky-500 outline-none"
+                  />
+                </label>
+                <button
+                  onClick={() => setShowScoreSettings(show => !show)}
+                  aria-expanded={showScoreSettings}
+                  className="text-slate-400 hover:text-sky-400 transition-colors"
+                >
+                  {showScoreSettings ? 'Hide weights' : 'Score weights'}
+                </button>
+              </div>
+              <FitRatingButton
+                businesses={rankedResults.map(({ biz }) => biz).filter(biz => !fitRatings[biz.placeId])}
+                sender={senderProfile}
+                getDetails={(placeId) => cachedDetails[placeId]?.details}
+                onRated={setFitRating}
+                blockedReason={bulkBlockedReason}
               />
-            ))}
+              <EnrichmentPanel businesses={businessesWithDistance.map(({ biz }) => biz)} label="results" blockedReason={bulkBlockedReason} />
+              <ExportMenu
+                source="results"
+                blockedReason={bulkBlockedReason}
+                items={rankedResults.map(({ biz, distance }) => ({
+                  business: biz,
+                  distance,
+                  cached: cachedDetails[biz.placeId],
+                }))}
+              />
+            </div>
+            {showScoreSettings && <LeadScoreSettings config={scoringConfig} onChange={setScoringConfig} />}
+            {searchDiff && (searchDiff.newPlaceIds.size > 0 || searchDiff.removed.length > 0) && (
+              <div className="text-sm text-slate-300 bg-slate-800/60 border border-slate-700 rounded-lg p-3 mb-4">
+                <span className="font-semibold text-emerald-300">{searchDiff.newPlaceIds.size} new</span> since the last run
+                {searchDiff.removed.length > 0 && (
+                  <span className="text-slate-400">
+                    {' '}· {searchDiff.removed.length} no longer listed: {searchDiff.removed.map(item => item.title).join(', ')}
+                  </span>
+                )}
+              </div>
+            )}
+            {searchDiff && searchDiff.newPlaceIds.size === 0 && searchDiff.removed.length === 0 && (
+              <p className="text-sm text-slate-500 mb-4">No changes since the last run.</p>
+            )}
+            {categoryFailures.length > 0 && (
+              <p className="text-sm text-amber-400 mb-4" role="alert">
+                The search for {categoryFailures.map(failure => `"${failure.category}"`).join(', ')} failed; showing results for the other categories.
+                {lastSearch && (
+                  <button onClick={() => runSearch(lastSearch)} className="ml-2 font-semibold text-sky-400 hover:text-sky-300 transition-colors">
+                    Retry
+                  </button>
+                )}
+              </p>
+            )}
+            {discardedCount > 0 && (
+              <p className="text-sm text-slate-500 mb-4">
+                {discardedCount} {discardedCount === 1 ? 'result was' : 'results were'} discarded because the response was incomplete or invalid.
+              </p>
+            )}
+            {unknownHoursCount > 0 && (
+              <p className="text-sm text-slate-500 mb-4">
+                {unknownHoursCount} {unknownHoursCount === 1 ? 'result is' : 'results are'} hidden because {unknownHoursCount === 1 ? 'its' : 'their'} opening hours are unknown. Use "Enrich all" to load them.
+              </p>
+            )}
+            {resultGroups ? (
+              resultGroups.map(({ category, results }) => (
+                <section key={category} className="mb-8">
+                  <h3 className="text-lg font-semibold text-slate-200 mb-4">
+                    {category} <span className="text-sm font-normal text-slate-500">· {results.length}</span>
+                  </h3>
+                  {results.length > 0 ? (
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                      {results.map(renderResultCard)}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-slate-500">No results for this category match the current filters.</p>
+                  )}
+                </section>
+              ))
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {rankedResults.map(renderResultCard)}
+              </div>
+            )}
+            {!isLoading && !lastSearch?.sweep && renderLoadMore()}
           </div>
         );
       }
       return <p className="text-center text-slate-400 mt-8">No results found within {searchRadius}km. Try increasing the search radius.</p>;
     }
-    if (!isLoading && businesses.length === 0 && !error && favorites.length === 0) {
+    if (!isLoading && businesses.length === 0 && !error && !searchError && favorites.length === 0) {
         return (
             <div className="text-center mt-12 text-slate-400">
                 <h2 className="text-2xl font-semibold">Welcome to the Business Finder</h2>
-                <p className="mt-2">Enter a category like "pizza", "plumbers", or "gyms" to find businesses near you.</p>
+                <p className="mt-2">Enter a category like "pizza", "plumbers", or "gyms" to find businesses near you. Separate several with commas to search them together.</p>
             </div>
         )
     }
@@ -223,41 +1061,86 @@ const App: React.FC = () => {
         <div className="sticky top-4 z-10 bg-slate-900/50 backdrop-blur-md p-4 rounded-xl shadow-2xl border border-slate-700">
           <div className="flex flex-col sm:flex-row gap-4">
             <div className="relative flex-grow">
-              <input
-                type="text"
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                onKeyPress={handleKeyPress}
-                placeholder="e.g., coffee shops, electricians, bookstores..."
-                className="w-full pl-5 pr-12 py-3 bg-slate-800 border border-slate-600 rounded-lg text-white placeholder-slate-500 focus:ring-2 focus:ring-sky-500 focus:border-sky-500 outline-none transition-all"
+              <CategoryChipsInput
+                categories={categories}
+                draft={searchTerm}
+                onChangeCategories={setCategories}
+                onChangeDraft={setSearchTerm}
+                onSubmit={handleSearch}
                 disabled={isLoading}
               />
             </div>
+            {isLoading || isGeocoding ? (
+            <button
+              onClick={handleCancelSearch}
+              className="flex items-center justify-center px-6 py-3 bg-rose-600 text-white font-semibold rounded-lg hover:bg-rose-500 transition-colors duration-300 shadow-lg shadow-rose-600/30"
+            >
+              <XMarkIcon className="h-5 w-5 mr-2" />
+              <span>Cancel search</span>
+            </button>
+            ) : (
             <button
               onClick={handleSearch}
-              disabled={isLoading || (!location && !manualLocation.trim())}
+              disabled={isUsingTypedLocation && !manualLocation.trim() && !sweepInput?.useBounds}
               className="flex items-center justify-center px-6 py-3 bg-sky-600 text-white font-semibold rounded-lg hover:bg-sky-500 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors duration-300 shadow-lg shadow-sky-600/30"
             >
               <SearchIcon className="h-5 w-5 mr-2" />
-              <span>{isLoading ? 'Searching...' : 'Search'}</span>
+              <span>Search</span>
             </button>
+            )}
           </div>
            {locationError && (
-            <div className="mt-4">
-                <p className="text-center text-yellow-400 mb-2 text-sm">{locationError}</p>
+            <p className="text-center text-yellow-400 mt-4 text-sm">{locationError}</p>
+           )}
+           {location && (
+            <div className="mt-3 flex items-center gap-2 text-sm text-slate-400">
+              <MapPinIcon className="h-4 w-4 text-sky-400" />
+              <span>{useTypedLocation ? 'Searching around a typed location instead of your current position.' : 'Searching around your current location.'}</span>
+              <button
+                onClick={() => setUseTypedLocation(typed => !typed)}
+                className="font-semibold text-sky-400 hover:text-sky-300 transition-colors"
+                disabled={isLoading || isGeocoding}
+              >
+                {useTypedLocation ? 'Use my location' : 'Search somewhere else'}
+              </button>
+            </div>
+           )}
+           {isUsingTypedLocation && (
+            <div className="mt-3">
                  <input
                     type="text"
                     value={manualLocation}
-                    onChange={(e) => setManualLocation(e.target.value)}
+                    onChange={(e) => handleManualLocationChange(e.target.value)}
                     onKeyPress={handleKeyPress}
-                    placeholder="Or enter a city, state, or zip code"
+                    placeholder={location ? 'Enter a city, address, or zip code' : 'Or enter a city, state, or zip code'}
                     className="w-full pl-5 pr-5 py-3 bg-slate-800 border border-slate-600 rounded-lg text-white placeholder-slate-500 focus:ring-2 focus:ring-sky-500 focus:border-sky-500 outline-none transition-all"
-                    disabled={isLoading}
+                    disabled={isLoading || isGeocoding}
                     aria-label="Manual location input"
                  />
+                 {resolvedPlace && resolvedPlace.query === manualLocation.trim() && locationCandidates.length === 0 && (
+                  <p className="mt-2 text-xs text-slate-500">
+                    Resolved to {resolvedPlace.place.label} ({resolvedPlace.place.latitude.toFixed(3)}, {resolvedPlace.place.longitude.toFixed(3)})
+                  </p>
+                 )}
+                 {locationCandidates.length > 0 && (
+                  <LocationCandidatePicker
+                    query={manualLocation.trim()}
+                    candidates={locationCandidates}
+                    onPick={place => searchAroundPlace(manualLocation.trim(), place)}
+                  />
+                 )}
             </div>
            )}
-           {location && (
+           <AreaSweepControls
+            input={sweepInput}
+            radiusKm={searchRadius}
+            categoryCount={searchCategoryList.length}
+            paceMs={sweepPaceMs}
+            disabled={isLoading || isGeocoding}
+            onChange={setSweepInput}
+            onChangePace={setSweepPaceMs}
+           />
+           {searchCenter && (
             <div className="mt-4">
               <label htmlFor="radius-slider" className="block text-sm font-medium text-slate-300 mb-2">
                 Search Radius: <span className="font-bold text-sky-400">{searchRadius} km</span>
@@ -277,15 +1160,58 @@ const App: React.FC = () => {
         </div>
 
         <main className="mt-6">
+          <StorageIssuesNotice />
+          <BudgetNotice status={budgetStatus} todayCostUsd={todayCostUsd} budget={budget} />
+          <SavedSearchesPanel
+            savedSearches={savedSearches}
+            canSaveCurrent={!!lastSearch && !isLoading}
+            defaultName={lastSearch ? `${describeSearchCategories(lastSearch)} near ${describeSearchLocation(lastSearch)}` : ''}
+            isLoading={isLoading}
+            onSaveCurrent={handleSaveCurrentSearch}
+            onRun={handleRunSavedSearch}
+            onDelete={deleteSearch}
+          />
+          {(businesses.length > 0 || favorites.length > 0 || sharedList) && (
+            <ShareListBar
+              isPicking={isPickingForShare}
+              picked={pickedForShare}
+              onStart={() => setIsPickingForShare(true)}
+              onCancel={() => setIsPickingForShare(false)}
+              onRemove={handleTogglePick}
+            />
+          )}
+          {renderMap()}
+          {renderSharedList()}
           {renderFavorites()}
+          {sweepTiles && sweepTiles.length > 0 && (
+            <SweepProgressGrid tiles={sweepTiles} isRunning={isLoading} onResume={handleResumeSweep} />
+          )}
           {renderContent()}
+          <DataPanel savedPlaceIds={savedPlaceIds} onImportLeads={importFavorites} />
+          <UsagePanel
+            dailyUsage={dailyUsage}
+            todayCostUsd={todayCostUsd}
+            budget={budget}
+            budgetStatus={budgetStatus}
+            onChangeBudget={setBudget}
+            onClear={clearUsage}
+          />
         </main>
         
         {selectedBusiness && (
             <BusinessDetailModal
                 business={selectedBusiness}
-                category={searchTerm}
+                lead={leadsByPlaceId.get(selectedBusiness.placeId)}
+                profile={senderProfile}
+                pitchOptions={pitchOptions}
+                onChangeProfile={setSenderProfile}
+                onChangePitchOptions={setPitchOptions}
                 onClose={handleCloseModal}
+                onToggleFavorite={toggleFavorite}
+                onChangeLeadStatus={setLeadStatus}
+                onChangeFollowUpDate={setFollowUpDate}
+                onAddLeadNote={addLeadNote}
+                onDeleteLeadNote={deleteLeadNote}
             />
         )}
       </div>
@@ -0,0 +1,101 @@
+import React from 'react';
+import { DEFAULT_SWEEP_INPUT, MAX_SWEEP_SEARCHES, SWEEP_PACE_OPTIONS, SWEEP_TILE_SIZES_KM, SweepInput, countSweepTiles, parseSweepInput } from '../services/areaSweep';
+
+interface AreaSweepControlsProps {
+  /** Null when searches run normally, around a single point. */
+  input: SweepInput | null;
+  radiusKm: number;
+  categoryCount: number;
+  paceMs: number;
+  disabled?: boolean;
+  onChange: (input: SweepInput | null) => void;
+  onChangePace: (paceMs: number) => void;
+}
+
+const fieldClass = 'bg-slate-800 border border-slate-600 rounded-md px-2 py-1 text-slate-200 focus:ring-2 focus:ring-sky-500 outline-none';
+
+/** Turns on area sweep mode and sets its tile size, pace and area. */
+const AreaSweepControls: React.FC<AreaSweepControlsProps> = ({ input, radiusKm, categoryCount, paceMs, disabled = false, onChange, onChangePace }) => {
+  const parsed = input ? parseSweepInput(input) : null;
+  const tileCount = parsed && 'sweep' in parsed ? countSweepTiles(radiusKm, parsed.sweep) : null;
+  const isTooLarge = tileCount !== null && tileCount * Math.max(categoryCount, 1) > MAX_SWEEP_SEARCHES;
+
+  return (
+    <div className="mt-3 text-sm">
+      <label className="inline-flex items-center gap-2 text-slate-300">
+        <input
+          type="checkbox"
+          checked={!!input}
+          onChange={(e) => onChange(e.target.checked ? DEFAULT_SWEEP_INPUT : null)}
+          disabled={disabled}
+        />
+        Area sweep
+        <span className="text-slate-500">— search a large area tile by tile</span>
+      </label>
+      {input && (
+        <div className="mt-2 flex flex-wrap items-center gap-3 text-slate-400">
+          <label className="flex items-center gap-2">
+            Tiles
+            <select
+              value={input.tileKm}
+              onChange={(e) => onChange({ ...input, tileKm: Number(e.target.value) })}
+              className={fieldClass}
+              disabled={disabled}
+            >
+              {SWEEP_TILE_SIZES_KM.map(size => <option key={size} value={size}>{size} × {size} km</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            Pace
+            <select value={paceMs} onChange={(e) => onChangePace(Number(e.target.value))} className={fieldClass} disabled={disabled}>
+              {SWEEP_PACE_OPTIONS.map(({ label, delayMs }) => <option key={delayMs} value={delayMs}>{label}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            Area
+            <select
+              value={input.useBounds ? 'bounds' : 'radius'}
+              onChange={(e) => onChange({ ...input, useBounds: e.target.value === 'bounds' })}
+              className={fieldClass}
+              disabled={disabled}
+            >
+              <option value="radius">Search radius</option>
+              <option value="bounds">Bounding box</option>
+            </select>
+          </label>
+          {input.useBounds && (
+            <>
+              <input
+                type="text"
+                value={input.southWest}
+                onChange={(e) => onChange({ ...input, southWest: e.target.value })}
+                placeholder="South-west corner: lat, lng"
+                className={`${fieldClass} w-52`}
+                disabled={disabled}
+                aria-label="South-west corner"
+              />
+              <input
+                type="text"
+                value={input.northEast}
+                onChange={(e) => onChange({ ...input, northEast: e.target.value })}
+                placeholder="North-east corner: lat, lng"
+                className={`${fieldClass} w-52`}
+                disabled={disabled}
+                aria-label="North-east corner"
+              />
+            </>
+          )}
+          {tileCount !== null && (
+            <span className={isTooLarge ? 'text-rose-400' : 'text-slate-500'}>
+              {isTooLarge
+                ? `More than ${MAX_SWEEP_SEARCHES} searches (tiles × categories); use larger tiles, a smaller area or fewer categories`
+                : <>{tileCount} {tileCount === 1 ? 'tile' : 'tiles'}{categoryCount > 1 && ` × ${categoryCount} categories`}</>}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AreaSweepControls;
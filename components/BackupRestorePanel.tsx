@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { ParsedBackup, RestoreMode, createBackup, parseBackup, previewRestore, restoreBackup } from '../services/backup';
+import { downloadFile } from '../services/exportService';
+import { ArrowDownTrayIcon, ArrowUpTrayIcon } from './Icons';
+
+/** Downloads all saved data to one file and restores it, with a preview first. */
+const BackupRestorePanel: React.FC = () => {
+  const [pending, setPending] = useState<{ fileName: string; backup: ParsedBackup } | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleBackup = async () => {
+    setIsBusy(true);
+    try {
+      const backup = await createBackup();
+      downloadFile(JSON.stringify(backup, null, 2), `business-finder-backup-${backup.exportedAt.slice(0, 10)}.json`, 'application/json;charset=utf-8');
+      setMessage(null);
+    } catch (e) {
+      console.error("Failed to create backup", e);
+      setMessage({ text: 'The backup could not be created.', isError: true });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    try {
+      setPending({ fileName: file.name, backup: parseBackup(await file.text()) });
+      setMode('merge');
+      setMessage(null);
+    } catch (e) {
+      setPending(null);
+      setMessage({ text: e instanceof Error ? e.message : 'The file could not be read.', isError: true });
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!pending) return;
+    if (mode === 'replace' && !window.confirm('Replace your current data with the backup? Data not in the backup will be lost.')) return;
+    setIsBusy(true);
+    try {
+      await restoreBackup(pending.backup, mode);
+      setMessage({ text: `Restored ${pending.fileName}.`, isError: false });
+      setPending(null);
+    } catch (e) {
+      console.error("Failed to restore backup", e);
+      setMessage({ text: 'The backup could not be restored.', isError: true });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="font-semibold text-slate-200 mb-1">Backup and restore</h3>
+      <p className="text-slate-400 mb-3">
+        Saves favorites, notes, saved searches, pitch history, ratings, settings and cached details to one file.
+      </p>
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={handleBackup}
+          disabled={isBusy}
+          className="flex items-center gap-1 px-3 py-1 bg-slate-700 text-slate-200 font-semibold rounded-md hover:bg-slate-600 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors"
+        >
+          <ArrowDownTrayIcon className="h-4 w-4" />
+          Download backup
+        </button>
+        <label className="flex items-center gap-1 px-3 py-1 bg-slate-700 text-slate-200 font-semibold rounded-md hover:bg-slate-600 transition-colors cursor-pointer">
+          <ArrowUpTrayIcon className="h-4 w-4" />
+          Restore from file...
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="sr-only"
+            onChange={(e) => { const file = e.target.files?.[0]; e.target.value = ''; if (file) handleFile(file); }}
+          />
+        </label>
+      </div>
+
+      {pending && (
+        <div className="mt-4 bg-slate-900/60 border border-slate-700 rounded-lg p-3">
+          <p className="text-slate-300 mb-2">
+            <span className="font-semibold">{pending.fileName}</span>
+            {pending.backup.exportedAt && <span className="text-slate-500"> · made {new Date(pending.backup.exportedAt).toLocaleString()}</span>}
+          </p>
+          <table className="w-full text-left mb-3">
+            <thead className="text-xs text-slate-500">
+              <tr><th className="font-normal">Data</th><th className="font-normal">Now</th><th className="font-normal">In backup</th></tr>
+            </thead>
+            <tbody>
+              {previewRestore(pending.backup).map(item => (
+                <tr key={item.label} className="text-slate-300">
+                  <td className="py-0.5">{item.label}</td>
+                  <td>{item.current ?? ''}</td>
+                  <td className={item.error ? 'text-rose-400' : ''} title={item.error}>
+                    {item.error ? 'unreadable, skipped' : !item.included ? 'not included' : item.incoming ?? 'included'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <fieldset className="space-y-1 mb-3">
+            <label className="flex items-start gap-2 text-slate-300">
+              <input type="radio" name="restore-mode" checked={mode === 'merge'} onChange={() => setMode('merge')} className="mt-1" />
+              <span>Merge — add what's missing here; where both have the same lead or search, keep the more recently updated one. Your settings are kept.</span>
+            </label>
+            <label className="flex items-start gap-2 text-slate-300">
+              <input type="radio" name="restore-mode" checked={mode === 'replace'} onChange={() => setMode('replace')} className="mt-1" />
+              <span>Replace — overwrite your current data with the backup's.</span>
+            </label>
+          </fieldset>
+          <div className="flex gap-2">
+            <button
+              onClick={handleRestore}
+              disabled={isBusy}
+              className="px-3 py-1 bg-sky-600 text-white font-semibold rounded-md hover:bg-sky-500 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors"
+            >
+              {mode === 'merge' ? 'Merge backup' : 'Replace with backup'}
+            </button>
+            <button onClick={() => setPending(null)} className="px-2 py-1 text-slate-400 hover:text-white transition-colors">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <p className={`mt-3 ${message.isError ? 'text-rose-400' : 'text-emerald-400'}`} role={message.isError ? 'alert' : 'status'}>{message.text}</p>
+      )}
+    </div>
+  );
+};
+
+export default BackupRestorePanel;
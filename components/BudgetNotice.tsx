@@ -0,0 +1,31 @@
+import React from 'react';
+import { BudgetStatus, UsageBudget, formatUsd } from '../services/usage';
+
+interface BudgetNoticeProps {
+  status: BudgetStatus;
+  todayCostUsd: number;
+  budget: UsageBudget;
+}
+
+/** Warns once today's estimated API spend is over the soft or hard daily budget. */
+const BudgetNotice: React.FC<BudgetNoticeProps> = ({ status, todayCostUsd, budget }) => {
+  if (status === 'ok') return null;
+  const isHard = status === 'hard-exceeded';
+  const limit = isHard ? budget.hardDailyUsd : budget.softDailyUsd;
+
+  return (
+    <div className={`rounded-lg p-4 mb-6 text-sm border ${isHard ? 'bg-rose-950/40 border-rose-800' : 'bg-amber-950/40 border-amber-800'}`} role="alert">
+      <p className={`font-semibold ${isHard ? 'text-rose-300' : 'text-amber-300'}`}>
+        {isHard ? 'Daily API budget reached' : 'Over the daily API budget warning'}
+      </p>
+      <p className="text-slate-300 mt-1">
+        About {formatUsd(todayCostUsd)} has been spent today, over the {isHard ? 'hard' : 'soft'} budget of {formatUsd(limit ?? 0)}.
+        {isHard
+          ? ' "Enrich all", "Rate fit" and area sweeps are paused until tomorrow; single searches and lookups still work.'
+          : ' Bulk actions such as "Enrich all", "Rate fit" and area sweeps can use a lot of calls.'}
+      </p>
+    </div>
+  );
+};
+
+export default BudgetNotice;
@@ -1,26 +1,82 @@
-import React from 'react';
-import { Business } from '../types';
-import { MapPinIcon, ExternalLinkIcon, StarIcon } from './Icons';
+import React, { useEffect, useRef } from 'react';
+import { Business, BusinessDetails, LeadInfo, LeadStatus } from '../types';
+import { isFollowUpDue } from '../services/leadPipeline';
+import { DuplicateMatch, describeDuplicates } from '../services/duplicates';
+import { LeadScore, describeLeadScore, getLeadScoreBadgeClass } from '../services/leadScoring';
+import LeadStatusSelect from './LeadStatusSelect';
+import OpenStatusBadge from './OpenStatusBadge';
+import { MapPinIcon, ExternalLinkIcon, StarIcon, PhoneIcon } from './Icons';
 
 interface BusinessCardProps {
   business: Business;
   isFavorite: boolean;
   distance?: number;
+  details?: BusinessDetails;
+  lead?: LeadInfo;
+  isHighlighted?: boolean;
+  isNew?: boolean;
+  /** Other listings that are likely the same business. */
+  duplicates?: DuplicateMatch[];
+  /** Lead score with its factor breakdown, shown as a badge. */
+  score?: LeadScore;
+  /** Whether the business is in the list being picked for sharing. */
+  isPicked?: boolean;
+  onHighlight?: (placeId: string | null) => void;
   onToggleFavorite: (business: Business) => void;
   onShowDetails: (business: Business) => void;
+  onChangeLeadStatus?: (placeId: string, status: LeadStatus) => void;
+  onChangeFollowUpDate?: (placeId: string, date?: string) => void;
+  /** Merges a duplicate saved lead into this one; only offered when given. */
+  onMergeDuplicate?: (match: DuplicateMatch) => void;
+  /** Adds or removes the business from the share list; the checkbox shows only when given. */
+  onTogglePick?: (business: Business) => void;
 }
 
-const BusinessCard: React.FC<BusinessCardProps> = ({ business, isFavorite, distance, onToggleFavorite, onShowDetails }) => {
+const BusinessCard: React.FC<BusinessCardProps> = ({
+  business,
+  isFavorite,
+  distance,
+  details,
+  lead,
+  isHighlighted = false,
+  isNew = false,
+  duplicates = [],
+  score,
+  isPicked = false,
+  onHighlight,
+  onToggleFavorite,
+  onShowDetails,
+  onChangeLeadStatus,
+  onChangeFollowUpDate,
+  onMergeDuplicate,
+  onTogglePick,
+}) => {
+  const cardRef = useRef<HTMLDivElement>(null);
+  const isHoveredRef = useRef(false);
+
+  // Bring the card into view when its map marker is hovered.
+  useEffect(() => {
+    if (isHighlighted && !isHoveredRef.current) {
+      cardRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }
+  }, [isHighlighted]);
+
   const handleFavoriteClick = (e: React.MouseEvent) => {
     e.stopPropagation();
     e.preventDefault();
     onToggleFavorite(business);
   };
-  
+
   return (
-    <button 
+    <div
+      ref={cardRef}
       onClick={() => onShowDetails(business)}
-      className="bg-slate-800/50 backdrop-blur-sm rounded-xl overflow-hidden shadow-lg border border-slate-700 transform transition-all duration-300 hover:scale-105 hover:shadow-sky-500/20 relative text-left w-full cursor-pointer"
+      onMouseEnter={() => { isHoveredRef.current = true; onHighlight?.(business.placeId); }}
+      onMouseLeave={() => { isHoveredRef.current = false; onHighlight?.(null); }}
+      onKeyDown={(e) => { if (e.target === e.currentTarget && (e.key === 'Enter' || e.key === ' ')) { e.preventDefault(); onShowDetails(business); } }}
+      role="button"
+      tabIndex={0}
+      className={`bg-slate-800/50 backdrop-blur-sm rounded-xl overflow-hidden shadow-lg border border-slate-700 transform transition-all duration-300 hover:scale-105 hover:shadow-sky-500/20 relative text-left w-full cursor-pointer ${isHighlighted ? 'ring-2 ring-sky-400' : ''}`}
       aria-label={`View details for ${business.title}`}
     >
       <div
@@ -34,13 +90,95 @@ const BusinessCard: React.FC<BusinessCardProps> = ({ business, isFavorite, dista
       >
         <StarIcon solid={isFavorite} className="h-6 w-6" />
       </div>
+      {onTogglePick && (
+        <label
+          onClick={(e) => e.stopPropagation()}
+          onKeyDown={(e) => e.stopPropagation()}
+          className="absolute top-4 right-16 z-10 flex items-center gap-1 px-2 py-1 rounded-md bg-slate-900/80 text-xs text-slate-300 cursor-pointer"
+        >
+          <input type="checkbox" checked={isPicked} onChange={() => onTogglePick(business)} />
+          Share
+        </label>
+      )}
       <div className="p-6">
         <div className="flex items-start gap-4">
           <div className="flex-shrink-0 h-12 w-12 bg-slate-700 rounded-lg flex items-center justify-center">
             <MapPinIcon className="h-6 w-6 text-sky-400" />
           </div>
           <div className="flex-grow pr-8">
-            <h3 className="text-xl font-bold text-sky-300 mb-1">{business.title}</h3>
+            <h3 className="text-xl font-bold text-sky-300 mb-1">
+              {business.title}
+              {isNew && (
+                <span className="ml-2 align-middle text-xs font-semibold px-1.5 py-0.5 rounded bg-emerald-700 text-emerald-100">New</span>
+              )}
+              {score && (
+                <span
+                  className={`ml-2 align-middle text-xs font-semibold px-1.5 py-0.5 rounded cursor-help ${getLeadScoreBadgeClass(score.total)}`}
+                  title={describeLeadScore(score)}
+                  aria-label={`Lead score ${score.total} out of 100`}
+                >
+                  Score {score.total}
+                </span>
+              )}
+            </h3>
+            {business.categories && business.categories.length > 0 && (
+              <div className="mb-2 flex flex-wrap gap-1 text-xs">
+                {business.categories.map(category => (
+                  <span key={category} className="px-1.5 py-0.5 rounded bg-slate-700 text-slate-300">{category}</span>
+                ))}
+              </div>
+            )}
+            {duplicates.length > 0 && (
+                <div className="mb-2 text-xs">
+                  <span
+                    className="font-semibold px-1.5 py-0.5 rounded bg-amber-700/80 text-amber-100"
+                    title={`Possible duplicate of ${describeDuplicates(duplicates)}`}
+                  >
+                    Possible duplicate
+                  </span>
+                  {onMergeDuplicate && duplicates.map(match => (
+                    <button
+                      key={match.placeId}
+                      onClick={(e) => { e.stopPropagation(); onMergeDuplicate(match); }}
+                      onKeyDown={(e) => e.stopPropagation()}
+                      className="block mt-1 text-amber-300 hover:text-amber-200 hover:underline text-left"
+                      title={match.reasons.join(', ')}
+                    >
+                      Merge "{match.title}" into this lead
+                    </button>
+                  ))}
+                </div>
+            )}
+            {details?.address && (
+                <p className="text-sm text-slate-400 mb-2 truncate" title={details.address}>{details.address}</p>
+            )}
+            {details?.hours && <OpenStatusBadge hours={details.hours} className="mb-2" />}
+            {(details?.phone || details?.website) && (
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mb-2 text-sm">
+                    {details.phone && (
+                        <a
+                          href={`tel:${details.phone}`}
+                          onClick={(e) => e.stopPropagation()}
+                          className="inline-flex items-center gap-1 text-slate-300 hover:text-sky-400 transition-colors"
+                        >
+                          <PhoneIcon className="h-4 w-4" />
+                          {details.phone}
+                        </a>
+                    )}
+                    {details.website && (
+                        <a
+                          href={details.website}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          onClick={(e) => e.stopPropagation()}
+                          className="inline-flex items-center gap-1 text-slate-300 hover:text-sky-400 transition-colors truncate max-w-full"
+                        >
+                          <ExternalLinkIcon className="h-4 w-4 flex-shrink-0" />
+                          <span className="truncate">{details.website.replace(/^https?:\/\//, '').replace(/\/$/, '')}</span>
+                        </a>
+                    )}
+                </div>
+            )}
             <div className="flex items-center justify-between">
                 <a
                   href={business.uri}
@@ -60,9 +198,32 @@ const BusinessCard: React.FC<BusinessCardProps> = ({ business, isFavorite, dista
             </div>
           </div>
         </div>
+        {lead && (
+          <div className="mt-4 pt-4 border-t border-slate-700 flex flex-wrap items-center gap-3">
+            {onChangeLeadStatus && (
+              <LeadStatusSelect status={lead.status} onChange={(status) => onChangeLeadStatus(business.placeId, status)} />
+            )}
+            {onChangeFollowUpDate && (
+              <input
+                type="date"
+                value={lead.followUpDate ?? ''}
+                onChange={(e) => onChangeFollowUpDate(business.placeId, e.target.value)}
+                onClick={(e) => e.stopPropagation()}
+                onKeyDown={(e) => e.stopPropagation()}
+                className={`bg-slate-900 border rounded-md px-2 py-0.5 text-xs text-slate-300 focus:ring-2 focus:ring-sky-500 outline-none ${isFollowUpDue(lead) ? 'border-rose-500' : 'border-slate-600'}`}
+                aria-label="Follow-up date"
+              />
+            )}
+            {lead.notes.length > 0 && (
+              <p className="w-full text-xs text-slate-400 truncate" title={lead.notes[0].text}>
+                📝 {lead.notes[0].text}
+              </p>
+            )}
+          </div>
+        )}
       </div>
-    </button>
+    </div>
   );
 };
 
-export default BusinessCard;
\ No newline at end of file
+export default BusinessCard;
@@ -1,7 +1,17 @@
-import React, { useState, useEffect } from 'react';
-import { Business, BusinessDetails } from '../types';
-import { getBusinessDetails, generateContactPitch } from '../services/geminiService';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Business, BusinessDetails, GeneratedPitch, LeadInfo, LeadStatus, PitchHistoryEntry, PitchOptions, SenderProfile } from '../types';
+import { dataProvider } from '../services/dataProvider';
+import { loadBusinessDetails } from '../services/detailsCache';
+import { createPitchHistoryEntry, formatPitchForCopy, withSignature } from '../services/pitch';
+import { formatTimeAgo } from '../utils/formatters';
+import { usePitchHistory } from '../hooks/usePitchHistory';
 import Loader from './Loader';
+import LeadEditor from './LeadEditor';
+import OpenStatusBadge from './OpenStatusBadge';
+import ErrorNotice from './ErrorNotice';
+import PitchOptionsForm from './PitchOptionsForm';
+import PitchHistoryList from './PitchHistoryList';
+import SenderProfileForm from './SenderProfileForm';
 import { 
     BuildingOfficeIcon, 
     ClockIcon, 
@@ -9,46 +19,94 @@ import {
     XMarkIcon, 
     ExternalLinkIcon, 
     SparklesIcon, 
-    ClipboardDocumentIcon 
+    ClipboardDocumentIcon,
+    ArrowPathIcon,
+    StarIcon,
+    MapPinIcon
 } from './Icons';
 
 interface BusinessDetailModalProps {
   business: Business;
-  category: string;
+  lead?: LeadInfo;
+  profile: SenderProfile;
+  pitchOptions: PitchOptions;
+  onChangeProfile: (profile: SenderProfile) => void;
+  onChangePitchOptions: (options: PitchOptions) => void;
   onClose: () => void;
+  onToggleFavorite: (business: Business) => void;
+  onChangeLeadStatus: (placeId: string, status: LeadStatus) => void;
+  onChangeFollowUpDate: (placeId: string, date?: string) => void;
+  onAddLeadNote: (placeId: string, text: string) => void;
+  onDeleteLeadNote: (placeId: string, noteId: string) => void;
 }
 
-const BusinessDetailModal: React.FC<BusinessDetailModalProps> = ({ business, category, onClose }) => {
+const BusinessDetailModal: React.FC<BusinessDetailModalProps> = ({
+  business,
+  lead,
+  profile,
+  pitchOptions,
+  onChangeProfile: setProfile,
+  onChangePitchOptions: setPitchOptions,
+  onClose,
+  onToggleFavorite,
+  onChangeLeadStatus,
+  onChangeFollowUpDate,
+  onAddLeadNote,
+  onDeleteLeadNote,
+}) => {
   const [details, setDetails] = useState<BusinessDetails | null>(null);
+  const [fetchedAt, setFetchedAt] = useState<number | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<unknown>(null);
   
-  const [pitch, setPitch] = useState<string>('');
+  const { entries: pitchHistory, addEntry: addPitchEntry, deleteEntry: deletePitchEntry } = usePitchHistory(business.placeId);
+  const [selectedPitchId, setSelectedPitchId] = useState<string | null>(null);
   const [isPitchLoading, setIsPitchLoading] = useState(false);
-  const [pitchError, setPitchError] = useState<string | null>(null);
+  const [pitchError, setPitchError] = useState<unknown>(null);
   const [copied, setCopied] = useState(false);
+  const [isEditingProfile, setIsEditingProfile] = useState(false);
+  const [streamingPitch, setStreamingPitch] = useState<GeneratedPitch | null>(null);
+  const pitchAbortRef = useRef<AbortController | null>(null);
+  // The business shown now, for a pitch that finishes after the modal moved on.
+  const placeIdRef = useRef(business.placeId);
+  placeIdRef.current = business.placeId;
+  const detailsAbortRef = useRef<AbortController | null>(null);
 
+  // Show the chosen history entry, or the most recent pitch by default.
+  const selectedEntry: PitchHistoryEntry | null = pitchHistory.find(entry => entry.id === selectedPitchId) ?? pitchHistory[0] ?? null;
+  const pitch: GeneratedPitch | null = isPitchLoading ? streamingPitch : selectedEntry;
 
-  useEffect(() => {
-    const fetchDetails = async () => {
-      setIsLoading(true);
-      setError(null);
-      try {
-        const result = await getBusinessDetails(business.placeId);
-        setDetails(result);
-      } catch (err) {
-        if (err instanceof Error) {
-          setError(err.message);
-        } else {
-          setError('An unknown error occurred while fetching details.');
-        }
-      } finally {
+  // Stop a pitch that is still streaming when the modal closes or shows another business.
+  useEffect(() => () => pitchAbortRef.current?.abort(), [business.placeId]);
+
+  // Each load cancels the one before it, so a slow response for an earlier
+  // request (or another business) can't overwrite the current one.
+  const fetchDetails = useCallback(async (forceRefresh = false) => {
+    detailsAbortRef.current?.abort();
+    const controller = new AbortController();
+    detailsAbortRef.current = controller;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await loadBusinessDetails(business.placeId, { forceRefresh, lookup: business.lookup, signal: controller.signal });
+      if (controller.signal.aborted) return;
+      setDetails(result.details);
+      setFetchedAt(result.fetchedAt);
+    } catch (err) {
+      if (!controller.signal.aborted) setError(err);
+    } finally {
+      if (detailsAbortRef.current === controller) {
+        detailsAbortRef.current = null;
         setIsLoading(false);
       }
-    };
-    fetchDetails();
+    }
   }, [business.placeId]);
 
+  useEffect(() => {
+    fetchDetails();
+    return () => detailsAbortRef.current?.abort();
+  }, [fetchDetails]);
+
   useEffect(() => {
     const handleEsc = (event: KeyboardEvent) => {
       if (event.key === 'Escape') {
@@ -64,27 +122,45 @@ const BusinessDetailModal: React.FC<BusinessDetailModalProps> = ({ business, cat
   const handleGeneratePitch = async () => {
     setIsPitchLoading(true);
     setPitchError(null);
-    setPitch('');
+    setStreamingPitch(null);
+    const controller = new AbortController();
+    pitchAbortRef.current = controller;
+    const placeId = business.placeId;
+    const isForShownBusiness = () => placeIdRef.current === placeId;
     try {
-      if (!category) {
-        throw new Error("Business category is not available. Please perform a search first.");
+      const result = await dataProvider.generateContactPitch({
+        businessName: business.title,
+        businessCategory: business.categories?.join(', ') ?? '',
+        purpose: pitchOptions.purpose,
+        tone: pitchOptions.tone,
+        language: pitchOptions.language.trim() || 'English',
+        sender: profile,
+        details: pitchOptions.includeDetails && details ? details : undefined,
+      }, { onText: text => { if (isForShownBusiness()) setStreamingPitch(text); }, signal: controller.signal });
+      // A pitch stopped by switching to another business is dropped rather than saved
+      // to either one, and one stopped before any body text arrived isn't worth keeping.
+      if (isForShownBusiness() && result.body) {
+        const entry = createPitchHistoryEntry(result.stopped ? result : withSignature(result, profile), pitchOptions);
+        addPitchEntry(entry);
+        setSelectedPitchId(entry.id);
       }
-      const result = await generateContactPitch(business.title, category);
-      setPitch(result);
     } catch (err) {
-      if (err instanceof Error) {
-        setPitchError(err.message);
-      } else {
-        setPitchError('An unknown error occurred while generating the pitch.');
-      }
+      if (isForShownBusiness()) setPitchError(err);
     } finally {
-      setIsPitchLoading(false);
+      if (pitchAbortRef.current === controller) {
+        pitchAbortRef.current = null;
+        setIsPitchLoading(false);
+      }
     }
   };
 
+  const handleStopPitch = () => {
+    pitchAbortRef.current?.abort();
+  };
+
   const handleCopyPitch = () => {
     if (!pitch) return;
-    navigator.clipboard.writeText(pitch);
+    navigator.clipboard.writeText(formatPitchForCopy(pitch));
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
@@ -115,7 +191,7 @@ const BusinessDetailModal: React.FC<BusinessDetailModalProps> = ({ business, cat
       aria-labelledby="business-details-title"
     >
       <div
-        className="bg-slate-800 border border-slate-700 rounded-2xl shadow-2xl w-full max-w-lg mx-auto relative transform transition-all duration-300 animate-slide-up"
+        className="bg-slate-800 border border-slate-700 rounded-2xl shadow-2xl w-full max-w-lg mx-auto relative transform transition-all duration-300 animate-slide-up max-h-[90vh] overflow-y-auto"
         onClick={(e) => e.stopPropagation()}
       >
         <div className="p-6 border-b border-slate-700">
@@ -131,7 +207,7 @@ const BusinessDetailModal: React.FC<BusinessDetailModalProps> = ({ business, cat
 
         <div className="p-6">
           {isLoading && <Loader />}
-          {error && <p className="text-center text-red-400">{error}</p>}
+          {!isLoading && !!error && <ErrorNotice error={error} onRetry={() => fetchDetails(true)} />}
           {!isLoading && !error && details && (
             <div className="space-y-3">
               {renderDetailItem(BuildingOfficeIcon, details.address)}
@@ -143,7 +219,10 @@ const BusinessDetailModal: React.FC<BusinessDetailModalProps> = ({ business, cat
                     <div className="flex items-start gap-4">
                         <ClockIcon className="h-6 w-6 text-sky-400 flex-shrink-0 mt-1" />
                         <div className="text-slate-300">
-                           <h4 className="font-semibold text-slate-200 mb-1">Opening Hours</h4>
+                           <h4 className="font-semibold text-slate-200 mb-1 flex flex-wrap items-center gap-2">
+                               Opening Hours
+                               <OpenStatusBadge hours={details.hours} />
+                           </h4>
                            <ul className="text-sm space-y-1">
                                 {details.hours.map((line, index) => (
                                     <li key={index}>{line}</li>
@@ -155,6 +234,85 @@ const BusinessDetailModal: React.FC<BusinessDetailModalProps> = ({ business, cat
               )}
             </div>
           )}
+          {!isLoading && details && !error && (
+            <div className="mt-4 flex items-center justify-between text-xs text-slate-500">
+              <span>{fetchedAt && details ? `Fetched ${formatTimeAgo(fetchedAt)}` : ''}</span>
+              <button
+                onClick={() => fetchDetails(true)}
+                className="flex items-center gap-1 px-2 py-1 rounded-md text-slate-400 hover:text-sky-400 hover:bg-slate-700/50 transition-colors"
+                aria-label="Refresh details"
+              >
+                <ArrowPathIcon className="h-4 w-4" />
+                Refresh
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="border-t border-slate-700 p-6">
+            <h3 className="text-lg font-semibold text-sky-400 mb-4 flex items-center gap-2">
+                <MapPinIcon className="h-5 w-5" />
+                Sources
+            </h3>
+            {business.grounding ? (
+                <div className="space-y-4 text-sm">
+                    <ul className="space-y-1">
+                        {business.grounding.sources.map(source => (
+                            <li key={source.uri}>
+                                <a href={source.uri} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-sky-400 hover:text-sky-300 hover:underline">
+                                    {source.title} on Google Maps
+                                    <ExternalLinkIcon className="h-4 w-4" />
+                                </a>
+                            </li>
+                        ))}
+                    </ul>
+                    {business.grounding.reviewSnippets.length > 0 && (
+                        <ul className="space-y-3">
+                            {business.grounding.reviewSnippets.map((snippet, index) => (
+                                <li key={index} className="border-l-2 border-slate-600 pl-3">
+                                    <p className="text-slate-300 italic">"{snippet.text}"</p>
+                                    <p className="text-xs text-slate-500 mt-1">
+                                        {[snippet.author, snippet.relativeTime].filter(Boolean).join(' · ')}
+                                        {snippet.uri && (
+                                            <a href={snippet.uri} target="_blank" rel="noopener noreferrer" className="ml-2 text-sky-500 hover:underline">View review</a>
+                                        )}
+                                    </p>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    {business.grounding.flagContentUri && (
+                        <a href={business.grounding.flagContentUri} target="_blank" rel="noopener noreferrer" className="block text-xs text-slate-500 hover:text-slate-400 hover:underline">
+                            Report a problem with this information
+                        </a>
+                    )}
+                </div>
+            ) : (
+                <p className="text-sm text-slate-500">No source data is stored for this lead. Sources are kept for businesses found by a search in this app, not for imported, linked or older saved ones.</p>
+            )}
+        </div>
+
+        <div className="border-t border-slate-700 p-6">
+            <h3 className="text-lg font-semibold text-sky-400 mb-4 flex items-center gap-2">
+                <StarIcon solid={!!lead} className="h-5 w-5" />
+                Lead Pipeline
+            </h3>
+            {lead ? (
+                <LeadEditor
+                    lead={lead}
+                    onChangeStatus={(status) => onChangeLeadStatus(business.placeId, status)}
+                    onChangeFollowUpDate={(date) => onChangeFollowUpDate(business.placeId, date)}
+                    onAddNote={(text) => onAddLeadNote(business.placeId, text)}
+                    onDeleteNote={(noteId) => onDeleteLeadNote(business.placeId, noteId)}
+                />
+            ) : (
+                <button
+                    onClick={() => onToggleFavorite(business)}
+                    className="w-full px-4 py-2 bg-slate-700 text-white font-semibold rounded-lg hover:bg-slate-600 transition-colors duration-300 text-sm"
+                >
+                    Save as lead to track status and notes
+                </button>
+            )}
         </div>
         
         <div className="border-t border-slate-700 p-6 bg-slate-800/50 rounded-b-2xl">
@@ -162,12 +320,45 @@ const BusinessDetailModal: React.FC<BusinessDetailModalProps> = ({ business, cat
                 <SparklesIcon className="h-5 w-5" />
                 Lead Generation Assistant
             </h3>
-            {pitch ? (
+            <PitchOptionsForm
+                options={pitchOptions}
+                onChange={setPitchOptions}
+                hasDetails={!!details}
+                disabled={isPitchLoading}
+            />
+            <div className="mt-2 mb-4 text-xs text-slate-500">
+                {profile.company.trim() || profile.name.trim()
+                    ? `From ${[profile.name.trim(), profile.company.trim()].filter(Boolean).join(', ')}`
+                    : 'No sender profile yet.'}
+                <button
+                    onClick={() => setIsEditingProfile(editing => !editing)}
+                    className="ml-2 font-semibold text-sky-400 hover:text-sky-300 transition-colors"
+                >
+                    {isEditingProfile ? 'Close profile' : 'Edit sender profile'}
+                </button>
+            </div>
+            {isEditingProfile && (
+                <div className="mb-4">
+                    <SenderProfileForm
+                        profile={profile}
+                        onSave={(updated) => { setProfile(updated); setIsEditingProfile(false); }}
+                        onCancel={() => setIsEditingProfile(false)}
+                    />
+                </div>
+            )}
+            {pitch || isPitchLoading ? (
                 <div>
+                <input
+                    readOnly
+                    value={pitch?.subject ?? ''}
+                    placeholder={isPitchLoading ? 'Writing...' : ''}
+                    className="w-full mb-2 p-2 bg-slate-900 border border-slate-600 rounded-lg text-slate-200 text-sm font-semibold focus:outline-none focus:ring-2 focus:ring-sky-500"
+                    aria-label="Generated subject line"
+                />
                 <div className="relative">
                     <textarea
                     readOnly
-                    value={pitch}
+                    value={pitch?.body ?? ''}
                     className="w-full h-40 p-3 bg-slate-900 border border-slate-600 rounded-lg text-slate-300 text-sm font-mono resize-none focus:outline-none focus:ring-2 focus:ring-sky-500"
                     aria-label="Generated contact pitch"
                     />
@@ -179,26 +370,43 @@ const BusinessDetailModal: React.FC<BusinessDetailModalProps> = ({ business, cat
                     {copied ? 'Copied!' : 'Copy'}
                     </button>
                 </div>
-                <button 
-                    onClick={handleGeneratePitch} 
-                    disabled={isPitchLoading}
-                    className="mt-3 w-full flex items-center justify-center px-4 py-2 bg-slate-700 text-white font-semibold rounded-lg hover:bg-slate-600 disabled:bg-slate-500 disabled:cursor-not-allowed transition-colors duration-300 text-sm"
-                >
-                    <SparklesIcon className="h-5 w-5 mr-2" />
-                    <span>{isPitchLoading ? 'Regenerating...' : 'Regenerate Pitch'}</span>
-                </button>
+                {selectedEntry?.stopped && !isPitchLoading && (
+                    <p className="mt-1 text-xs text-amber-400">Generation was stopped; this version may be incomplete.</p>
+                )}
+                {isPitchLoading ? (
+                    <button
+                        onClick={handleStopPitch}
+                        className="mt-3 w-full flex items-center justify-center px-4 py-2 bg-rose-700 text-white font-semibold rounded-lg hover:bg-rose-600 transition-colors duration-300 text-sm"
+                    >
+                        <XMarkIcon className="h-5 w-5 mr-2" />
+                        <span>Stop generating</span>
+                    </button>
+                ) : (
+                    <button 
+                        onClick={handleGeneratePitch} 
+                        className="mt-3 w-full flex items-center justify-center px-4 py-2 bg-slate-700 text-white font-semibold rounded-lg hover:bg-slate-600 transition-colors duration-300 text-sm"
+                    >
+                        <SparklesIcon className="h-5 w-5 mr-2" />
+                        <span>Generate New Version</span>
+                    </button>
+                )}
                 </div>
             ) : (
                 <button 
                 onClick={handleGeneratePitch} 
-                disabled={isPitchLoading}
-                className="w-full flex items-center justify-center px-4 py-2 bg-sky-600 text-white font-semibold rounded-lg hover:bg-sky-500 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors duration-300 shadow-lg shadow-sky-600/30"
+                className="w-full flex items-center justify-center px-4 py-2 bg-sky-600 text-white font-semibold rounded-lg hover:bg-sky-500 transition-colors duration-300 shadow-lg shadow-sky-600/30"
                 >
                     <SparklesIcon className="h-5 w-5 mr-2" />
-                    <span>{isPitchLoading ? 'Generating...' : 'Generate Contact Pitch'}</span>
+                    <span>Generate Contact Pitch</span>
                 </button>
             )}
-            {pitchError && <p className="text-center text-red-400 mt-3 text-sm">{pitchError}</p>}
+            {!!pitchError && !isPitchLoading && <ErrorNotice error={pitchError} onRetry={handleGeneratePitch} className="mt-3" />}
+            <PitchHistoryList
+                entries={pitchHistory}
+                selectedId={isPitchLoading ? null : selectedEntry?.id ?? null}
+                onSelect={(entry) => setSelectedPitchId(entry.id)}
+                onDelete={deletePitchEntry}
+            />
         </div>
 
       </div>
@@ -0,0 +1,71 @@
+import React from 'react';
+import { dedupeCategories, parseCategories } from '../services/categorySearch';
+import { XMarkIcon } from './Icons';
+
+interface CategoryChipsInputProps {
+  categories: string[];
+  /** Text typed after the chips that hasn't become a chip yet. */
+  draft: string;
+  disabled?: boolean;
+  onChangeCategories: (categories: string[]) => void;
+  onChangeDraft: (draft: string) => void;
+  onSubmit: () => void;
+}
+
+/** The search box: typing a comma turns the text before it into a category chip. */
+const CategoryChipsInput: React.FC<CategoryChipsInputProps> = ({
+  categories,
+  draft,
+  disabled = false,
+  onChangeCategories,
+  onChangeDraft,
+  onSubmit,
+}) => {
+  const handleChange = (value: string) => {
+    const lastComma = value.lastIndexOf(',');
+    if (lastComma === -1) {
+      onChangeDraft(value);
+      return;
+    }
+    onChangeCategories(dedupeCategories([...categories, ...parseCategories(value.slice(0, lastComma))]));
+    onChangeDraft(value.slice(lastComma + 1).trimStart());
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      onSubmit();
+    } else if (event.key === 'Backspace' && draft === '' && categories.length > 0) {
+      onChangeCategories(categories.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="w-full flex flex-wrap items-center gap-2 px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg focus-within:ring-2 focus-within:ring-sky-500 focus-within:border-sky-500 transition-all">
+      {categories.map(category => (
+        <span key={category} className="flex items-center gap-1 pl-2 pr-1 py-1 rounded-md bg-sky-900/60 text-sky-100 text-sm">
+          {category}
+          <button
+            onClick={() => onChangeCategories(categories.filter(c => c !== category))}
+            disabled={disabled}
+            className="text-sky-300 hover:text-white disabled:cursor-not-allowed transition-colors"
+            aria-label={`Remove ${category}`}
+          >
+            <XMarkIcon className="h-4 w-4" />
+          </button>
+        </span>
+      ))}
+      <input
+        type="text"
+        value={draft}
+        onChange={(e) => handleChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder={categories.length === 0 ? 'e.g., plumbers, electricians, HVAC...' : 'Add another category...'}
+        className="flex-grow min-w-[10rem] py-1 bg-transparent text-white placeholder-slate-500 outline-none"
+        disabled={disabled}
+        aria-label="Business categories, separated by commas"
+      />
+    </div>
+  );
+};
+
+export default CategoryChipsInput;
@@ -0,0 +1,34 @@
+import React, { useState } from 'react';
+import { Business } from '../types';
+import BackupRestorePanel from './BackupRestorePanel';
+import LeadImportPanel from './LeadImportPanel';
+
+interface DataPanelProps {
+  savedPlaceIds: Set<string>;
+  onImportLeads: (businesses: Business[]) => void;
+}
+
+/** Collapsible section for backing up, restoring and importing data. */
+const DataPanel: React.FC<DataPanelProps> = ({ savedPlaceIds, onImportLeads }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="mt-12">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        aria-expanded={isOpen}
+        className="text-sm font-semibold text-slate-300 hover:text-sky-400 transition-colors"
+      >
+        {isOpen ? 'Hide backup and import' : 'Backup, restore and import...'}
+      </button>
+      {isOpen && (
+        <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-6 bg-slate-800/60 border border-slate-700 rounded-lg p-4 text-sm">
+          <BackupRestorePanel />
+          <LeadImportPanel savedPlaceIds={savedPlaceIds} onImport={onImportLeads} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataPanel;
@@ -0,0 +1,111 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Business } from '../types';
+import { EnrichmentProgress, enrichBusinesses } from '../services/enrichment';
+import { SparklesIcon, ArrowPathIcon, XMarkIcon } from './Icons';
+
+interface EnrichmentPanelProps {
+  businesses: Business[];
+  label: string;
+  /** Set while enrichment isn't allowed, e.g. over the daily budget; stops a run in progress. */
+  blockedReason?: string | null;
+}
+
+type EnrichmentStatus = 'idle' | 'running' | 'done' | 'cancelled';
+
+/** "Enrich all" control that fetches details for a whole list of businesses. */
+const EnrichmentPanel: React.FC<EnrichmentPanelProps> = ({ businesses, label, blockedReason }) => {
+  const [status, setStatus] = useState<EnrichmentStatus>('idle');
+  const [progress, setProgress] = useState<EnrichmentProgress | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  useEffect(() => {
+    if (blockedReason) abortControllerRef.current?.abort();
+  }, [blockedReason]);
+
+  const run = async (targets: Business[]) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setStatus('running');
+    setProgress({ total: targets.length, completed: 0, succeeded: 0, failures: [] });
+    const result = await enrichBusinesses(targets, { signal: controller.signal, onProgress: setProgress });
+    if (abortControllerRef.current !== controller) return;
+    abortControllerRef.current = null;
+    setProgress(result);
+    setStatus(controller.signal.aborted ? 'cancelled' : 'done');
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleRetryFailed = () => {
+    if (!progress) return;
+    run(progress.failures.map(failure => failure.business));
+  };
+
+  const percent = progress && progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 0;
+
+  return (
+    <div className="text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        {status === 'running' ? (
+          <button
+            onClick={handleCancel}
+            className="flex items-center gap-1 px-3 py-1 bg-rose-700 text-white font-semibold rounded-md hover:bg-rose-600 transition-colors"
+          >
+            <XMarkIcon className="h-4 w-4" />
+            Cancel
+          </button>
+        ) : (
+          <button
+            onClick={() => run(businesses)}
+            disabled={businesses.length === 0 || !!blockedReason}
+            title={blockedReason ?? undefined}
+            className="flex items-center gap-1 px-3 py-1 bg-slate-700 text-slate-200 font-semibold rounded-md hover:bg-slate-600 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors"
+            aria-label={`Enrich all ${label}`}
+          >
+            <SparklesIcon className="h-4 w-4" />
+            Enrich all
+          </button>
+        )}
+        {progress && status !== 'idle' && (
+          <span className="text-slate-400">
+            {progress.completed}/{progress.total} loaded
+            {progress.failures.length > 0 && <span className="text-rose-400"> · {progress.failures.length} failed</span>}
+            {status === 'cancelled' && (blockedReason ? ` · stopped: ${blockedReason}` : ' · cancelled')}
+          </span>
+        )}
+      </div>
+      {progress && status === 'running' && (
+        <div className="mt-2 h-1.5 w-full bg-slate-700 rounded-full overflow-hidden" role="progressbar" aria-valuenow={percent} aria-valuemin={0} aria-valuemax={100}>
+          <div className="h-full bg-sky-500 transition-all duration-300" style={{ width: `${percent}%` }} />
+        </div>
+      )}
+      {progress && status !== 'running' && progress.failures.length > 0 && (
+        <div className="mt-2 p-2 bg-slate-800/70 border border-rose-900 rounded-md">
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-rose-300 font-semibold">Failed to load {progress.failures.length} {label}</span>
+            <button
+              onClick={handleRetryFailed}
+              disabled={!!blockedReason}
+              title={blockedReason ?? undefined}
+              className="flex items-center gap-1 px-2 py-0.5 text-slate-200 rounded-md hover:bg-slate-700 disabled:text-slate-500 disabled:cursor-not-allowed transition-colors"
+            >
+              <ArrowPathIcon className="h-4 w-4" />
+              Retry failed
+            </button>
+          </div>
+          <ul className="text-xs text-slate-400 space-y-0.5 max-h-24 overflow-y-auto">
+            {progress.failures.map(({ business, message }) => (
+              <li key={business.placeId}><span className="text-slate-300">{business.title}</span>: {message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EnrichmentPanel;
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { RateLimitError, ServiceError, ServiceErrorKind } from '../services/errors';
+import { ArrowPathIcon } from './Icons';
+
+interface ErrorNoticeProps {
+  error: unknown;
+  onRetry?: () => void;
+  className?: string;
+}
+
+const GUIDANCE: Record<ServiceErrorKind, { title: string; hint: React.ReactNode }> = {
+  'missing-api-key': {
+    title: 'Gemini API key missing or invalid',
+    hint: <>Set <code className="text-sky-300">GEMINI_API_KEY</code> in <code className="text-sky-300">.env.local</code> (or the server's environment) and restart the server, or set <code className="text-sky-300">PROXY_BACKEND=stub</code> or <code className="text-sky-300">DATA_PROVIDER=fixture</code> to use offline demo data.</>,
+  },
+  'rate-limited': {
+    title: 'Rate limit or quota exceeded',
+    hint: 'Too many requests were sent to the API. Wait a moment before trying again, or check your quota in Google AI Studio.',
+  },
+  'network': {
+    title: 'Network problem',
+    hint: 'The API could not be reached. Check your internet connection and try again.',
+  },
+  'safety-blocked': {
+    title: 'Blocked by safety filters',
+    hint: 'The model declined this request. Try rephrasing the category or business name.',
+  },
+  'unparseable-response': {
+    title: 'Unexpected response',
+    hint: 'The model returned data we could not read. Trying again usually helps.',
+  },
+  'no-location': {
+    title: 'No location available',
+    hint: 'Enable location services in your browser, or enter a city, address or ZIP code.',
+  },
+  'location-not-found': {
+    title: 'Location not found',
+    hint: 'Check the spelling, or add more detail such as the state or country (e.g. "Springfield, IL").',
+  },
+  'aborted': {
+    title: 'Cancelled',
+    hint: 'The request was cancelled before it finished. Try again when you are ready.',
+  },
+  'budget-exceeded': {
+    title: 'Daily API budget reached',
+    hint: 'The API proxy has reached the daily budget its operator set, and refuses further calls until tomorrow.',
+  },
+  'unknown': {
+    title: 'Something went wrong',
+    hint: 'An unexpected error occurred.',
+  },
+};
+
+/** Error message with guidance and actions specific to the kind of failure. */
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, onRetry, className = '' }) => {
+  const serviceError = error instanceof ServiceError ? error : null;
+  const kind = serviceError?.kind ?? 'unknown';
+  const retryAfterMs = error instanceof RateLimitError ? error.retryAfterMs : undefined;
+  const [secondsLeft, setSecondsLeft] = useState(() => Math.ceil((retryAfterMs ?? 0) / 1000));
+
+  useEffect(() => {
+    setSecondsLeft(Math.ceil((retryAfterMs ?? 0) / 1000));
+    if (!retryAfterMs) return;
+    const timer = setInterval(() => {
+      setSecondsLeft(s => {
+        if (s <= 1) clearInterval(timer);
+        return Math.max(0, s - 1);
+      });
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [error, retryAfterMs]);
+
+  const { title, hint } = GUIDANCE[kind];
+  const message = error instanceof Error ? error.message : 'An unknown error occurred.';
+  const canRetry = onRetry && (serviceError ? serviceError.retryable || kind === 'unknown' : true);
+
+  return (
+    <div className={`bg-red-950/40 border border-red-900 rounded-lg p-4 text-sm ${className}`} role="alert">
+      <p className="font-semibold text-red-300">{title}</p>
+      <p className="text-slate-300 mt-1">{hint}</p>
+      {message && kind !== 'missing-api-key' && <p className="text-slate-500 mt-1 text-xs">{message}</p>}
+      {canRetry && (
+        <button
+          onClick={onRetry}
+          disabled={secondsLeft > 0}
+          className="mt-3 flex items-center gap-1 px-3 py-1 bg-slate-700 text-slate-200 font-semibold rounded-md hover:bg-slate-600 disabled:bg-slate-700/50 disabled:text-slate-400 disabled:cursor-not-allowed transition-colors"
+        >
+          <ArrowPathIcon className="h-4 w-4" />
+          {secondsLeft > 0 ? `Retry in ${secondsLeft}s` : 'Retry'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ErrorNotice;
@@ -0,0 +1,96 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ExportFormat, ExportItem, exportBusinesses, fillMissingDetails } from '../services/exportService';
+import { ArrowDownTrayIcon, XMarkIcon } from './Icons';
+
+interface ExportMenuProps {
+  items: ExportItem[];
+  source: string;
+  /** Set while fetching details isn't allowed, e.g. over the daily budget; exports only what is cached. */
+  blockedReason?: string | null;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ items, source, blockedReason }) => {
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [includeDetails, setIncludeDetails] = useState(true);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const cancelledRef = useRef(false);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  // Going over the budget stops fetching; what was fetched so far is still exported.
+  useEffect(() => {
+    if (blockedReason) abortControllerRef.current?.abort();
+  }, [blockedReason]);
+
+  const missingCount = items.filter(item => !item.cached).length;
+
+  const handleExport = async () => {
+    let toExport = items;
+    if (includeDetails && missingCount > 0 && !blockedReason) {
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      cancelledRef.current = false;
+      setProgress({ done: 0, total: missingCount });
+      try {
+        toExport = await fillMissingDetails(items, (done, total) => setProgress({ done, total }), controller.signal);
+      } finally {
+        abortControllerRef.current = null;
+        setProgress(null);
+      }
+      if (cancelledRef.current) return;
+    }
+    exportBusinesses(toExport, format, source);
+  };
+
+  const handleCancel = () => {
+    cancelledRef.current = true;
+    abortControllerRef.current?.abort();
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <select
+        value={format}
+        onChange={(e) => setFormat(e.target.value as ExportFormat)}
+        className="bg-slate-800 border border-slate-600 rounded-md text-slate-200 px-2 py-1 focus:ring-2 focus:ring-sky-500 outline-none"
+        aria-label={`Export format for ${source}`}
+        disabled={progress !== null}
+      >
+        <option value="csv">CSV</option>
+        <option value="vcard">vCard</option>
+        <option value="json">JSON</option>
+      </select>
+      {missingCount > 0 && (
+        <label className="flex items-center gap-1 text-slate-400" title={blockedReason ? `Only cached details are exported because ${blockedReason}.` : undefined}>
+          <input
+            type="checkbox"
+            checked={includeDetails && !blockedReason}
+            onChange={(e) => setIncludeDetails(e.target.checked)}
+            disabled={progress !== null || !!blockedReason}
+          />
+          Fetch missing details ({missingCount})
+        </label>
+      )}
+      <button
+        onClick={handleExport}
+        disabled={items.length === 0 || progress !== null}
+        className="flex items-center gap-1 px-3 py-1 bg-slate-700 text-slate-200 font-semibold rounded-md hover:bg-slate-600 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors"
+      >
+        <ArrowDownTrayIcon className="h-4 w-4" />
+        {progress ? `Fetching ${progress.done}/${progress.total}...` : 'Export'}
+      </button>
+      {progress && (
+        <button
+          onClick={handleCancel}
+          className="flex items-center gap-1 px-3 py-1 bg-rose-700 text-white font-semibold rounded-md hover:bg-rose-600 transition-colors"
+        >
+          <XMarkIcon className="h-4 w-4" />
+          Cancel
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,75 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Business, BusinessDetails, FitRating, SenderProfile } from '../types';
+import { EnrichmentProgress, rateBusinessesFit } from '../services/enrichment';
+import { SparklesIcon, XMarkIcon } from './Icons';
+
+interface FitRatingButtonProps {
+  businesses: Business[];
+  sender: SenderProfile;
+  getDetails: (placeId: string) => BusinessDetails | undefined;
+  onRated: (placeId: string, rating: FitRating) => void;
+  /** Set while bulk rating isn't allowed, e.g. over the daily budget; stops a run in progress. */
+  blockedReason?: string | null;
+}
+
+/** Asks the model to rate each unrated business's fit with the sender profile. */
+const FitRatingButton: React.FC<FitRatingButtonProps> = ({ businesses, sender, getDetails, onRated, blockedReason }) => {
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState<EnrichmentProgress | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  useEffect(() => {
+    if (blockedReason) abortControllerRef.current?.abort();
+  }, [blockedReason]);
+
+  const canRate = !!sender.offering.trim();
+
+  const run = async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsRunning(true);
+    setProgress({ total: businesses.length, completed: 0, succeeded: 0, failures: [] });
+    const result = await rateBusinessesFit(businesses, sender, getDetails, { signal: controller.signal, onProgress: setProgress, onRated });
+    if (abortControllerRef.current !== controller) return;
+    abortControllerRef.current = null;
+    setProgress(result);
+    setIsRunning(false);
+  };
+
+  const stop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      {isRunning ? (
+        <button
+          onClick={stop}
+          className="flex items-center gap-1 px-3 py-1 bg-rose-700 text-white font-semibold rounded-md hover:bg-rose-600 transition-colors"
+        >
+          <XMarkIcon className="h-4 w-4" />
+          Stop rating ({progress?.completed ?? 0}/{progress?.total ?? businesses.length})
+        </button>
+      ) : (
+        <button
+          onClick={run}
+          disabled={!canRate || businesses.length === 0 || !!blockedReason}
+          title={blockedReason ?? (canRate ? 'Rate how well each business fits your offering' : 'Add what you offer to your sender profile (in any business\'s pitch section) to rate fit')}
+          className="flex items-center gap-1 px-3 py-1 bg-slate-700 text-slate-200 font-semibold rounded-md hover:bg-slate-600 disabled:bg-slate-600 disabled:text-slate-400 disabled:cursor-not-allowed transition-colors"
+        >
+          <SparklesIcon className="h-4 w-4" />
+          Rate fit{businesses.length > 0 ? ` (${businesses.length})` : ''}
+        </button>
+      )}
+      {progress && !isRunning && progress.failures.length > 0 && (
+        <span className="text-rose-400" title={progress.failures.map(({ business, message }) => `${business.title}: ${message}`).join('\n')}>
+          {progress.failures.length} failed
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default FitRatingButton;
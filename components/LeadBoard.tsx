@@ -0,0 +1,54 @@
+import React from 'react';
+import { Business, LeadStatus, SavedBusiness } from '../types';
+import { LEAD_STATUSES, isFollowUpDue } from '../services/leadPipeline';
+import LeadStatusSelect from './LeadStatusSelect';
+
+interface LeadBoardProps {
+  leads: SavedBusiness[];
+  onChangeStatus: (placeId: string, status: LeadStatus) => void;
+  onShowDetails: (business: Business) => void;
+}
+
+/** Saved leads grouped into one column per pipeline status. */
+const LeadBoard: React.FC<LeadBoardProps> = ({ leads, onChangeStatus, onShowDetails }) => (
+  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-4">
+    {LEAD_STATUSES.map(({ value, label }) => {
+      const column = leads.filter(lead => lead.lead.status === value);
+      return (
+        <section key={value} className="bg-slate-800/40 border border-slate-700 rounded-xl p-3" aria-label={`${label} leads`}>
+          <h3 className="text-sm font-semibold text-slate-300 mb-3 flex items-center justify-between">
+            {label}
+            <span className="text-xs text-slate-500">{column.length}</span>
+          </h3>
+          <div className="space-y-2">
+            {column.map(lead => (
+              <div
+                key={lead.placeId}
+                onClick={() => onShowDetails(lead)}
+                onKeyDown={(e) => { if (e.key === 'Enter') onShowDetails(lead); }}
+                role="button"
+                tabIndex={0}
+                className="bg-slate-800 border border-slate-700 rounded-lg p-3 cursor-pointer hover:border-sky-500 transition-colors"
+              >
+                <p className="text-sm font-semibold text-sky-300 mb-2">{lead.title}</p>
+                <div className="flex flex-wrap items-center gap-2">
+                  <LeadStatusSelect status={lead.lead.status} onChange={(status) => onChangeStatus(lead.placeId, status)} />
+                  {lead.lead.followUpDate && (
+                    <span className={`text-xs ${isFollowUpDue(lead.lead) ? 'text-rose-400 font-semibold' : 'text-slate-400'}`}>
+                      ↻ {lead.lead.followUpDate}
+                    </span>
+                  )}
+                  {lead.lead.notes.length > 0 && (
+                    <span className="text-xs text-slate-500">{lead.lead.notes.length} notes</span>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+      );
+    })}
+  </div>
+);
+
+export default LeadBoard;
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { LeadInfo, LeadStatus } from '../types';
+import { isFollowUpDue } from '../services/leadPipeline';
+import LeadStatusSelect from './LeadStatusSelect';
+import { XMarkIcon } from './Icons';
+
+interface LeadEditorProps {
+  lead: LeadInfo;
+  onChangeStatus: (status: LeadStatus) => void;
+  onChangeFollowUpDate: (date?: string) => void;
+  onAddNote: (text: string) => void;
+  onDeleteNote: (noteId: string) => void;
+}
+
+const LeadEditor: React.FC<LeadEditorProps> = ({ lead, onChangeStatus, onChangeFollowUpDate, onAddNote, onDeleteNote }) => {
+  const [noteText, setNoteText] = useState('');
+
+  const handleAddNote = () => {
+    if (!noteText.trim()) return;
+    onAddNote(noteText);
+    setNoteText('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          Status
+          <LeadStatusSelect status={lead.status} onChange={onChangeStatus} />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          Follow up
+          <input
+            type="date"
+            value={lead.followUpDate ?? ''}
+            onChange={(e) => onChangeFollowUpDate(e.target.value)}
+            className={`bg-slate-900 border rounded-md px-2 py-1 text-sm text-slate-200 focus:ring-2 focus:ring-sky-500 outline-none ${isFollowUpDue(lead) ? 'border-rose-500' : 'border-slate-600'}`}
+          />
+        </label>
+      </div>
+
+      <div>
+        <div className="flex gap-2">
+          <textarea
+            value={noteText}
+            onChange={(e) => setNoteText(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleAddNote(); }}
+            placeholder="Add a note, e.g. spoke to the owner, call back Tuesday..."
+            className="flex-grow h-16 p-2 bg-slate-900 border border-slate-600 rounded-lg text-slate-300 text-sm resize-none focus:outline-none focus:ring-2 focus:ring-sky-500"
+            aria-label="New lead note"
+          />
+          <button
+            onClick={handleAddNote}
+            disabled={!noteText.trim()}
+            className="px-3 py-2 bg-slate-700 text-white text-sm font-semibold rounded-lg hover:bg-slate-600 disabled:bg-slate-600 disabled:text-slate-400 disabled:cursor-not-allowed transition-colors self-start"
+          >
+            Add
+          </button>
+        </div>
+        {lead.notes.length > 0 && (
+          <ul className="mt-3 space-y-2 max-h-40 overflow-y-auto">
+            {lead.notes.map(note => (
+              <li key={note.id} className="group flex items-start gap-2 text-sm bg-slate-900/60 rounded-md p-2">
+                <div className="flex-grow">
+                  <p className="text-slate-300 whitespace-pre-wrap">{note.text}</p>
+                  <p className="text-xs text-slate-500 mt-1">{new Date(note.createdAt).toLocaleString()}</p>
+                </div>
+                <button
+                  onClick={() => onDeleteNote(note.id)}
+                  className="text-slate-500 hover:text-rose-400 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                  aria-label="Delete note"
+                >
+                  <XMarkIcon className="h-4 w-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LeadEditor;
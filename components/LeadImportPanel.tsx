@@ -0,0 +1,143 @@
+import React, { useMemo, useState } from 'react';
+import { Business } from '../types';
+import { ColumnMapping, ImportTable, LEAD_IMPORT_FIELDS, LeadImportField, guessColumnMapping, mapImportRows, parseLeadFile } from '../services/leadImport';
+import { importCachedDetails } from '../services/detailsCache';
+import { ArrowUpTrayIcon } from './Icons';
+
+interface LeadImportPanelProps {
+  savedPlaceIds: Set<string>;
+  onImport: (businesses: Business[]) => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+/** Imports an external lead list from CSV or JSON into favorites, with column mapping. */
+const LeadImportPanel: React.FC<LeadImportPanelProps> = ({ savedPlaceIds, onImport }) => {
+  const [file, setFile] = useState<{ name: string; table: ImportTable } | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const result = useMemo(() => file ? mapImportRows(file.table, mapping) : null, [file, mapping]);
+  const newLeads = result?.leads.filter(lead => !savedPlaceIds.has(lead.business.placeId)) ?? [];
+  const lookupCount = newLeads.filter(lead => lead.business.lookup).length;
+
+  const handleFile = async (selected: File) => {
+    try {
+      const table = parseLeadFile(await selected.text(), selected.name);
+      if (table.rows.length === 0) throw new Error('The file has no rows to import.');
+      setFile({ name: selected.name, table });
+      setMapping(guessColumnMapping(table.headers));
+      setMessage(null);
+    } catch (e) {
+      setFile(null);
+      setMessage({ text: e instanceof Error ? e.message : 'The file could not be read.', isError: true });
+    }
+  };
+
+  const setColumn = (field: LeadImportField, value: string) => {
+    setMapping(prev => {
+      const { [field]: _previous, ...rest } = prev;
+      return value === '' ? rest : { ...rest, [field]: Number(value) };
+    });
+  };
+
+  const handleImport = async () => {
+    if (!file || newLeads.length === 0) return;
+    onImport(newLeads.map(lead => lead.business));
+    // Details from the file are shown right away. For rows that still need a
+    // lookup they are cached as stale, so "Enrich all" replaces them.
+    await importCachedDetails(newLeads
+      .filter(lead => lead.details)
+      .map(lead => ({ placeId: lead.business.placeId, details: lead.details!, fetchedAt: lead.business.lookup ? 0 : Date.now() })));
+    setMessage({
+      text: `Imported ${newLeads.length} ${newLeads.length === 1 ? 'lead' : 'leads'} into your favorites.` +
+        (lookupCount > 0 ? ` ${lookupCount} without a place ID ${lookupCount === 1 ? 'is' : 'are'} marked for lookup; use "Enrich all" on your favorites to find ${lookupCount === 1 ? 'its' : 'their'} details.` : ''),
+      isError: false,
+    });
+    setFile(null);
+  };
+
+  return (
+    <div>
+      <h3 className="font-semibold text-slate-200 mb-1">Import leads</h3>
+      <p className="text-slate-400 mb-3">
+        Add a lead list from a CSV file with a header row, or a JSON array of objects. Only a name column is required.
+      </p>
+      <label className="inline-flex items-center gap-1 px-3 py-1 bg-slate-700 text-slate-200 font-semibold rounded-md hover:bg-slate-600 transition-colors cursor-pointer">
+        <ArrowUpTrayIcon className="h-4 w-4" />
+        Choose CSV or JSON...
+        <input
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          className="sr-only"
+          onChange={(e) => { const selected = e.target.files?.[0]; e.target.value = ''; if (selected) handleFile(selected); }}
+        />
+      </label>
+
+      {file && result && (
+        <div className="mt-4 bg-slate-900/60 border border-slate-700 rounded-lg p-3">
+          <p className="text-slate-300 mb-3">
+            <span className="font-semibold">{file.name}</span>
+            <span className="text-slate-500"> · {file.table.rows.length} rows</span>
+          </p>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 mb-3">
+            {LEAD_IMPORT_FIELDS.map(({ value, label }) => (
+              <label key={value} className="flex flex-col text-slate-400">
+                {label}{value === 'title' && ' *'}
+                <select
+                  value={mapping[value] ?? ''}
+                  onChange={(e) => setColumn(value, e.target.value)}
+                  className="mt-1 bg-slate-800 border border-slate-600 rounded-md px-2 py-1 text-slate-200 focus:ring-2 focus:ring-sky-500 outline-none"
+                >
+                  <option value="">(not imported)</option>
+                  {file.table.headers.map((header, index) => (
+                    <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+          {newLeads.length > 0 && (
+            <ul className="mb-3 text-slate-300 space-y-0.5">
+              {newLeads.slice(0, PREVIEW_ROWS).map(({ business, details }) => (
+                <li key={business.placeId} className="truncate">
+                  {business.title}
+                  {details?.address && <span className="text-slate-500"> · {details.address}</span>}
+                  {business.lookup && <span className="ml-1 text-xs text-amber-300">needs lookup</span>}
+                </li>
+              ))}
+              {newLeads.length > PREVIEW_ROWS && <li className="text-slate-500">and {newLeads.length - PREVIEW_ROWS} more</li>}
+            </ul>
+          )}
+          <p className="text-slate-500 mb-3">
+            {mapping.title === undefined
+              ? 'Choose the column that holds the business name.'
+              : [
+                `${newLeads.length} to import`,
+                result.leads.length > newLeads.length && `${result.leads.length - newLeads.length} already saved`,
+                result.skipped > 0 && `${result.skipped} without a name skipped`,
+              ].filter(Boolean).join(' · ')}
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={handleImport}
+              disabled={newLeads.length === 0}
+              className="px-3 py-1 bg-sky-600 text-white font-semibold rounded-md hover:bg-sky-500 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors"
+            >
+              Import {newLeads.length} {newLeads.length === 1 ? 'lead' : 'leads'}
+            </button>
+            <button onClick={() => setFile(null)} className="px-2 py-1 text-slate-400 hover:text-white transition-colors">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <p className={`mt-3 ${message.isError ? 'text-rose-400' : 'text-emerald-400'}`} role={message.isError ? 'alert' : 'status'}>{message.text}</p>
+      )}
+    </div>
+  );
+};
+
+export default LeadImportPanel;
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { LeadScoringConfig } from '../types';
+import { DEFAULT_LEAD_SCORING, LEAD_SCORE_FACTORS, MAX_FACTOR_WEIGHT } from '../services/leadScoring';
+
+interface LeadScoreSettingsProps {
+  config: LeadScoringConfig;
+  onChange: (config: LeadScoringConfig) => void;
+}
+
+/** Editable weights and keywords for the lead score. */
+const LeadScoreSettings: React.FC<LeadScoreSettingsProps> = ({ config, onChange }) => {
+  const [keywordsText, setKeywordsText] = useState(config.keywords.join(', '));
+
+  const commitKeywords = () => {
+    const keywords = keywordsText.split(',').map(keyword => keyword.trim()).filter(Boolean);
+    onChange({ ...config, keywords });
+  };
+
+  const handleReset = () => {
+    setKeywordsText(DEFAULT_LEAD_SCORING.keywords.join(', '));
+    onChange(DEFAULT_LEAD_SCORING);
+  };
+
+  return (
+    <div className="bg-slate-800/60 border border-slate-700 rounded-lg p-4 mb-4 text-sm">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-3">
+        {LEAD_SCORE_FACTORS.map(({ value, label, description }) => (
+          <label key={value} className="block" title={description}>
+            <span className="flex justify-between text-slate-300">
+              {label}
+              <span className="font-semibold text-sky-400">{config.weights[value]}</span>
+            </span>
+            <input
+              type="range"
+              min="0"
+              max={MAX_FACTOR_WEIGHT}
+              value={config.weights[value]}
+              onChange={(e) => onChange({ ...config, weights: { ...config.weights, [value]: Number(e.target.value) } })}
+              className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer range-thumb"
+            />
+          </label>
+        ))}
+      </div>
+      <label className="block mt-3 text-slate-300">
+        Keywords
+        <input
+          value={keywordsText}
+          onChange={(e) => setKeywordsText(e.target.value)}
+          onBlur={commitKeywords}
+          onKeyDown={(e) => { if (e.key === 'Enter') commitKeywords(); }}
+          placeholder="e.g. family, organic, 24 hour"
+          className="mt-1 w-full bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-slate-200 placeholder-slate-500 focus:ring-2 focus:ring-sky-500 outline-none"
+        />
+      </label>
+      <div className="mt-3 flex justify-between items-center text-xs text-slate-500">
+        <span>A weight of 0 leaves a factor out of the score.</span>
+        <button onClick={handleReset} className="text-slate-400 hover:text-sky-400 transition-colors">
+          Reset to defaults
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LeadScoreSettings;
@@ -0,0 +1,26 @@
+import React from 'react';
+import { LeadStatus } from '../types';
+import { LEAD_STATUSES, getLeadStatusMeta } from '../services/leadPipeline';
+
+interface LeadStatusSelectProps {
+  status: LeadStatus;
+  onChange: (status: LeadStatus) => void;
+  className?: string;
+}
+
+const LeadStatusSelect: React.FC<LeadStatusSelectProps> = ({ status, onChange, className = '' }) => (
+  <select
+    value={status}
+    onChange={(e) => onChange(e.target.value as LeadStatus)}
+    onClick={(e) => e.stopPropagation()}
+    onKeyDown={(e) => e.stopPropagation()}
+    className={`text-xs font-semibold rounded-md px-2 py-1 border-0 cursor-pointer focus:ring-2 focus:ring-sky-500 outline-none ${getLeadStatusMeta(status).badgeClass} ${className}`}
+    aria-label="Lead status"
+  >
+    {LEAD_STATUSES.map(({ value, label }) => (
+      <option key={value} value={value}>{label}</option>
+    ))}
+  </select>
+);
+
+export default LeadStatusSelect;
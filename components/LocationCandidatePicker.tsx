@@ -0,0 +1,36 @@
+import React from 'react';
+import { GeocodedPlace } from '../types';
+import { MapPinIcon } from './Icons';
+
+interface LocationCandidatePickerProps {
+  query: string;
+  candidates: GeocodedPlace[];
+  onPick: (place: GeocodedPlace) => void;
+}
+
+/** Lets the user choose between several places matching an ambiguous typed location. */
+const LocationCandidatePicker: React.FC<LocationCandidatePickerProps> = ({ query, candidates, onPick }) => (
+  <div className="mt-3 bg-slate-800/80 border border-slate-700 rounded-lg p-3">
+    <p className="text-sm text-slate-300 mb-2">
+      "{query}" matches several places. Which one did you mean?
+    </p>
+    <ul className="flex flex-col gap-1">
+      {candidates.map(place => (
+        <li key={`${place.label}-${place.latitude}-${place.longitude}`}>
+          <button
+            onClick={() => onPick(place)}
+            className="w-full flex items-center gap-2 text-left px-3 py-2 text-sm text-slate-200 rounded-md hover:bg-slate-700 transition-colors"
+          >
+            <MapPinIcon className="h-4 w-4 text-sky-400 flex-shrink-0" />
+            <span className="flex-grow">{place.label}</span>
+            <span className="text-xs text-slate-500">
+              {place.latitude.toFixed(3)}, {place.longitude.toFixed(3)}
+            </span>
+          </button>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+export default LocationCandidatePicker;
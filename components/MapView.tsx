@@ -0,0 +1,256 @@
+import React, { useMemo, useState } from 'react';
+import { Business, LocationCoords } from '../types';
+import { hasCoordinates, projectToKm } from '../utils/geo';
+import { SweepTileProgress } from '../services/areaSweep';
+
+interface MapViewProps {
+  center: LocationCoords | null;
+  radiusKm?: number;
+  results: Business[];
+  favorites: Business[];
+  /** Area sweep tiles, outlined by how far their search got. */
+  sweepTiles?: SweepTileProgress[];
+  highlightedPlaceId: string | null;
+  onHighlight: (placeId: string | null) => void;
+  onSelect: (business: Business) => void;
+}
+
+interface Marker {
+  business: Business;
+  isFavorite: boolean;
+  x: number;
+  y: number;
+}
+
+interface Cluster {
+  markers: Marker[];
+  px: number;
+  py: number;
+}
+
+const WIDTH = 800;
+const HEIGHT = 450;
+const CLUSTER_DISTANCE_PX = 22;
+const MAX_ZOOM = 64;
+
+const getTileClass = ({ status, found }: SweepTileProgress): string => {
+  if (status === 'running') return 'fill-sky-500/20 stroke-sky-400';
+  if (status === 'failed') return 'fill-rose-500/15 stroke-rose-500/70';
+  if (status === 'pending') return 'fill-transparent stroke-slate-500/60';
+  return found === 0 ? 'fill-amber-500/15 stroke-amber-500/50' : 'fill-emerald-500/5 stroke-emerald-500/40';
+};
+
+const niceGridStep = (km: number): number => {
+  const steps = [0.1, 0.25, 0.5, 1, 2, 5, 10, 20, 50, 100];
+  return steps.find(step => km / step <= 6) ?? 100;
+};
+
+/**
+ * Offline SVG map of results around the search center. Overlapping markers are
+ * grouped into clusters; clicking a cluster zooms in on it.
+ */
+const MapView: React.FC<MapViewProps> = ({ center, radiusKm, results, favorites, sweepTiles = [], highlightedPlaceId, onHighlight, onSelect }) => {
+  const [zoom, setZoom] = useState(1);
+  const [pan, setPan] = useState({ x: 0, y: 0 });
+  const [expandedCluster, setExpandedCluster] = useState<Marker[] | null>(null);
+
+  const { origin, markers } = useMemo(() => {
+    const favoriteIds = new Set(favorites.map(fav => fav.placeId));
+    const resultIds = new Set(results.map(biz => biz.placeId));
+    const located = [
+      ...results.map(business => ({ business, isFavorite: favoriteIds.has(business.placeId) })),
+      ...favorites.filter(fav => !resultIds.has(fav.placeId)).map(business => ({ business, isFavorite: true })),
+    ].filter(({ business }) => hasCoordinates(business));
+
+    const mapOrigin: LocationCoords | null = center ?? (located.length > 0 ? {
+      latitude: located.reduce((sum, m) => sum + m.business.latitude!, 0) / located.length,
+      longitude: located.reduce((sum, m) => sum + m.business.longitude!, 0) / located.length,
+    } : null);
+    if (!mapOrigin) return { origin: null, markers: [] as Marker[] };
+
+    return {
+      origin: mapOrigin,
+      markers: located.map(({ business, isFavorite }) => ({
+        business,
+        isFavorite,
+        ...projectToKm(mapOrigin, business as LocationCoords),
+      })),
+    };
+  }, [center, results, favorites]);
+
+  const extentKm = useMemo(() => {
+    if (center && radiusKm) return radiusKm * 1.1;
+    const furthest = markers.reduce((max, m) => Math.max(max, Math.abs(m.x), Math.abs(m.y)), 0);
+    return Math.max(furthest * 1.2, 1);
+  }, [center, radiusKm, markers]);
+
+  const scale = (Math.min(WIDTH, HEIGHT) / 2) / (extentKm / zoom);
+  const toPx = (x: number, y: number) => ({
+    px: WIDTH / 2 + (x - pan.x) * scale,
+    py: HEIGHT / 2 - (y - pan.y) * scale,
+  });
+
+  const clusters: Cluster[] = [];
+  for (const marker of markers) {
+    const { px, py } = toPx(marker.x, marker.y);
+    const cluster = clusters.find(c => Math.hypot(c.px - px, c.py - py) < CLUSTER_DISTANCE_PX);
+    if (cluster) {
+      const n = cluster.markers.length;
+      cluster.px = (cluster.px * n + px) / (n + 1);
+      cluster.py = (cluster.py * n + py) / (n + 1);
+      cluster.markers.push(marker);
+    } else {
+      clusters.push({ markers: [marker], px, py });
+    }
+  }
+
+  const handleClusterClick = (cluster: Cluster) => {
+    if (zoom >= MAX_ZOOM) {
+      setExpandedCluster(cluster.markers);
+      return;
+    }
+    const n = cluster.markers.length;
+    setPan({
+      x: cluster.markers.reduce((sum, m) => sum + m.x, 0) / n,
+      y: cluster.markers.reduce((sum, m) => sum + m.y, 0) / n,
+    });
+    setZoom(z => Math.min(z * 2, MAX_ZOOM));
+    setExpandedCluster(null);
+  };
+
+  const handleReset = () => {
+    setZoom(1);
+    setPan({ x: 0, y: 0 });
+    setExpandedCluster(null);
+  };
+
+  if (!origin) {
+    return <p className="text-center text-slate-400 py-8">No locations to show on the map yet.</p>;
+  }
+
+  const gridStep = niceGridStep((extentKm / zoom) * 2);
+  const halfWidthKm = WIDTH / 2 / scale;
+  const halfHeightKm = HEIGHT / 2 / scale;
+  const gridLines: React.ReactNode[] = [];
+  for (let x = Math.ceil((pan.x - halfWidthKm) / gridStep) * gridStep; x <= pan.x + halfWidthKm; x += gridStep) {
+    const { px } = toPx(x, 0);
+    gridLines.push(<line key={`x${x}`} x1={px} y1={0} x2={px} y2={HEIGHT} className="stroke-slate-700/60" strokeWidth={1} />);
+  }
+  for (let y = Math.ceil((pan.y - halfHeightKm) / gridStep) * gridStep; y <= pan.y + halfHeightKm; y += gridStep) {
+    const { py } = toPx(0, y);
+    gridLines.push(<line key={`y${y}`} x1={0} y1={py} x2={WIDTH} y2={py} className="stroke-slate-700/60" strokeWidth={1} />);
+  }
+
+  const centerPx = toPx(0, 0);
+
+  return (
+    <div className="relative">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto bg-slate-900/80 border border-slate-700 rounded-xl"
+        role="img"
+        aria-label="Map of businesses around the search location"
+      >
+        {gridLines}
+        {sweepTiles.map(tile => {
+          const { x, y } = projectToKm(origin, tile.center);
+          const { px, py } = toPx(x, y);
+          const side = tile.radiusKm * Math.SQRT2 * scale;
+          return (
+            <rect
+              key={tile.id}
+              x={px - side / 2}
+              y={py - side / 2}
+              width={side}
+              height={side}
+              className={getTileClass(tile)}
+              strokeWidth={1}
+              strokeDasharray={tile.status === 'pending' ? '4 3' : undefined}
+            >
+              <title>{tile.status === 'done' ? `${tile.found} found` : tile.status === 'pending' ? 'Not searched yet' : tile.status === 'running' ? 'Searching...' : 'Search failed'}</title>
+            </rect>
+          );
+        })}
+        {center && radiusKm && (
+          <circle cx={centerPx.px} cy={centerPx.py} r={radiusKm * scale} className="fill-sky-500/5 stroke-sky-500/60" strokeWidth={1.5} strokeDasharray="6 4" />
+        )}
+        {center && (
+          <g>
+            <circle cx={centerPx.px} cy={centerPx.py} r={12} className="fill-sky-400/20" />
+            <circle cx={centerPx.px} cy={centerPx.py} r={6} className="fill-sky-400 stroke-white" strokeWidth={2}>
+              <title>Your location</title>
+            </circle>
+          </g>
+        )}
+        {clusters.map((cluster) => {
+          const isHighlighted = cluster.markers.some(m => m.business.placeId === highlightedPlaceId);
+          if (cluster.markers.length > 1) {
+            return (
+              <g
+                key={cluster.markers.map(m => m.business.placeId).join('|')}
+                onClick={() => handleClusterClick(cluster)}
+                className="cursor-pointer"
+              >
+                <circle cx={cluster.px} cy={cluster.py} r={14} className={`fill-indigo-600 ${isHighlighted ? 'stroke-white' : 'stroke-indigo-300'}`} strokeWidth={isHighlighted ? 3 : 2} />
+                <text x={cluster.px} y={cluster.py + 4} textAnchor="middle" className="fill-white text-xs font-bold select-none pointer-events-none">
+                  {cluster.markers.length}
+                </text>
+                <title>{cluster.markers.map(m => m.business.title).join('\n')}</title>
+              </g>
+            );
+          }
+          const { business, isFavorite } = cluster.markers[0];
+          return (
+            <g
+              key={business.placeId}
+              onMouseEnter={() => onHighlight(business.placeId)}
+              onMouseLeave={() => onHighlight(null)}
+              onClick={() => onSelect(business)}
+              className="cursor-pointer"
+            >
+              <circle
+                cx={cluster.px}
+                cy={cluster.py}
+                r={isHighlighted ? 9 : 6}
+                className={`${isFavorite ? 'fill-yellow-400' : 'fill-cyan-400'} ${isHighlighted ? 'stroke-white' : 'stroke-slate-900'} transition-all`}
+                strokeWidth={2}
+              />
+              <title>{business.title}</title>
+            </g>
+          );
+        })}
+      </svg>
+      <div className="absolute top-2 left-2 flex flex-wrap items-center gap-3 text-xs text-slate-300 bg-slate-900/80 rounded-md px-2 py-1">
+        <span className="flex items-center gap-1"><span className="h-2.5 w-2.5 rounded-full bg-cyan-400" /> Result</span>
+        <span className="flex items-center gap-1"><span className="h-2.5 w-2.5 rounded-full bg-yellow-400" /> Favorite</span>
+        <span className="flex items-center gap-1"><span className="h-2.5 w-2.5 rounded-full bg-indigo-600" /> Cluster</span>
+        <span className="text-slate-500">Grid: {gridStep} km</span>
+      </div>
+      {zoom > 1 && (
+        <button
+          onClick={handleReset}
+          className="absolute top-2 right-2 px-2 py-1 text-xs font-semibold bg-slate-700 text-slate-200 rounded-md hover:bg-slate-600 transition-colors"
+        >
+          Reset view
+        </button>
+      )}
+      {expandedCluster && (
+        <div className="mt-2 flex flex-wrap gap-2 text-sm">
+          {expandedCluster.map(({ business }) => (
+            <button
+              key={business.placeId}
+              onClick={() => onSelect(business)}
+              onMouseEnter={() => onHighlight(business.placeId)}
+              onMouseLeave={() => onHighlight(null)}
+              className="px-2 py-1 bg-slate-800 border border-slate-600 rounded-md text-slate-200 hover:border-sky-500 transition-colors"
+            >
+              {business.title}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MapView;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { DAY_NAMES, OpenHoursFilter, formatMinutes } from '../services/openingHours';
+import { ClockIcon } from './Icons';
+
+interface OpenHoursFilterControlProps {
+  filter: OpenHoursFilter;
+  onChange: (filter: OpenHoursFilter) => void;
+}
+
+const OpenHoursFilterControl: React.FC<OpenHoursFilterControlProps> = ({ filter, onChange }) => {
+  const handleModeChange = (mode: OpenHoursFilter['mode']) => {
+    if (mode === 'at') {
+      const now = new Date();
+      onChange({ mode, day: now.getDay(), minutes: now.getHours() * 60 });
+    } else {
+      onChange({ mode });
+    }
+  };
+
+  const handleTimeChange = (value: string) => {
+    if (filter.mode !== 'at' || !value) return;
+    const [hours, minutes] = value.split(':').map(Number);
+    onChange({ ...filter, minutes: hours * 60 + minutes });
+  };
+
+  const inputClass = "bg-slate-800 border border-slate-600 rounded-md text-slate-200 px-2 py-1 focus:ring-2 focus:ring-sky-500 outline-none";
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <ClockIcon className="h-4 w-4 text-slate-400" />
+      <select
+        value={filter.mode}
+        onChange={(e) => handleModeChange(e.target.value as OpenHoursFilter['mode'])}
+        className={inputClass}
+        aria-label="Filter by opening hours"
+      >
+        <option value="any">Any hours</option>
+        <option value="now">Open now</option>
+        <option value="at">Open at...</option>
+      </select>
+      {filter.mode === 'at' && (
+        <>
+          <select
+            value={filter.day}
+            onChange={(e) => onChange({ ...filter, day: Number(e.target.value) })}
+            className={inputClass}
+            aria-label="Day of week"
+          >
+            {DAY_NAMES.map((name, index) => (
+              <option key={name} value={index}>{name}</option>
+            ))}
+          </select>
+          <input
+            type="time"
+            value={formatMinutes(filter.minutes)}
+            onChange={(e) => handleTimeChange(e.target.value)}
+            className={inputClass}
+            aria-label="Time of day"
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default OpenHoursFilterControl;
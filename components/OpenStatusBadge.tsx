@@ -0,0 +1,26 @@
+import React, { useMemo } from 'react';
+import { describeOpenStatus, getOpenStatus, parseOpeningHours } from '../services/openingHours';
+
+interface OpenStatusBadgeProps {
+  hours?: string[];
+  className?: string;
+}
+
+/** "Open now / closes at 18:00" badge. Renders nothing when the hours can't be parsed. */
+const OpenStatusBadge: React.FC<OpenStatusBadgeProps> = ({ hours, className = '' }) => {
+  const schedule = useMemo(() => parseOpeningHours(hours), [hours]);
+  if (!schedule) return null;
+
+  const status = getOpenStatus(schedule);
+  if (!status) return null;
+
+  return (
+    <span
+      className={`inline-flex items-center text-xs font-semibold px-2 py-0.5 rounded-md ${status.isOpen ? 'bg-emerald-900/60 text-emerald-300' : 'bg-rose-900/50 text-rose-300'} ${className}`}
+    >
+      {describeOpenStatus(status)}
+    </span>
+  );
+};
+
+export default OpenStatusBadge;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { PitchHistoryEntry } from '../types';
+import { PITCH_TONES, getPitchPurposeMeta } from '../services/pitch';
+import { formatTimeAgo } from '../utils/formatters';
+import { XMarkIcon } from './Icons';
+
+interface PitchHistoryListProps {
+  entries: PitchHistoryEntry[];
+  selectedId: string | null;
+  onSelect: (entry: PitchHistoryEntry) => void;
+  onDelete: (entryId: string) => void;
+}
+
+/** Earlier pitches for a business; selecting one shows it in place of the current pitch. */
+const PitchHistoryList: React.FC<PitchHistoryListProps> = ({ entries, selectedId, onSelect, onDelete }) => {
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="mt-4">
+      <h4 className="text-sm font-semibold text-slate-300 mb-2">History ({entries.length})</h4>
+      <ul className="space-y-1 max-h-48 overflow-y-auto">
+        {entries.map(entry => (
+          <li
+            key={entry.id}
+            className={`group flex items-start gap-2 rounded-md px-2 py-1 text-sm ${entry.id === selectedId ? 'bg-slate-700' : 'hover:bg-slate-700/50'}`}
+          >
+            <button onClick={() => onSelect(entry)} className="flex-grow text-left min-w-0">
+              <span className="block truncate text-slate-200">{entry.subject}</span>
+              <span className="block text-xs text-slate-500">
+                {getPitchPurposeMeta(entry.purpose).label} · {PITCH_TONES.find(t => t.value === entry.tone)?.label ?? entry.tone} · {entry.language} · {formatTimeAgo(entry.createdAt)}
+                {entry.stopped && <span className="text-amber-400"> · stopped</span>}
+              </span>
+            </button>
+            <button
+              onClick={() => onDelete(entry.id)}
+              className="text-slate-500 hover:text-rose-400 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+              aria-label="Delete pitch from history"
+            >
+              <XMarkIcon className="h-4 w-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default PitchHistoryList;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { PitchOptions, PitchPurpose, PitchTone } from '../types';
+import { PITCH_PURPOSES, PITCH_TONES } from '../services/pitch';
+
+interface PitchOptionsFormProps {
+  options: PitchOptions;
+  onChange: (options: PitchOptions) => void;
+  hasDetails: boolean;
+  disabled?: boolean;
+}
+
+const PitchOptionsForm: React.FC<PitchOptionsFormProps> = ({ options, onChange, hasDetails, disabled }) => {
+  const inputClass = "bg-slate-900 border border-slate-600 rounded-md text-slate-200 px-2 py-1 focus:ring-2 focus:ring-sky-500 outline-none";
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <select
+        value={options.purpose}
+        onChange={(e) => onChange({ ...options, purpose: e.target.value as PitchPurpose })}
+        className={inputClass}
+        disabled={disabled}
+        aria-label="Pitch purpose"
+      >
+        {PITCH_PURPOSES.map(({ value, label }) => (
+          <option key={value} value={value}>{label}</option>
+        ))}
+      </select>
+      <select
+        value={options.tone}
+        onChange={(e) => onChange({ ...options, tone: e.target.value as PitchTone })}
+        className={inputClass}
+        disabled={disabled}
+        aria-label="Pitch tone"
+      >
+        {PITCH_TONES.map(({ value, label }) => (
+          <option key={value} value={value}>{label}</option>
+        ))}
+      </select>
+      <input
+        value={options.language}
+        onChange={(e) => onChange({ ...options, language: e.target.value })}
+        placeholder="Language"
+        list="pitch-languages"
+        className={`${inputClass} w-28`}
+        disabled={disabled}
+        aria-label="Pitch language"
+      />
+      <datalist id="pitch-languages">
+        {['English', 'Spanish', 'French', 'German', 'Portuguese', 'Italian', 'Dutch'].map(language => (
+          <option key={language} value={language} />
+        ))}
+      </datalist>
+      <label className={`flex items-center gap-1 ${hasDetails ? 'text-slate-300' : 'text-slate-500'}`}>
+        <input
+          type="checkbox"
+          checked={options.includeDetails && hasDetails}
+          onChange={(e) => onChange({ ...options, includeDetails: e.target.checked })}
+          disabled={disabled || !hasDetails}
+          className="accent-sky-500"
+        />
+        Use business details
+      </label>
+    </div>
+  );
+};
+
+export default PitchOptionsForm;
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { SavedSearch } from '../types';
+import { describeSearchCategories, describeSearchLocation } from '../services/savedSearches';
+import { formatTimeAgo } from '../utils/formatters';
+import { ArrowPathIcon, XMarkIcon } from './Icons';
+
+interface SavedSearchesPanelProps {
+  savedSearches: SavedSearch[];
+  canSaveCurrent: boolean;
+  defaultName: string;
+  isLoading: boolean;
+  onSaveCurrent: (name: string) => void;
+  onRun: (search: SavedSearch) => void;
+  onDelete: (id: string) => void;
+}
+
+const SavedSearchesPanel: React.FC<SavedSearchesPanelProps> = ({
+  savedSearches,
+  canSaveCurrent,
+  defaultName,
+  isLoading,
+  onSaveCurrent,
+  onRun,
+  onDelete,
+}) => {
+  const [isNaming, setIsNaming] = useState(false);
+  const [name, setName] = useState('');
+
+  const handleSave = () => {
+    onSaveCurrent(name);
+    setName('');
+    setIsNaming(false);
+  };
+
+  if (savedSearches.length === 0 && !canSaveCurrent) return null;
+
+  return (
+    <div className="mb-12">
+      <div className="flex flex-wrap items-center justify-between gap-4 border-b-2 border-slate-700 pb-2 mb-4">
+        <h2 className="text-2xl font-bold text-sky-300">🔖 Saved Searches</h2>
+        {canSaveCurrent && (
+          isNaming ? (
+            <div className="flex items-center gap-2 text-sm">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); if (e.key === 'Escape') setIsNaming(false); }}
+                placeholder={defaultName}
+                className="bg-slate-800 border border-slate-600 rounded-md text-slate-200 px-2 py-1 focus:ring-2 focus:ring-sky-500 outline-none"
+                aria-label="Saved search name"
+                autoFocus
+              />
+              <button onClick={handleSave} className="px-3 py-1 bg-sky-600 text-white font-semibold rounded-md hover:bg-sky-500 transition-colors">
+                Save
+              </button>
+              <button onClick={() => setIsNaming(false)} className="px-2 py-1 text-slate-400 hover:text-white transition-colors">
+                Cancel
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={() => setIsNaming(true)}
+              className="px-3 py-1 text-sm bg-slate-700 text-slate-200 font-semibold rounded-md hover:bg-slate-600 transition-colors"
+            >
+              Save current search
+            </button>
+          )
+        )}
+      </div>
+      {savedSearches.length > 0 && (
+        <ul className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+          {savedSearches.map(search => (
+            <li key={search.id} className="bg-slate-800/50 border border-slate-700 rounded-lg p-3 flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <p className="font-semibold text-slate-200 truncate" title={search.name}>{search.name}</p>
+                <p className="text-xs text-slate-400 truncate">
+                  {describeSearchCategories(search)} · {describeSearchLocation(search)} · {search.radiusKm} km
+                  {search.sweep && ` · area sweep, ${search.sweep.tileKm} km tiles`}
+                </p>
+                <p className="text-xs text-slate-500 mt-1">
+                  {search.lastRunAt ? `Last run ${formatTimeAgo(search.lastRunAt)}` : 'Never run'}
+                  {search.newCount !== undefined && search.newCount > 0 && (
+                    <span className="ml-2 px-1.5 py-0.5 rounded bg-emerald-800 text-emerald-100 font-semibold">{search.newCount} new</span>
+                  )}
+                  {search.removedCount !== undefined && search.removedCount > 0 && (
+                    <span className="ml-2 text-slate-400">{search.removedCount} gone</span>
+                  )}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <button
+                  onClick={() => onRun(search)}
+                  disabled={isLoading}
+                  className="p-1.5 text-slate-300 rounded-md hover:bg-slate-700 hover:text-sky-400 disabled:text-slate-600 disabled:cursor-not-allowed transition-colors"
+                  aria-label={`Run saved search ${search.name}`}
+                >
+                  <ArrowPathIcon className="h-5 w-5" />
+                </button>
+                <button
+                  onClick={() => onDelete(search.id)}
+                  className="p-1.5 text-slate-500 rounded-md hover:bg-slate-700 hover:text-rose-400 transition-colors"
+                  aria-label={`Delete saved search ${search.name}`}
+                >
+                  <XMarkIcon className="h-5 w-5" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SavedSearchesPanel;
@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { SenderProfile } from '../types';
+
+interface SenderProfileFormProps {
+  profile: SenderProfile;
+  onSave: (profile: SenderProfile) => void;
+  onCancel: () => void;
+}
+
+const SenderProfileForm: React.FC<SenderProfileFormProps> = ({ profile, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<SenderProfile>(profile);
+
+  const inputClass = "w-full bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-sm text-slate-200 placeholder-slate-500 focus:ring-2 focus:ring-sky-500 outline-none";
+  const update = (field: keyof SenderProfile) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => setDraft(prev => ({ ...prev, [field]: e.target.value }));
+
+  return (
+    <div className="space-y-2 bg-slate-900/50 border border-slate-700 rounded-lg p-3 text-sm">
+      <div className="grid grid-cols-2 gap-2">
+        <input value={draft.name} onChange={update('name')} placeholder="Your name" className={inputClass} aria-label="Sender name" />
+        <input value={draft.company} onChange={update('company')} placeholder="Company" className={inputClass} aria-label="Sender company" />
+      </div>
+      <textarea
+        value={draft.offering}
+        onChange={update('offering')}
+        placeholder="What you offer, e.g. online booking software for local service businesses"
+        className={`${inputClass} h-16 resize-none`}
+        aria-label="What you offer"
+      />
+      <textarea
+        value={draft.signature}
+        onChange={update('signature')}
+        placeholder={"Signature, e.g.\nAlex Doe\nAcme Ltd · +1 555-0100"}
+        className={`${inputClass} h-20 resize-none`}
+        aria-label="Email signature"
+      />
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="px-3 py-1 text-slate-400 hover:text-slate-200 transition-colors">
+          Cancel
+        </button>
+        <button
+          onClick={() => onSave(draft)}
+          className="px-3 py-1 bg-sky-600 text-white font-semibold rounded-md hover:bg-sky-500 transition-colors"
+        >
+          Save profile
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SenderProfileForm;
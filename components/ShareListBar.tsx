@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { Business } from '../types';
+import { MAX_SHARED_BUSINESSES, buildShareListUrl } from '../services/urlState';
+import { ClipboardDocumentIcon, XMarkIcon } from './Icons';
+
+interface ShareListBarProps {
+  isPicking: boolean;
+  picked: Business[];
+  onStart: () => void;
+  onCancel: () => void;
+  onRemove: (business: Business) => void;
+}
+
+/** Lets the user pick a few businesses and copy a link that shows just those. */
+const ShareListBar: React.FC<ShareListBarProps> = ({ isPicking, picked, onStart, onCancel, onRemove }) => {
+  const [title, setTitle] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  if (!isPicking) {
+    return (
+      <button onClick={onStart} className="mb-6 text-sm font-semibold text-slate-300 hover:text-sky-400 transition-colors">
+        Pick businesses to share...
+      </button>
+    );
+  }
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(buildShareListUrl(picked, title));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (e) {
+      console.error("Failed to copy share link", e);
+    }
+  };
+
+  return (
+    <div className="sticky top-2 z-20 mb-6 bg-slate-800/95 border border-sky-700 rounded-lg p-3 text-sm shadow-lg">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-slate-300">
+          <span className="font-semibold text-sky-300">{picked.length}</span> of up to {MAX_SHARED_BUSINESSES} picked. Tick businesses below to add them.
+        </span>
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="List name (optional)"
+          className="flex-grow min-w-[10rem] bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-slate-200 placeholder-slate-500 focus:ring-2 focus:ring-sky-500 outline-none"
+          aria-label="Shared list name"
+        />
+        <button
+          onClick={handleCopy}
+          disabled={picked.length === 0}
+          className="flex items-center gap-1 px-3 py-1 bg-sky-600 text-white font-semibold rounded-md hover:bg-sky-500 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors"
+        >
+          <ClipboardDocumentIcon className="h-4 w-4" />
+          {copied ? 'Copied!' : 'Copy link'}
+        </button>
+        <button onClick={onCancel} className="px-2 py-1 text-slate-400 hover:text-white transition-colors">
+          Done
+        </button>
+      </div>
+      {picked.length > 0 && (
+        <ul className="mt-2 flex flex-wrap gap-1">
+          {picked.map(business => (
+            <li key={business.placeId} className="flex items-center gap-1 bg-slate-700 text-slate-200 rounded px-2 py-0.5 text-xs">
+              {business.title}
+              <button onClick={() => onRemove(business)} aria-label={`Remove ${business.title} from the list`} className="text-slate-400 hover:text-white">
+                <XMarkIcon className="h-3 w-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ShareListBar;
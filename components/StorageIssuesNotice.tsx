@@ -0,0 +1,55 @@
+import React from 'react';
+import { discardQuarantinedData } from '../services/storage';
+import { downloadFile } from '../services/exportService';
+import { useQuarantinedData } from '../hooks/useQuarantinedData';
+import { ArrowDownTrayIcon, XMarkIcon } from './Icons';
+
+/** Tells the user about saved data that couldn't be read, with options to download or discard it. */
+const StorageIssuesNotice: React.FC = () => {
+  const entries = useQuarantinedData();
+  if (entries.length === 0) return null;
+
+  const handleDiscard = (id: string, label: string) => {
+    if (window.confirm(`Discard the unreadable ${label.toLowerCase()} data? This cannot be undone.`)) {
+      discardQuarantinedData(id);
+    }
+  };
+
+  return (
+    <div className="bg-amber-950/40 border border-amber-800 rounded-lg p-4 mb-6 text-sm" role="alert">
+      <p className="font-semibold text-amber-300">Some saved data couldn't be read</p>
+      <p className="text-slate-300 mt-1">
+        It was set aside so the app could start with empty data instead. Download it if you want to recover it by hand.
+      </p>
+      <ul className="mt-3 space-y-2">
+        {entries.map(entry => (
+          <li key={entry.id} className="flex flex-wrap items-center justify-between gap-2">
+            <span className="text-slate-300">
+              <span className="font-semibold">{entry.label}</span>
+              {entry.quarantinedAt > 0 && <span className="text-slate-500"> · {new Date(entry.quarantinedAt).toLocaleString()}</span>}
+              <span className="block text-xs text-slate-500">{entry.reason}</span>
+            </span>
+            <span className="flex gap-2">
+              <button
+                onClick={() => downloadFile(entry.raw, `${entry.storeKey || 'data'}-unreadable-${entry.quarantinedAt}.json`, 'application/json;charset=utf-8')}
+                className="flex items-center gap-1 px-3 py-1 bg-slate-700 text-slate-200 font-semibold rounded-md hover:bg-slate-600 transition-colors"
+              >
+                <ArrowDownTrayIcon className="h-4 w-4" />
+                Download
+              </button>
+              <button
+                onClick={() => handleDiscard(entry.id, entry.label)}
+                className="flex items-center gap-1 px-3 py-1 text-slate-400 hover:text-rose-400 transition-colors"
+              >
+                <XMarkIcon className="h-4 w-4" />
+                Discard
+              </button>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default StorageIssuesNotice;
@@ -0,0 +1,93 @@
+import React from 'react';
+import { SweepTileProgress } from '../services/areaSweep';
+import { ArrowPathIcon } from './Icons';
+
+interface SweepProgressGridProps {
+  tiles: SweepTileProgress[];
+  isRunning: boolean;
+  /** Searches the tiles that are still pending or failed. */
+  onResume: () => void;
+}
+
+// Done tiles with fewer results than this are marked as thin.
+const THIN_TILE_RESULTS = 3;
+
+const getTileClass = ({ status, found }: SweepTileProgress): string => {
+  if (status === 'running') return 'bg-sky-600 text-white animate-pulse';
+  if (status === 'failed') return 'bg-rose-800 text-rose-100';
+  if (status === 'pending') return 'bg-slate-800 text-slate-500 border border-dashed border-slate-600';
+  if (found === 0) return 'bg-amber-900/70 text-amber-200';
+  if (found < THIN_TILE_RESULTS) return 'bg-amber-700/60 text-amber-100';
+  return 'bg-emerald-800/70 text-emerald-100';
+};
+
+const describeTile = (tile: SweepTileProgress): string => {
+  const position = `Tile ${tile.row + 1}, ${tile.col + 1} (${tile.center.latitude.toFixed(3)}, ${tile.center.longitude.toFixed(3)})`;
+  switch (tile.status) {
+    case 'running': return `${position}: searching...`;
+    case 'pending': return `${position}: not searched yet`;
+    case 'failed': return `${position}: ${tile.error ?? 'failed'}${tile.found > 0 ? `; ${tile.found} found` : ''}`;
+    default: return `${position}: ${tile.found} found, ${tile.newCount} new`;
+  }
+};
+
+/**
+ * The sweep's tiles laid out as on the map, north at the top, each showing how
+ * many businesses it found, so thin and unsearched parts of the area stand out.
+ */
+const SweepProgressGrid: React.FC<SweepProgressGridProps> = ({ tiles, isRunning, onResume }) => {
+  const rows = Math.max(...tiles.map(tile => tile.row)) + 1;
+  const cols = Math.max(...tiles.map(tile => tile.col)) + 1;
+  const done = tiles.filter(tile => tile.status === 'done').length;
+  const failed = tiles.filter(tile => tile.status === 'failed').length;
+  const remaining = tiles.length - done;
+  const thin = tiles.filter(tile => tile.status === 'done' && tile.found < THIN_TILE_RESULTS).length;
+  const byId = new Map<string, SweepTileProgress>(tiles.map(tile => [tile.id, tile]));
+
+  return (
+    <div className="mb-8 bg-slate-800/60 border border-slate-700 rounded-lg p-4 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <p className="text-slate-300">
+          <span className="font-semibold">Area sweep:</span> {done} of {tiles.length} tiles searched
+          {failed > 0 && <span className="text-rose-400"> · {failed} failed</span>}
+          {thin > 0 && <span className="text-amber-300"> · {thin} thin</span>}
+        </p>
+        {!isRunning && remaining > 0 && (
+          <button
+            onClick={onResume}
+            className="flex items-center gap-1 px-3 py-1 bg-slate-700 text-slate-200 font-semibold rounded-md hover:bg-slate-600 transition-colors"
+          >
+            <ArrowPathIcon className="h-4 w-4" />
+            Search {remaining} remaining {remaining === 1 ? 'tile' : 'tiles'}
+          </button>
+        )}
+      </div>
+      <div className="overflow-x-auto">
+        <div className="inline-grid gap-1" style={{ gridTemplateColumns: `repeat(${cols}, 2rem)` }}>
+          {Array.from({ length: rows * cols }, (_, index) => {
+            const tile = byId.get(`${Math.floor(index / cols)}:${index % cols}`);
+            if (!tile) return <div key={index} className="h-8" />;
+            return (
+              <div
+                key={tile.id}
+                className={`h-8 rounded flex items-center justify-center text-xs font-semibold ${getTileClass(tile)}`}
+                title={describeTile(tile)}
+              >
+                {tile.status === 'pending' || tile.status === 'running' ? '' : tile.found}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+      <div className="mt-3 flex flex-wrap gap-3 text-xs text-slate-400">
+        <span className="flex items-center gap-1"><span className="h-2.5 w-2.5 rounded-sm bg-emerald-800" /> {THIN_TILE_RESULTS}+ found</span>
+        <span className="flex items-center gap-1"><span className="h-2.5 w-2.5 rounded-sm bg-amber-700" /> Thin</span>
+        <span className="flex items-center gap-1"><span className="h-2.5 w-2.5 rounded-sm bg-amber-900" /> None found</span>
+        <span className="flex items-center gap-1"><span className="h-2.5 w-2.5 rounded-sm bg-rose-800" /> Failed</span>
+        <span className="flex items-center gap-1"><span className="h-2.5 w-2.5 rounded-sm border border-dashed border-slate-500" /> Not searched</span>
+      </div>
+    </div>
+  );
+};
+
+export default SweepProgressGrid;
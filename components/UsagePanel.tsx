@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { BudgetStatus, DailyUsage, USAGE_OPERATION_LABELS, USAGE_RETENTION_DAYS, UsageBudget, UsageTotals, formatUsd } from '../services/usage';
+
+interface UsagePanelProps {
+  dailyUsage: DailyUsage[];
+  todayCostUsd: number;
+  budget: UsageBudget;
+  budgetStatus: BudgetStatus;
+  onChangeBudget: (budget: UsageBudget) => void;
+  onClear: () => void;
+}
+
+const formatTokens = (tokens: number) => tokens.toLocaleString();
+
+const UsageCells: React.FC<{ totals: UsageTotals }> = ({ totals }) => (
+  <>
+    <td className="py-1 px-2 text-right">{totals.calls}</td>
+    <td className={`py-1 px-2 text-right ${totals.failed > 0 ? 'text-rose-400' : ''}`}>{totals.failed}</td>
+    <td className="py-1 px-2 text-right">{formatTokens(totals.inputTokens)}</td>
+    <td className="py-1 px-2 text-right">{formatTokens(totals.outputTokens)}</td>
+    <td className="py-1 px-2 text-right">{(totals.averageLatencyMs / 1000).toFixed(1)}s</td>
+    <td className="py-1 px-2 text-right font-semibold">{formatUsd(totals.costUsd)}</td>
+  </>
+);
+
+const BudgetField: React.FC<{ label: string; value: number | null; onChange: (value: number | null) => void; placeholder?: string }> = ({ label, value, onChange, placeholder }) => (
+  <label className="block text-slate-300">
+    {label}
+    <input
+      type="number"
+      min="0"
+      step="0.01"
+      value={value ?? ''}
+      placeholder={placeholder}
+      onChange={(e) => onChange(e.target.value === '' ? null : Math.max(0, Number(e.target.value)))}
+      className="mt-1 w-full bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-slate-200 placeholder-slate-500 focus:ring-2 focus:ring-sky-500 outline-none"
+    />
+  </label>
+);
+
+const STATUS_CLASSES: Record<BudgetStatus, string> = {
+  'ok': 'bg-sky-500',
+  'soft-exceeded': 'bg-amber-500',
+  'hard-exceeded': 'bg-rose-500',
+};
+
+/** Collapsible section summarizing API calls, tokens and estimated cost per day, with the daily budgets. */
+const UsagePanel: React.FC<UsagePanelProps> = ({ dailyUsage, todayCostUsd, budget, budgetStatus, onChangeBudget, onClear }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [expandedDay, setExpandedDay] = useState<string | null>(null);
+  const limit = budget.hardDailyUsd ?? budget.softDailyUsd;
+  const percent = limit ? Math.min(100, Math.round((todayCostUsd / limit) * 100)) : 0;
+
+  const handleClear = () => {
+    if (window.confirm('Clear the API usage history? Budgets are kept.')) onClear();
+  };
+
+  return (
+    <div className="mt-6">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        aria-expanded={isOpen}
+        className="text-sm font-semibold text-slate-300 hover:text-sky-400 transition-colors"
+      >
+        {isOpen ? 'Hide API usage' : `API usage and budgets (today ${formatUsd(todayCostUsd)})...`}
+      </button>
+      {isOpen && (
+        <div className="mt-4 bg-slate-800/60 border border-slate-700 rounded-lg p-4 text-sm space-y-4">
+          <div>
+            <div className="flex flex-wrap justify-between gap-2 text-slate-300">
+              <span>Estimated spend today: <span className="font-semibold text-white">{formatUsd(todayCostUsd)}</span></span>
+              {limit !== null && <span className="text-slate-400">of {formatUsd(limit)} {budget.hardDailyUsd !== null ? 'hard' : 'soft'} budget</span>}
+            </div>
+            {limit !== null && (
+              <div className="mt-2 h-1.5 w-full bg-slate-700 rounded-full overflow-hidden" role="progressbar" aria-valuenow={percent} aria-valuemin={0} aria-valuemax={100}>
+                <div className={`h-full ${STATUS_CLASSES[budgetStatus]}`} style={{ width: `${percent}%` }} />
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <BudgetField label="Soft daily budget ($)" value={budget.softDailyUsd} placeholder="No limit" onChange={softDailyUsd => onChangeBudget({ ...budget, softDailyUsd })} />
+            <BudgetField label="Hard daily budget ($)" value={budget.hardDailyUsd} placeholder="No limit" onChange={hardDailyUsd => onChangeBudget({ ...budget, hardDailyUsd })} />
+            <BudgetField label="$ per 1M input tokens" value={budget.inputUsdPerMillionTokens} onChange={price => onChangeBudget({ ...budget, inputUsdPerMillionTokens: price ?? 0 })} />
+            <BudgetField label="$ per 1M output tokens" value={budget.outputUsdPerMillionTokens} onChange={price => onChangeBudget({ ...budget, outputUsdPerMillionTokens: price ?? 0 })} />
+          </div>
+          <p className="text-xs text-slate-500">
+            Going over the soft budget shows a warning. Going over the hard budget stops "Enrich all", "Rate fit", area sweeps and fetching details for exports until the next day; single searches and lookups still work.
+            Costs are estimated from token counts and these prices.
+          </p>
+
+          {dailyUsage.length === 0 ? (
+            <p className="text-slate-400">No API calls recorded yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-slate-300">
+                <thead>
+                  <tr className="text-xs text-slate-500 border-b border-slate-700">
+                    <th className="py-1 px-2 text-left font-semibold">Day</th>
+                    <th className="py-1 px-2 text-right font-semibold">Calls</th>
+                    <th className="py-1 px-2 text-right font-semibold">Failed</th>
+                    <th className="py-1 px-2 text-right font-semibold">Input tokens</th>
+                    <th className="py-1 px-2 text-right font-semibold">Output tokens</th>
+                    <th className="py-1 px-2 text-right font-semibold">Avg. latency</th>
+                    <th className="py-1 px-2 text-right font-semibold">Est. cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {dailyUsage.map(day => (
+                    <React.Fragment key={day.day}>
+                      <tr className="border-b border-slate-700/50">
+                        <td className="py-1 px-2">
+                          <button
+                            onClick={() => setExpandedDay(expanded => expanded === day.day ? null : day.day)}
+                            aria-expanded={expandedDay === day.day}
+                            className="hover:text-sky-400 transition-colors"
+                          >
+                            {expandedDay === day.day ? '▾' : '▸'} {day.day}
+                          </button>
+                        </td>
+                        <UsageCells totals={day} />
+                      </tr>
+                      {expandedDay === day.day && day.byOperation.map(operation => (
+                        <tr key={operation.operation} className="text-xs text-slate-400">
+                          <td className="py-1 px-2 pl-6">{USAGE_OPERATION_LABELS[operation.operation]}</td>
+                          <UsageCells totals={operation} />
+                        </tr>
+                      ))}
+                    </React.Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <div className="flex justify-between items-center text-xs text-slate-500">
+            <span>The last {USAGE_RETENTION_DAYS} days are kept in this browser; calls from other browsers aren't counted.</span>
+            {dailyUsage.length > 0 && (
+              <button onClick={handleClear} className="text-slate-400 hover:text-rose-400 transition-colors">
+                Clear history
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UsagePanel;
@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import { CachedBusinessDetails } from '../types';
+import { getAllCachedDetails, subscribeToDetailsCache } from '../services/detailsCache';
+
+/**
+ * Exposes every cached `BusinessDetails` entry keyed by placeId, updating as
+ * new details are fetched anywhere in the app.
+ */
+export const useCachedDetails = (): Record<string, CachedBusinessDetails> => {
+  const [entries, setEntries] = useState<Record<string, CachedBusinessDetails>>({});
+
+  useEffect(() => {
+    let isMounted = true;
+    getAllCachedDetails().then(all => {
+      if (!isMounted) return;
+      setEntries(prev => {
+        const next = { ...prev };
+        all.forEach(entry => {
+          if (!next[entry.placeId] || next[entry.placeId].fetchedAt < entry.fetchedAt) {
+            next[entry.placeId] = entry;
+          }
+        });
+        return next;
+      });
+    });
+    const unsubscribe = subscribeToDetailsCache(entry => {
+      setEntries(prev => ({ ...prev, [entry.placeId]: entry }));
+    });
+    return () => {
+      isMounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return entries;
+};
@@ -0,0 +1,81 @@
+import { useCallback } from 'react';
+import { Business, LeadInfo } from '../types';
+import { createLeadNote, toSavedBusiness } from '../services/leadPipeline';
+import { mergeSavedBusinesses } from '../services/duplicates';
+import { favoritesStore } from '../services/stores';
+import { usePersistentState } from './usePersistentState';
+import { movePitchHistory } from './usePitchHistory';
+import { moveFitRating } from './useFitRatings';
+
+/** Saved businesses and their lead pipeline state, persisted to localStorage. */
+export const useFavorites = () => {
+  const [favorites, setFavorites] = usePersistentState(favoritesStore);
+
+  const isFavorite = useCallback(
+    (business: Business) => favorites.some((fav) => fav.placeId === business.placeId),
+    [favorites]
+  );
+
+  const toggleFavorite = useCallback((business: Business) => {
+    setFavorites(prev => prev.some(fav => fav.placeId === business.placeId)
+      ? prev.filter(fav => fav.placeId !== business.placeId)
+      : [...prev, toSavedBusiness(business)]);
+  }, []);
+
+  const updateLead = useCallback((placeId: string, update: (lead: LeadInfo) => LeadInfo) => {
+    setFavorites(prev => prev.map(fav => fav.placeId === placeId
+      ? { ...fav, lead: { ...update(fav.lead), updatedAt: Date.now() } }
+      : fav));
+  }, []);
+
+  const setLeadStatus = useCallback((placeId: string, status: LeadInfo['status']) => {
+    updateLead(placeId, lead => ({ ...lead, status }));
+  }, [updateLead]);
+
+  const setFollowUpDate = useCallback((placeId: string, followUpDate?: string) => {
+    updateLead(placeId, lead => ({ ...lead, followUpDate: followUpDate || undefined }));
+  }, [updateLead]);
+
+  const addLeadNote = useCallback((placeId: string, text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+    updateLead(placeId, lead => ({ ...lead, notes: [createLeadNote(trimmed), ...lead.notes] }));
+  }, [updateLead]);
+
+  const deleteLeadNote = useCallback((placeId: string, noteId: string) => {
+    updateLead(placeId, lead => ({ ...lead, notes: lead.notes.filter(note => note.id !== noteId) }));
+  }, [updateLead]);
+
+  /** Folds the lead saved under `mergedPlaceId` into `keepPlaceId`, including its pitch history and fit rating. */
+  const mergeFavorites = useCallback((keepPlaceId: string, mergedPlaceId: string) => {
+    setFavorites(prev => {
+      const keep = prev.find(fav => fav.placeId === keepPlaceId);
+      const merged = prev.find(fav => fav.placeId === mergedPlaceId);
+      if (!keep || !merged || keep === merged) return prev;
+      const combined = mergeSavedBusinesses(keep, merged);
+      return prev.filter(fav => fav !== merged).map(fav => fav === keep ? combined : fav);
+    });
+    movePitchHistory(mergedPlaceId, keepPlaceId);
+    moveFitRating(mergedPlaceId, keepPlaceId);
+  }, []);
+
+  /** Saves imported businesses as new leads, skipping any already saved. */
+  const importFavorites = useCallback((businesses: Business[]) => {
+    setFavorites(prev => {
+      const saved = new Set(prev.map(fav => fav.placeId));
+      return [...prev, ...businesses.filter(business => !saved.has(business.placeId)).map(toSavedBusiness)];
+    });
+  }, []);
+
+  return {
+    favorites,
+    isFavorite,
+    toggleFavorite,
+    setLeadStatus,
+    setFollowUpDate,
+    addLeadNote,
+    deleteLeadNote,
+    mergeFavorites,
+    importFavorites,
+  };
+};
@@ -0,0 +1,27 @@
+import { useCallback } from 'react';
+import { FitRating } from '../types';
+import { updateStore } from '../services/storage';
+import { fitRatingsStore } from '../services/stores';
+import { usePersistentState } from './usePersistentState';
+
+/** Moves the fit rating stored for one business to another, keeping the newer one if both have one. */
+export const moveFitRating = (fromPlaceId: string, toPlaceId: string) => {
+  updateStore(fitRatingsStore, ratings => {
+    const moved = ratings[fromPlaceId];
+    if (!moved) return ratings;
+    const { [fromPlaceId]: _removed, ...rest } = ratings;
+    const existing = rest[toPlaceId];
+    return { ...rest, [toPlaceId]: existing && existing.ratedAt >= moved.ratedAt ? existing : moved };
+  });
+};
+
+/** Model-assisted fit ratings keyed by placeId, persisted to localStorage. */
+export const useFitRatings = () => {
+  const [fitRatings, setFitRatings] = usePersistentState(fitRatingsStore);
+
+  const setFitRating = useCallback((placeId: string, rating: FitRating) => {
+    setFitRatings(prev => ({ ...prev, [placeId]: rating }));
+  }, []);
+
+  return { fitRatings, setFitRating };
+};
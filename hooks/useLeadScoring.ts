@@ -0,0 +1,9 @@
+import { leadScoringStore } from '../services/stores';
+import { usePersistentState } from './usePersistentState';
+
+/** The user's lead scoring weights and keywords, persisted to localStorage. */
+export const useLeadScoring = () => {
+  const [scoringConfig, setScoringConfig] = usePersistentState(leadScoringStore);
+
+  return { scoringConfig, setScoringConfig };
+};
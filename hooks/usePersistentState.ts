@@ -0,0 +1,18 @@
+import { useState, useEffect } from 'react';
+import { StoreDefinition, readStore, subscribeToStore, writeStore } from '../services/storage';
+
+/**
+ * State backed by a versioned store: loaded (and migrated) on mount, saved on
+ * every change, and updated when another tab or module writes the store.
+ */
+export const usePersistentState = <T,>(store: StoreDefinition<T>) => {
+  const [value, setValue] = useState<T>(() => readStore(store));
+
+  useEffect(() => {
+    writeStore(store, value);
+  }, [store, value]);
+
+  useEffect(() => subscribeToStore(store, setValue), [store]);
+
+  return [value, setValue] as const;
+};
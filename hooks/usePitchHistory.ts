@@ -0,0 +1,38 @@
+import { useCallback } from 'react';
+import { PitchHistoryEntry } from '../types';
+import { updateStore } from '../services/storage';
+import { MAX_PITCH_ENTRIES_PER_BUSINESS, pitchHistoryStore } from '../services/stores';
+import { usePersistentState } from './usePersistentState';
+
+/** Appends the pitches stored for one business to another's, e.g. when merging duplicate leads. */
+export const movePitchHistory = (fromPlaceId: string, toPlaceId: string) => {
+  updateStore(pitchHistoryStore, history => {
+    const moved = history[fromPlaceId];
+    if (!moved?.length) return history;
+    const { [fromPlaceId]: _removed, ...rest } = history;
+    const combined = [...(rest[toPlaceId] ?? []), ...moved].sort((a, b) => b.createdAt - a.createdAt);
+    return { ...rest, [toPlaceId]: combined.slice(0, MAX_PITCH_ENTRIES_PER_BUSINESS) };
+  });
+};
+
+/** Every pitch generated for a business, newest first, persisted to localStorage. */
+export const usePitchHistory = (placeId: string) => {
+  const [history, setHistory] = usePersistentState(pitchHistoryStore);
+
+  const addEntry = useCallback((entry: PitchHistoryEntry) => {
+    setHistory(prev => ({
+      ...prev,
+      [placeId]: [entry, ...(prev[placeId] ?? [])].slice(0, MAX_PITCH_ENTRIES_PER_BUSINESS),
+    }));
+  }, [placeId]);
+
+  const deleteEntry = useCallback((entryId: string) => {
+    setHistory(prev => {
+      const remaining = (prev[placeId] ?? []).filter(entry => entry.id !== entryId);
+      const { [placeId]: _removed, ...rest } = prev;
+      return remaining.length > 0 ? { ...rest, [placeId]: remaining } : rest;
+    });
+  }, [placeId]);
+
+  return { entries: history[placeId] ?? [], addEntry, deleteEntry };
+};
@@ -0,0 +1,13 @@
+import { PitchOptions, SenderProfile } from '../types';
+import { pitchSettingsStore } from '../services/stores';
+import { usePersistentState } from './usePersistentState';
+
+/** The sender profile and last-used pitch options, persisted to localStorage. */
+export const usePitchSettings = () => {
+  const [settings, setSettings] = usePersistentState(pitchSettingsStore);
+
+  const setProfile = (profile: SenderProfile) => setSettings(prev => ({ ...prev, profile }));
+  const setOptions = (options: PitchOptions) => setSettings(prev => ({ ...prev, options }));
+
+  return { profile: settings.profile, options: settings.options, setProfile, setOptions };
+};
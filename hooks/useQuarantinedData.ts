@@ -0,0 +1,11 @@
+import { useEffect, useState } from 'react';
+import { QuarantinedData, listQuarantinedData, subscribeToQuarantine } from '../services/storage';
+
+/** Saved data that couldn't be read and was set aside, updating as data is quarantined or discarded. */
+export const useQuarantinedData = (): QuarantinedData[] => {
+  const [entries, setEntries] = useState<QuarantinedData[]>(listQuarantinedData);
+
+  useEffect(() => subscribeToQuarantine(() => setEntries(listQuarantinedData())), []);
+
+  return entries;
+};
@@ -0,0 +1,36 @@
+import { useCallback } from 'react';
+import { Business, SavedSearch } from '../types';
+import { SearchDiff, SearchParams, createSavedSearch, diffSearchResults } from '../services/savedSearches';
+import { savedSearchesStore } from '../services/stores';
+import { usePersistentState } from './usePersistentState';
+
+/** Named searches the user can re-run, persisted to localStorage. */
+export const useSavedSearches = () => {
+  const [savedSearches, setSavedSearches] = usePersistentState(savedSearchesStore);
+
+  const saveSearch = useCallback((name: string, params: SearchParams, results: Business[]) => {
+    setSavedSearches(prev => [...prev, createSavedSearch(name, params, results)]);
+  }, []);
+
+  const deleteSearch = useCallback((id: string) => {
+    setSavedSearches(prev => prev.filter(search => search.id !== id));
+  }, []);
+
+  /**
+   * Stores the results of a re-run and returns how they differ from the
+   * previous run. Returns null for a search that had never been run.
+   */
+  const recordRun = useCallback((search: SavedSearch, results: Business[]): SearchDiff | null => {
+    const diff = search.lastRunAt ? diffSearchResults(search.lastResults, results) : null;
+    setSavedSearches(prev => prev.map(item => item.id === search.id ? {
+      ...item,
+      lastRunAt: Date.now(),
+      lastResults: results.map(({ placeId, title }) => ({ placeId, title })),
+      newCount: diff?.newPlaceIds.size,
+      removedCount: diff?.removed.length,
+    } : item));
+    return diff;
+  }, []);
+
+  return { savedSearches, saveSearch, deleteSearch, recordRun };
+};
@@ -0,0 +1,23 @@
+import { useCallback, useMemo } from 'react';
+import { usageBudgetStore, usageLogStore } from '../services/stores';
+import { getBudgetStatus, summarizeUsage, toDayKey } from '../services/usage';
+import { usePersistentState } from './usePersistentState';
+
+/**
+ * The API usage log, summarized per day, with the daily budgets and where
+ * today's estimated spend stands against them.
+ */
+export const useUsage = () => {
+  const [records, setRecords] = usePersistentState(usageLogStore);
+  const [budget, setBudget] = usePersistentState(usageBudgetStore);
+
+  const dailyUsage = useMemo(() => summarizeUsage(records, budget), [records, budget]);
+  const todayCostUsd = dailyUsage.find(day => day.day === toDayKey(Date.now()))?.costUsd ?? 0;
+  const budgetStatus = getBudgetStatus(todayCostUsd, budget);
+
+  const clearUsage = useCallback(() => {
+    setRecords([]);
+  }, []);
+
+  return { dailyUsage, todayCostUsd, budget, setBudget, budgetStatus, clearUsage };
+};
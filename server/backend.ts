@@ -0,0 +1,51 @@
+import { GoogleGenAI } from "@google/genai";
+import { GroundingChunk } from '../types';
+import { ProxyChunk, ProxyRequest } from '../services/proxyApi';
+import { MissingApiKeyError, assertNotBlocked, withNetworkErrors } from '../services/errors';
+import { buildModelRequest } from './modelRequests';
+
+const UNREACHABLE = 'Could not reach the Gemini API.';
+
+/** Where the proxy gets its answers: the Gemini API, or canned data for development. */
+export interface ModelBackend {
+  name: string;
+  /** Streams the answer to `request`. Stops early, without throwing, when `signal` aborts. */
+  stream: (request: ProxyRequest, signal: AbortSignal) => AsyncIterable<ProxyChunk>;
+}
+
+export const createGeminiBackend = (apiKey: string | undefined): ModelBackend => {
+  const ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
+  return {
+    name: 'gemini',
+    async *stream(request, signal) {
+      if (!ai) throw new MissingApiKeyError();
+      const params = buildModelRequest(request);
+      try {
+        const stream = await withNetworkErrors(
+          () => ai.models.generateContentStream({ ...params, config: { ...params.config, abortSignal: signal } }),
+          UNREACHABLE,
+        );
+        // Iterated by hand, so only failures to read the stream count as network errors.
+        const chunks = stream[Symbol.asyncIterator]();
+        const readNext = () => withNetworkErrors(() => chunks.next(), UNREACHABLE);
+        for (let next = await readNext(); !next.done; next = await readNext()) {
+          const chunk = next.value;
+          assertNotBlocked(chunk);
+          const usage = chunk.usageMetadata;
+          yield {
+            text: chunk.text ?? '',
+            groundingChunks: (chunk.candidates?.[0]?.groundingMetadata?.groundingChunks ?? []) as GroundingChunk[],
+            // Grounding tool prompts and thinking are billed as input and output respectively.
+            usage: usage && {
+              inputTokens: (usage.promptTokenCount ?? 0) + (usage.toolUsePromptTokenCount ?? 0),
+              outputTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+            },
+          };
+          if (signal.aborted) return;
+        }
+      } catch (error) {
+        if (!signal.aborted) throw error;
+      }
+    },
+  };
+};
@@ -0,0 +1,35 @@
+import { ProxyUsage } from '../services/proxyApi';
+import { UsageBudget, estimateCost, toDayKey } from '../services/usage';
+
+export type DailyBudgetOptions = Pick<UsageBudget, 'inputUsdPerMillionTokens' | 'outputUsdPerMillionTokens'> & {
+  /** Estimated spend per day, in US dollars, above which the proxy refuses calls. */
+  hardDailyUsd: number;
+};
+
+/**
+ * The proxy's own hard daily budget. Unlike the one in the browser, it covers
+ * every client of the proxy. Spend is estimated from the token counts of the
+ * calls made since the server started, and starts again each calendar day.
+ */
+export const createDailyBudget = ({ hardDailyUsd, ...prices }: DailyBudgetOptions) => {
+  let day = toDayKey(Date.now());
+  let spentUsd = 0;
+
+  const rollOver = (now: number) => {
+    const today = toDayKey(now);
+    if (today === day) return;
+    day = today;
+    spentUsd = 0;
+  };
+
+  return {
+    isExceeded: (now = Date.now()): boolean => {
+      rollOver(now);
+      return spentUsd >= hardDailyUsd;
+    },
+    record: (usage: ProxyUsage, now = Date.now()) => {
+      rollOver(now);
+      spentUsd += estimateCost(usage, { softDailyUsd: null, hardDailyUsd, ...prices });
+    },
+  };
+};
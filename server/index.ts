@@ -0,0 +1,62 @@
+import { createServer } from 'node:http';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { createProxyHandler, readProxyOptions } from './proxy';
+
+// Serves the built app from `dist` together with the API proxy, for running
+// without Vite: `npm run build && npm run build:server && npm start`.
+
+const STATIC_ROOT = path.resolve(process.env.STATIC_ROOT ?? 'dist');
+const PORT = Number(process.env.PORT) || 3000;
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+};
+
+/** Reads a file under the static root; `pathname` is already URL-decoded. */
+const readStatic = async (pathname: string): Promise<{ body: Buffer; type: string } | null> => {
+  const file = path.resolve(STATIC_ROOT, `.${pathname}`);
+  if (file !== STATIC_ROOT && !file.startsWith(STATIC_ROOT + path.sep)) return null;
+  try {
+    return { body: await readFile(file), type: CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream' };
+  } catch {
+    return null;
+  }
+};
+
+const handleApi = createProxyHandler(readProxyOptions(process.env));
+
+const server = createServer((req, res) => {
+  handleApi(req, res, async () => {
+    let pathname: string;
+    try {
+      pathname = decodeURIComponent(new URL(req.url ?? '/', 'http://localhost').pathname);
+    } catch {
+      res.writeHead(400).end();
+      return;
+    }
+    // Unknown paths get the app, which reads its state from the URL.
+    const file = (pathname !== '/' && await readStatic(pathname)) || await readStatic('/index.html');
+    if (!file) {
+      res.writeHead(404).end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': file.type });
+    res.end(req.method === 'HEAD' ? undefined : file.body);
+  }).catch(error => {
+    // Nothing that goes wrong with one request may take the server down.
+    console.error(`Failed to handle ${req.method} ${req.url}`, error);
+    if (!res.headersSent) res.writeHead(500);
+    res.end();
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Serving ${STATIC_ROOT} and the API proxy on http://localhost:${PORT}`);
+});
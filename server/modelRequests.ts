@@ -0,0 +1,158 @@
+import { GenerateContentConfig, GenerateContentParameters, Type } from "@google/genai";
+import { ProxyRequest, ProxyRequests } from '../services/proxyApi';
+import { NoLocationError } from '../services/errors';
+import { buildPitchPrompt } from '../services/pitch';
+import { buildFitPrompt } from '../services/leadScoring';
+
+const MODEL = "gemini-2.5-flash";
+
+const STRICT_JSON_INSTRUCTION = `
+
+Your previous answer could not be used. Respond with a single JSON object only, with no markdown or commentary, exactly matching the response schema. Every required field must be present and non-empty, and coordinates must be decimal degrees.`;
+
+const STRICT_PITCH_INSTRUCTION = `
+
+Your previous answer could not be used. The first line must be "Subject: " followed by the subject line, then a blank line, then the email body.`;
+
+// Cap on how many already-seen businesses are listed in a "load more" prompt.
+const MAX_EXCLUDED_IN_PROMPT = 100;
+
+const buildExclusionInstruction = (exclude: ProxyRequests['search']['exclude']): string => {
+  if (!exclude?.length) return '';
+  const listed = exclude.slice(-MAX_EXCLUDED_IN_PROMPT)
+    .map(({ title, placeId }) => `- "${title}" (Place ID: ${placeId})`)
+    .join('\n');
+  return `\n\nThese businesses have already been found. Do not include any of them; find different ones instead:\n${listed}`;
+};
+
+// Maps grounding can't be combined with a response schema, so the JSON shape is
+// spelled out in the prompt and cross-checked against the grounding chunks.
+const GROUNDED_JSON_INSTRUCTION = `
+
+Use Google Maps to find real businesses. Respond with a JSON object of the form {"businesses": [{"title": string, "placeId": string, "latitude": number, "longitude": number}]}, using the Google Maps name, Place ID and coordinates of each business.`;
+
+const buildSearchRequest = ({ category, location, manualLocation, exclude, radiusKm, strict }: ProxyRequests['search']): GenerateContentParameters => {
+  let contents: string;
+  const config: GenerateContentConfig = { tools: [{ googleMaps: {} }] };
+
+  if (location) {
+    const place = manualLocation?.trim() ? `${manualLocation.trim()} (latitude ${location.latitude}, longitude ${location.longitude})` : `latitude ${location.latitude} and longitude ${location.longitude}`;
+    contents = radiusKm
+      ? `Find good ${category} businesses within ${Number(radiusKm.toFixed(1))} km of ${place}. Leave out businesses farther away.`
+      : `Find good ${category} businesses near ${place}.`;
+    // Lets Maps grounding rank results by distance from the search center.
+    config.toolConfig = { retrievalConfig: { latLng: { latitude: location.latitude, longitude: location.longitude } } };
+  } else if (manualLocation?.trim()) {
+    contents = `Find good ${category} businesses in ${manualLocation}.`;
+  } else {
+    throw new NoLocationError();
+  }
+  contents += GROUNDED_JSON_INSTRUCTION + buildExclusionInstruction(exclude);
+  return { model: MODEL, contents: strict ? contents + STRICT_JSON_INSTRUCTION : contents, config };
+};
+
+const buildDetailsRequest = ({ placeId, lookup, strict }: ProxyRequests['details']): GenerateContentParameters => {
+  const business = lookup ? `the business best matching "${lookup.query}" on Google Maps` : `the business with Google Maps Place ID: ${placeId}`;
+  const contents = `Provide details for ${business}. Ensure the address is complete and the phone number includes the country code.`;
+  return {
+    model: MODEL,
+    contents: strict ? contents + STRICT_JSON_INSTRUCTION : contents,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          address: {
+            type: Type.STRING,
+            description: "The full, formatted street address of the business."
+          },
+          phone: {
+            type: Type.STRING,
+            description: "The international phone number for the business."
+          },
+          hours: {
+            type: Type.ARRAY,
+            description: "A list of strings, each representing the opening hours for a day of the week.",
+            items: { type: Type.STRING }
+          },
+          website: {
+            type: Type.STRING,
+            description: "The official website URL of the business."
+          }
+        },
+        required: ["address", "phone", "hours"]
+      }
+    }
+  };
+};
+
+const buildPitchRequest = ({ request, strict }: ProxyRequests['pitch']): GenerateContentParameters => {
+  const contents = buildPitchPrompt(request);
+  return {
+    model: MODEL,
+    contents: strict ? contents + STRICT_PITCH_INSTRUCTION : contents,
+    config: {
+      systemInstruction: "You are a helpful assistant that writes professional business communication.",
+    }
+  };
+};
+
+const buildFitRequest = ({ business, sender, details, strict }: ProxyRequests['fit']): GenerateContentParameters => {
+  const contents = buildFitPrompt(business, sender, details);
+  return {
+    model: MODEL,
+    contents: strict ? contents + STRICT_JSON_INSTRUCTION : contents,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          score: { type: Type.NUMBER, description: "Fit from 0 (poor) to 100 (ideal)." },
+          reason: { type: Type.STRING, description: "One short sentence explaining the score." },
+        },
+        required: ["score", "reason"],
+      },
+    },
+  };
+};
+
+const buildGeocodeRequest = ({ query, strict }: ProxyRequests['geocode']): GenerateContentParameters => {
+  const contents = `Resolve the location "${query}" to geographic coordinates. It may be a city, region, postal code or street address. If it could refer to more than one place, list up to 5 of the most likely candidates, most likely first. If it does not match any real place, return an empty list.`;
+  return {
+    model: MODEL,
+    contents: strict ? contents + STRICT_JSON_INSTRUCTION : contents,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          places: {
+            type: Type.ARRAY,
+            description: "Candidate places matching the location, most likely first.",
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                label: { type: Type.STRING, description: "The full name of the place, including state or region and country." },
+                latitude: { type: Type.NUMBER, description: "The latitude of the place's center." },
+                longitude: { type: Type.NUMBER, description: "The longitude of the place's center." },
+              },
+              required: ["label", "latitude", "longitude"],
+            },
+          },
+        },
+        required: ["places"],
+      },
+    },
+  };
+};
+
+/** The Gemini request for a proxy request. Prompts live here so the browser can't send arbitrary ones. */
+export const buildModelRequest = (request: ProxyRequest): GenerateContentParameters => {
+  switch (request.operation) {
+    case 'search': return buildSearchRequest(request);
+    case 'details': return buildDetailsRequest(request);
+    case 'pitch': return buildPitchRequest(request);
+    case 'fit': return buildFitRequest(request);
+    case 'geocode': return buildGeocodeRequest(request);
+  }
+};
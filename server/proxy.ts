@@ -0,0 +1,403 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { Business, BusinessDetails, LocationCoords, SenderProfile } from '../types';
+import { MAX_HOURS_LINES, MAX_TEXT_LENGTH, PROXY_BASE_PATH, PROXY_OPERATIONS, ProxyErrorPayload, ProxyEvent, ProxyOperation, ProxyRequest, ProxyUsage } from '../services/proxyApi';
+import { ServiceError, ServiceErrorKind, toErrorPayload, toServiceError } from '../services/errors';
+import { ModelBackend, createGeminiBackend } from './backend';
+import { createStubBackend } from './stubBackend';
+import { RateLimitOptions, createRateLimiter } from './rateLimit';
+import { DailyBudgetOptions, createDailyBudget } from './dailyBudget';
+import { PITCH_PURPOSES, PITCH_TONES } from '../services/pitch';
+import { DEFAULT_USAGE_BUDGET } from '../services/usage';
+
+export interface ProxyOptions {
+  backend: ModelBackend;
+  rateLimit: RateLimitOptions;
+  /** Identify clients by X-Forwarded-For; only safe behind a reverse proxy that sets it. */
+  trustForwardedFor?: boolean;
+  /** Origins other than the proxy's own that may call it, e.g. when the app is served from another host. */
+  allowedOrigins?: string[];
+  /** Refuse calls once the estimated spend of all clients today reaches this; none when unset. */
+  dailyBudget?: DailyBudgetOptions;
+  log?: (line: string) => void;
+}
+
+type Env = Record<string, string | undefined>;
+
+const readNumber = (value: string | undefined, fallback: number): number => {
+  const number = Number(value);
+  return value?.trim() && Number.isFinite(number) && number > 0 ? number : fallback;
+};
+
+/**
+ * Reads the proxy's settings from environment variables:
+ * GEMINI_API_KEY, PROXY_BACKEND ("gemini" or "stub"), PROXY_RATE_LIMIT_PER_MINUTE,
+ * PROXY_RATE_LIMIT_BURST, PROXY_TRUST_FORWARDED_FOR, PROXY_ALLOWED_ORIGINS
+ * (comma-separated), PROXY_DAILY_BUDGET_USD, PROXY_INPUT_USD_PER_MILLION_TOKENS
+ * and PROXY_OUTPUT_USD_PER_MILLION_TOKENS.
+ */
+export const readProxyOptions = (env: Env): ProxyOptions => ({
+  backend: env.PROXY_BACKEND?.trim().toLowerCase() === 'stub' ? createStubBackend() : createGeminiBackend(env.GEMINI_API_KEY?.trim() || undefined),
+  rateLimit: {
+    requestsPerMinute: readNumber(env.PROXY_RATE_LIMIT_PER_MINUTE, 30),
+    burst: readNumber(env.PROXY_RATE_LIMIT_BURST, 10),
+  },
+  trustForwardedFor: env.PROXY_TRUST_FORWARDED_FOR === 'true',
+  allowedOrigins: env.PROXY_ALLOWED_ORIGINS?.split(',').map(origin => origin.trim()).filter(Boolean) ?? [],
+  dailyBudget: env.PROXY_DAILY_BUDGET_USD?.trim()
+    ? {
+      hardDailyUsd: readNumber(env.PROXY_DAILY_BUDGET_USD, 0),
+      inputUsdPerMillionTokens: readNumber(env.PROXY_INPUT_USD_PER_MILLION_TOKENS, DEFAULT_USAGE_BUDGET.inputUsdPerMillionTokens),
+      outputUsdPerMillionTokens: readNumber(env.PROXY_OUTPUT_USD_PER_MILLION_TOKENS, DEFAULT_USAGE_BUDGET.outputUsdPerMillionTokens),
+    }
+    : undefined,
+});
+
+// Requests carry at most a few hundred excluded businesses or a lead's details.
+const MAX_BODY_BYTES = 256 * 1024;
+// Every piece of text that ends up in a prompt is capped (see MAX_TEXT_LENGTH), and requests
+// are rebuilt from the checked fields only, so the proxy can't be used for arbitrary prompts.
+const MAX_RADIUS_KM = 1000;
+
+class BadRequestError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'BadRequestError';
+    this.status = status;
+  }
+}
+
+const STATUS_BY_KIND: Record<ServiceErrorKind, number> = {
+  'missing-api-key': 503,
+  'rate-limited': 429,
+  'network': 502,
+  'safety-blocked': 422,
+  'unparseable-response': 502,
+  'no-location': 400,
+  'location-not-found': 404,
+  // The browser went away, so nobody reads this; 499 is the usual "client closed request".
+  'aborted': 499,
+  'budget-exceeded': 429,
+  'unknown': 500,
+};
+
+// Worded to complete "Failed to ...", as in the browser's own messages.
+const OPERATION_DESCRIPTIONS: Record<ProxyOperation, string> = {
+  search: 'find businesses',
+  details: 'get business details',
+  pitch: 'generate pitch',
+  fit: 'rate lead fit',
+  geocode: 'look up the location',
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Each reader checks one field and returns it, or throws a 400 naming the field.
+
+const invalid = (field: string): never => {
+  throw new BadRequestError(`Invalid request: "${field}" is missing or malformed.`);
+};
+
+const readRecord = (value: unknown, field: string): Record<string, unknown> =>
+  isRecord(value) ? value : invalid(field);
+
+/** A string of at most MAX_TEXT_LENGTH characters; `required` also rejects blank text. */
+const readText = (value: unknown, field: string, required = false): string =>
+  typeof value === 'string' && value.length <= MAX_TEXT_LENGTH && (!required || value.trim() !== '') ? value : invalid(field);
+
+const readOptionalText = (value: unknown, field: string): string | undefined =>
+  value === undefined ? undefined : readText(value, field);
+
+const readOneOf = <T extends string>(value: unknown, options: readonly T[], field: string): T =>
+  options.includes(value as T) ? value as T : invalid(field);
+
+const readOptionalFlag = (value: unknown, field: string): boolean | undefined =>
+  typeof value === 'boolean' ? value : value === undefined ? undefined : invalid(field);
+
+const readOptionalRadius = (value: unknown, field: string): number | undefined =>
+  value === undefined ? undefined : typeof value === 'number' && value > 0 && value <= MAX_RADIUS_KM ? value : invalid(field);
+
+const readCoords = (value: unknown, field: string): LocationCoords => {
+  const coords = readRecord(value, field);
+  const { latitude, longitude } = coords;
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude) || Math.abs(latitude as number) > 90 || Math.abs(longitude as number) > 180) {
+    return invalid(field);
+  }
+  return { latitude: latitude as number, longitude: longitude as number };
+};
+
+const readSender = (value: unknown, field: string): SenderProfile => {
+  const sender = readRecord(value, field);
+  return {
+    name: readText(sender.name, `${field}.name`),
+    company: readText(sender.company, `${field}.company`),
+    offering: readText(sender.offering, `${field}.offering`),
+    signature: readText(sender.signature, `${field}.signature`),
+  };
+};
+
+const readDetails = (value: unknown, field: string): BusinessDetails | undefined => {
+  if (value === undefined) return undefined;
+  const details = readRecord(value, field);
+  const hours = details.hours;
+  if (hours !== undefined && (!Array.isArray(hours) || hours.length > MAX_HOURS_LINES)) invalid(`${field}.hours`);
+  return {
+    address: readOptionalText(details.address, `${field}.address`),
+    phone: readOptionalText(details.phone, `${field}.phone`),
+    website: readOptionalText(details.website, `${field}.website`),
+    hours: (hours as unknown[] | undefined)?.map((line, i) => readText(line, `${field}.hours[${i}]`)),
+  };
+};
+
+const readBusinessRef = (value: unknown, field: string): Pick<Business, 'placeId' | 'title'> => {
+  const business = readRecord(value, field);
+  return { placeId: readText(business.placeId, `${field}.placeId`, true), title: readText(business.title, `${field}.title`, true) };
+};
+
+/** Checks every field of a request body that can reach a prompt, and drops the rest. */
+const parseProxyRequest = (operation: ProxyOperation, value: unknown): ProxyRequest => {
+  if (!isRecord(value)) throw new BadRequestError('The request body must be a JSON object.');
+  const body = value;
+  const strict = readOptionalFlag(body.strict, 'strict');
+  switch (operation) {
+    case 'search': {
+      const { exclude } = body;
+      if (exclude !== undefined && !Array.isArray(exclude)) invalid('exclude');
+      return {
+        operation,
+        category: readText(body.category, 'category', true),
+        location: body.location === null ? null : readCoords(body.location, 'location'),
+        manualLocation: readOptionalText(body.manualLocation, 'manualLocation'),
+        exclude: (exclude as unknown[] | undefined)?.map((item, i) => readBusinessRef(item, `exclude[${i}]`)),
+        radiusKm: readOptionalRadius(body.radiusKm, 'radiusKm'),
+        strict,
+      };
+    }
+    case 'details': {
+      const lookup = body.lookup === undefined ? undefined : readRecord(body.lookup, 'lookup');
+      return {
+        operation,
+        placeId: readText(body.placeId, 'placeId', true),
+        lookup: lookup && { query: readText(lookup.query, 'lookup.query', true) },
+        strict,
+      };
+    }
+    case 'pitch': {
+      const request = readRecord(body.request, 'request');
+      return {
+        operation,
+        request: {
+          businessName: readText(request.businessName, 'request.businessName', true),
+          businessCategory: readText(request.businessCategory, 'request.businessCategory'),
+          purpose: readOneOf(request.purpose, PITCH_PURPOSES.map(({ value }) => value), 'request.purpose'),
+          tone: readOneOf(request.tone, PITCH_TONES.map(({ value }) => value), 'request.tone'),
+          language: readText(request.language, 'request.language'),
+          sender: request.sender === undefined ? undefined : readSender(request.sender, 'request.sender'),
+          details: readDetails(request.details, 'request.details'),
+        },
+        strict,
+      };
+    }
+    case 'fit':
+      return {
+        operation,
+        business: { ...readBusinessRef(body.business, 'business'), uri: '' },
+        sender: readSender(body.sender, 'sender'),
+        details: readDetails(body.details, 'details'),
+        strict,
+      };
+    case 'geocode':
+      return { operation, query: readText(body.query, 'query', true), strict };
+  }
+};
+
+const readBody = (req: IncomingMessage): Promise<unknown> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new BadRequestError('The request body is too large.', 413));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+    } catch {
+      reject(new BadRequestError('The request body is not valid JSON.'));
+    }
+  });
+  req.on('error', reject);
+});
+
+/**
+ * Rejects requests made by other sites' pages, which would otherwise spend the
+ * key through the user's browser. Requests without browser headers (curl,
+ * scripts) carry no ambient credentials and are let through.
+ */
+const isAllowedOrigin = (req: IncomingMessage, allowedOrigins: string[]): boolean => {
+  const origin = req.headers.origin;
+  const fetchSite = req.headers['sec-fetch-site'];
+  if (origin && allowedOrigins.includes(origin)) return true;
+  if (fetchSite && fetchSite !== 'same-origin' && fetchSite !== 'none') return false;
+  if (!origin) return true;
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+};
+
+// Only JSON bodies are accepted: a cross-origin page can't send that Content-Type without a CORS preflight.
+const isJsonRequest = (req: IncomingMessage) =>
+  req.headers['content-type']?.split(';')[0].trim().toLowerCase() === 'application/json';
+
+const getClientId = (req: IncomingMessage, trustForwardedFor: boolean): string => {
+  const forwarded = trustForwardedFor ? req.headers['x-forwarded-for'] : undefined;
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+  return first || req.socket.remoteAddress || 'unknown';
+};
+
+const sendError = (res: ServerResponse, status: number, error: ProxyErrorPayload, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify({ error }));
+};
+
+const writeEvent = (res: ServerResponse, event: ProxyEvent) => {
+  res.write(`${JSON.stringify(event)}\n`);
+};
+
+/**
+ * Handles `POST /api/<operation>` by streaming the backend's answer back as
+ * newline-delimited JSON. Other paths are passed to `next`, so this works as
+ * Vite/Connect middleware as well as a plain Node request handler.
+ *
+ * Errors before the answer starts are sent with an HTTP status, so the browser
+ * can retry them; errors after that arrive as an `error` event.
+ */
+export const createProxyHandler = ({ backend, rateLimit, trustForwardedFor = false, allowedOrigins = [], dailyBudget, log = console.log }: ProxyOptions) => {
+  const limiter = createRateLimiter(rateLimit);
+  const budget = dailyBudget && createDailyBudget(dailyBudget);
+
+  return async (req: IncomingMessage, res: ServerResponse, next?: () => void | Promise<void>) => {
+    let pathname: string;
+    try {
+      ({ pathname } = new URL(req.url ?? '/', 'http://localhost'));
+    } catch {
+      sendError(res, 400, { kind: 'unknown', message: 'The request URL is malformed.', retryable: false });
+      return;
+    }
+    if (!pathname.startsWith(`${PROXY_BASE_PATH}/`)) {
+      if (!next) {
+        res.writeHead(404).end();
+        return;
+      }
+      // `next` may be an async handler; a rejection must not take the server down.
+      try {
+        await next();
+      } catch (error) {
+        console.error(`Failed to handle ${req.method} ${pathname}`, error);
+        if (!res.headersSent) res.writeHead(500);
+        res.end();
+      }
+      return;
+    }
+
+    const startedAt = Date.now();
+    const client = getClientId(req, trustForwardedFor);
+    let errorKind: string | undefined;
+    const controller = new AbortController();
+    // The browser went away (e.g. the user pressed Stop), so stop asking the model.
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+      const status = res.headersSent ? res.statusCode : STATUS_BY_KIND.aborted;
+      log(`[api] ${new Date(startedAt).toISOString()} ${client} ${req.method} ${pathname} ${status} ${Date.now() - startedAt}ms ${backend.name}` +
+        (errorKind ? ` error=${errorKind}` : '') + (controller.signal.aborted ? ' aborted' : ''));
+    });
+
+    const operation = pathname.slice(PROXY_BASE_PATH.length + 1) as ProxyOperation;
+    if (!PROXY_OPERATIONS.includes(operation)) {
+      errorKind = 'not-found';
+      sendError(res, 404, { kind: 'unknown', message: `Unknown API endpoint ${pathname}.`, retryable: false });
+      return;
+    }
+    if (req.method !== 'POST') {
+      errorKind = 'method';
+      sendError(res, 405, { kind: 'unknown', message: 'Use POST.', retryable: false }, { Allow: 'POST' });
+      return;
+    }
+    if (!isAllowedOrigin(req, allowedOrigins)) {
+      errorKind = 'forbidden-origin';
+      sendError(res, 403, { kind: 'unknown', message: 'Requests from other sites are not allowed.', retryable: false });
+      return;
+    }
+    if (!isJsonRequest(req)) {
+      errorKind = 'content-type';
+      sendError(res, 415, { kind: 'unknown', message: 'Send the request body as application/json.', retryable: false });
+      return;
+    }
+    const decision = limiter.take(client);
+    if (!decision.allowed) {
+      errorKind = 'rate-limited';
+      sendError(res, 429, {
+        kind: 'rate-limited',
+        message: 'Too many requests to the API proxy. Please wait a moment.',
+        retryable: true,
+        retryAfterMs: decision.retryAfterMs,
+      }, { 'Retry-After': String(Math.ceil(decision.retryAfterMs / 1000)) });
+      return;
+    }
+    if (budget?.isExceeded()) {
+      errorKind = 'budget-exceeded';
+      sendError(res, STATUS_BY_KIND['budget-exceeded'], {
+        kind: 'budget-exceeded',
+        message: 'The API proxy has reached its daily budget. Try again tomorrow.',
+        retryable: false,
+      });
+      return;
+    }
+
+    let started = false;
+    let usage: ProxyUsage | undefined;
+    try {
+      const request = parseProxyRequest(operation, await readBody(req));
+      const chunks = backend.stream(request, controller.signal)[Symbol.asyncIterator]();
+      // Wait for the first chunk, so failures to start are reported with a status.
+      let result = await chunks.next();
+      if (!result.done) usage = result.value.usage;
+      if (controller.signal.aborted) return;
+      res.writeHead(200, { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-store' });
+      started = true;
+      while (!result.done) {
+        usage = result.value.usage ?? usage;
+        writeEvent(res, { chunk: result.value });
+        result = await chunks.next();
+      }
+      res.end();
+    } catch (raw) {
+      if (controller.signal.aborted) return;
+      if (raw instanceof BadRequestError) {
+        errorKind = 'bad-request';
+        sendError(res, raw.status, { kind: 'unknown', message: raw.message, retryable: false });
+        return;
+      }
+      const error: ServiceError = toServiceError(raw, OPERATION_DESCRIPTIONS[operation]);
+      errorKind = error.kind;
+      if (started) {
+        writeEvent(res, { error: toErrorPayload(error) });
+        res.end();
+      } else {
+        const status = error.kind === 'unknown' && error.retryable ? 502 : STATUS_BY_KIND[error.kind];
+        sendError(res, status, toErrorPayload(error));
+      }
+    } finally {
+      // The last usage seen covers the whole call, however it ended.
+      if (usage) budget?.record(usage);
+    }
+  };
+};
@@ -0,0 +1,58 @@
+export interface RateLimitOptions {
+  /** Sustained rate allowed per client. */
+  requestsPerMinute: number;
+  /** Requests a client can make at once before the rate applies. */
+  burst: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  /** How long until the client may try again; 0 when allowed. */
+  retryAfterMs: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Idle clients' buckets are dropped once there are this many.
+const MAX_TRACKED_CLIENTS = 10000;
+
+/**
+ * A token bucket per client: each client can make `burst` requests at once,
+ * refilled at `requestsPerMinute`.
+ */
+export const createRateLimiter = ({ requestsPerMinute, burst }: RateLimitOptions) => {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = requestsPerMinute / 60000;
+
+  const refill = (bucket: Bucket, now: number) => {
+    bucket.tokens = Math.min(burst, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+  };
+
+  const prune = (now: number) => {
+    for (const [client, bucket] of buckets) {
+      refill(bucket, now);
+      if (bucket.tokens >= burst) buckets.delete(client);
+    }
+  };
+
+  return {
+    take: (client: string, now = Date.now()): RateLimitDecision => {
+      let bucket = buckets.get(client);
+      if (!bucket) {
+        if (buckets.size >= MAX_TRACKED_CLIENTS) prune(now);
+        bucket = { tokens: burst, updatedAt: now };
+        buckets.set(client, bucket);
+      }
+      refill(bucket, now);
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return { allowed: true, retryAfterMs: 0 };
+      }
+      return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs) };
+    },
+  };
+};
@@ -0,0 +1,60 @@
+import { GroundingChunk } from '../types';
+import { ProxyChunk, ProxyRequest } from '../services/proxyApi';
+import { fixtureProvider } from '../services/fixtureProvider';
+import { ModelBackend } from './backend';
+
+// Answers are split into this many pieces so the browser's streaming code is exercised.
+const STREAM_PIECES = 4;
+
+// Roughly how many characters make a token, for the stub's made-up usage figures.
+const CHARS_PER_TOKEN = 4;
+
+const splitText = (text: string): string[] => {
+  const size = Math.ceil(text.length / STREAM_PIECES) || 1;
+  return Array.from({ length: Math.ceil(text.length / size) }, (_, i) => text.slice(i * size, (i + 1) * size));
+};
+
+/** Writes the fixture provider's answer the way the model would, as text and grounding sources. */
+const answer = async (request: ProxyRequest, signal: AbortSignal): Promise<ProxyChunk> => {
+  switch (request.operation) {
+    case 'search': {
+      const { businesses } = await fixtureProvider.findNearbyBusinesses(request.category, request.location, request.manualLocation, { exclude: request.exclude, radiusKm: request.radiusKm, signal });
+      const groundingChunks: GroundingChunk[] = businesses.map(({ title, placeId, uri }) => ({ maps: { title, placeId, uri } }));
+      const listed = businesses.map(({ title, placeId, latitude, longitude }) => ({ title, placeId, latitude, longitude }));
+      return { text: JSON.stringify({ businesses: listed }), groundingChunks };
+    }
+    case 'details':
+      return { text: JSON.stringify(await fixtureProvider.getBusinessDetails(request.placeId, request.lookup, { signal })), groundingChunks: [] };
+    case 'pitch': {
+      const { subject, body } = await fixtureProvider.generateContactPitch(request.request, { signal });
+      return { text: `Subject: ${subject}\n\n${body}`, groundingChunks: [] };
+    }
+    case 'fit':
+      return { text: JSON.stringify(await fixtureProvider.rateLeadFit(request.business, request.sender, request.details, { signal })), groundingChunks: [] };
+    case 'geocode':
+      return { text: JSON.stringify({ places: await fixtureProvider.geocodeLocation(request.query, { signal }) }), groundingChunks: [] };
+  }
+};
+
+/**
+ * A backend that replays the recorded demo data in `fixtures/demo.json`, so the
+ * proxy can be run and tested without a Gemini key or network access.
+ */
+export const createStubBackend = (): ModelBackend => ({
+  name: 'stub',
+  async *stream(request, signal) {
+    const { text, groundingChunks } = await answer(request, signal);
+    const pieces = splitText(text);
+    const inputTokens = Math.ceil(JSON.stringify(request).length / CHARS_PER_TOKEN);
+    for (const [index, piece] of pieces.entries()) {
+      if (signal.aborted) return;
+      const isLast = index === pieces.length - 1;
+      // Grounding sources come with the last piece, as they do from Gemini.
+      yield {
+        text: piece,
+        groundingChunks: isLast ? groundingChunks : [],
+        usage: { inputTokens, outputTokens: Math.ceil(pieces.slice(0, index + 1).join('').length / CHARS_PER_TOKEN) },
+      };
+    }
+  },
+});
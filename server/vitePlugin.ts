@@ -0,0 +1,13 @@
+import type { Plugin } from 'vite';
+import { createProxyHandler, readProxyOptions } from './proxy';
+
+/** Serves the API proxy from `vite` and `vite preview`, so the dev setup needs no second process. */
+export const apiProxyPlugin = (env: Record<string, string | undefined>): Plugin => ({
+  name: 'api-proxy',
+  configureServer(server) {
+    server.middlewares.use(createProxyHandler(readProxyOptions(env)));
+  },
+  configurePreviewServer(server) {
+    server.middlewares.use(createProxyHandler(readProxyOptions(env)));
+  },
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_SWEEP_SEARCHES, SWEEP_TOO_LARGE_ERROR, countSweepTiles, isSweepTooLarge, parseCoordinatePair, parseSweepInput, planSweepTiles, toSweepInput } from './areaSweep';
+import { getDistance } from '../utils/geo';
+
+const location = { latitude: 40, longitude: -75 };
+
+describe('planSweepTiles', () => {
+  it('covers a circle with tiles numbered from the north-west corner', () => {
+    const tiles = planSweepTiles({ location, radiusKm: 5, sweep: { tileKm: 5 } });
+    expect(tiles.map(tile => tile.id)).toEqual(['0:0', '0:1', '1:0', '1:1']);
+    expect(tiles[0].center.latitude).toBeGreaterThan(location.latitude);
+    expect(tiles[0].center.longitude).toBeLessThan(location.longitude);
+    // Each tile's search radius reaches its corners.
+    expect(tiles[0].radiusKm).toBeCloseTo(5 * Math.SQRT2 / 2);
+  });
+
+  it('leaves out tiles entirely outside the circle', () => {
+    const tiles = planSweepTiles({ location, radiusKm: 10, sweep: { tileKm: 2 } });
+    expect(tiles.length).toBeLessThan(100);
+    expect(tiles.some(tile => tile.id === '0:0')).toBe(false);
+    tiles.forEach(tile => expect(getDistance(location, tile.center)).toBeLessThan(10 + tile.radiusKm));
+  });
+
+  it('covers a bounding box instead of the circle when one is given', () => {
+    const bounds = { south: 40, west: -75, north: 40.09, east: -74.9 };
+    const tiles = planSweepTiles({ location: null, radiusKm: 1, sweep: { tileKm: 5, bounds } });
+    expect(tiles).toHaveLength(6);
+  });
+
+  it('refuses areas with too many tiles', () => {
+    expect(() => planSweepTiles({ location, radiusKm: 50, sweep: { tileKm: 2 } })).toThrow(SWEEP_TOO_LARGE_ERROR);
+    expect(planSweepTiles({ location: null, radiusKm: 5, sweep: { tileKm: 5 } })).toEqual([]);
+  });
+});
+
+describe('countSweepTiles', () => {
+  it('matches the planned tiles, wherever the circle is', () => {
+    const sweep = { tileKm: 2 };
+    expect(countSweepTiles(10, sweep)).toBe(planSweepTiles({ location, radiusKm: 10, sweep }).length);
+  });
+
+  it('only knows a huge area is too large', () => {
+    expect(countSweepTiles(500, { tileKm: 2 })).toBeGreaterThan(MAX_SWEEP_SEARCHES);
+  });
+});
+
+describe('isSweepTooLarge', () => {
+  it('counts one search per tile for each category', () => {
+    const tiles = countSweepTiles(10, { tileKm: 5 });
+    expect(isSweepTooLarge(10, { tileKm: 5 }, Math.floor(MAX_SWEEP_SEARCHES / tiles))).toBe(false);
+    expect(isSweepTooLarge(10, { tileKm: 5 }, Math.floor(MAX_SWEEP_SEARCHES / tiles) + 1)).toBe(true);
+  });
+});
+
+describe('parseSweepInput', () => {
+  it('reads corners typed in either order', () => {
+    expect(parseSweepInput({ tileKm: 5, useBounds: true, southWest: '40.1, -74.9', northEast: '40 -75' })).toEqual({
+      sweep: { tileKm: 5, bounds: { south: 40, west: -75, north: 40.1, east: -74.9 } },
+    });
+  });
+
+  it('rejects missing, out-of-range or flat boxes', () => {
+    expect(parseSweepInput({ tileKm: 5, useBounds: true, southWest: '', northEast: '40, -75' })).toHaveProperty('error');
+    expect(parseCoordinatePair('91, 10')).toBeNull();
+    expect(parseSweepInput({ tileKm: 5, useBounds: true, southWest: '40, -75', northEast: '40, -74' })).toHaveProperty('error');
+  });
+
+  it('round-trips through the search bar inputs', () => {
+    const sweep = { tileKm: 10, bounds: { south: 1, west: 2, north: 3, east: 4 } };
+    expect(parseSweepInput(toSweepInput(sweep))).toEqual({ sweep });
+  });
+});
@@ -0,0 +1,258 @@
+import { AreaSweep, Business, GeoBounds, LocationCoords } from '../types';
+import { SearchParams } from './savedSearches';
+import { mergeCategorizedBusiness, searchCategories } from './categorySearch';
+import { wait } from './errors';
+import { getDistance, offsetByKm, projectToKm } from '../utils/geo';
+
+export const SWEEP_TILE_SIZES_KM = [2, 5, 10, 20];
+export const DEFAULT_SWEEP_TILE_KM = 5;
+
+/** A sweep is refused above this many searches: one per tile for each category. */
+export const MAX_SWEEP_SEARCHES = 100;
+
+export const SWEEP_PACE_OPTIONS = [
+  { label: 'As fast as possible', delayMs: 0 },
+  { label: 'One tile every 2 s', delayMs: 2000 },
+  { label: 'One tile every 5 s', delayMs: 5000 },
+];
+export const DEFAULT_SWEEP_PACE_MS = 2000;
+
+export interface SweepTile {
+  /** "row:col", counted from the north-west corner. */
+  id: string;
+  row: number;
+  col: number;
+  center: LocationCoords;
+  /** Searched within this distance of `center`; covers the whole square tile. */
+  radiusKm: number;
+}
+
+export type SweepTileStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface SweepTileProgress extends SweepTile {
+  status: SweepTileStatus;
+  /** Businesses this tile's search returned. */
+  found: number;
+  /** Of those, how many no earlier tile had found. */
+  newCount: number;
+  error?: string;
+}
+
+export interface AreaSweepResult {
+  businesses: Business[];
+  discardedCount: number;
+  /** True when the sweep was stopped before every tile was searched. */
+  stopped: boolean;
+  tiles: SweepTileProgress[];
+}
+
+export interface AreaSweepOptions {
+  /** Wait between the end of one tile and the start of the next. */
+  delayMs?: number;
+  signal?: AbortSignal;
+  /** Place IDs already listed, so tiles don't count them as new. */
+  knownPlaceIds?: Set<string>;
+  onTileUpdate?: (tile: SweepTileProgress) => void;
+  onBusiness?: (business: Business) => void;
+}
+
+export const createTileProgress = (tile: SweepTile): SweepTileProgress => ({ ...tile, status: 'pending', found: 0, newCount: 0 });
+
+/** The sweep settings as entered in the search bar; corners are typed as "lat, lng". */
+export interface SweepInput {
+  tileKm: number;
+  useBounds: boolean;
+  southWest: string;
+  northEast: string;
+}
+
+export const DEFAULT_SWEEP_INPUT: SweepInput = { tileKm: DEFAULT_SWEEP_TILE_KM, useBounds: false, southWest: '', northEast: '' };
+
+/** Reads "lat, lng" typed by the user. */
+export const parseCoordinatePair = (text: string): LocationCoords | null => {
+  const match = text.trim().match(/^(-?\d+(?:\.\d+)?)\s*[,\s]\s*(-?\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+  const latitude = Number(match[1]);
+  const longitude = Number(match[2]);
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return { latitude, longitude };
+};
+
+/** The box with `a` and `b` as opposite corners. */
+export const boundsFromCorners = (a: LocationCoords, b: LocationCoords): GeoBounds => ({
+  south: Math.min(a.latitude, b.latitude),
+  west: Math.min(a.longitude, b.longitude),
+  north: Math.max(a.latitude, b.latitude),
+  east: Math.max(a.longitude, b.longitude),
+});
+
+export const isInBounds = (bounds: GeoBounds, point: LocationCoords): boolean =>
+  point.latitude >= bounds.south && point.latitude <= bounds.north &&
+  point.longitude >= bounds.west && point.longitude <= bounds.east;
+
+export const parseSweepInput = (input: SweepInput): { sweep: AreaSweep } | { error: string } => {
+  if (!input.useBounds) return { sweep: { tileKm: input.tileKm } };
+  const southWest = parseCoordinatePair(input.southWest);
+  const northEast = parseCoordinatePair(input.northEast);
+  if (!southWest || !northEast) {
+    return { error: 'Enter both corners of the area to sweep as "latitude, longitude".' };
+  }
+  const bounds = boundsFromCorners(southWest, northEast);
+  if (bounds.south === bounds.north || bounds.west === bounds.east) {
+    return { error: 'The corners of the area to sweep must differ in both latitude and longitude.' };
+  }
+  return { sweep: { tileKm: input.tileKm, bounds } };
+};
+
+export const toSweepInput = ({ tileKm, bounds }: AreaSweep): SweepInput => ({
+  tileKm,
+  useBounds: !!bounds,
+  southWest: bounds ? `${bounds.south}, ${bounds.west}` : '',
+  northEast: bounds ? `${bounds.north}, ${bounds.east}` : '',
+});
+
+/** The center of `bounds` and the radius of the circle around it that contains the box. */
+export const getBoundsCircle = (bounds: GeoBounds): { center: LocationCoords; radiusKm: number } => {
+  const center = { latitude: (bounds.south + bounds.north) / 2, longitude: (bounds.west + bounds.east) / 2 };
+  return { center, radiusKm: Math.ceil(getDistance(center, { latitude: bounds.north, longitude: bounds.east })) };
+};
+
+type SweepArea = Pick<SearchParams, 'location' | 'radiusKm'> & { sweep: AreaSweep };
+
+// A circle covers at least a quarter of the grid around it once the grid has more
+// than a few cells, so a grid this large always has too many tiles and isn't planned.
+const MAX_SWEEP_GRID_CELLS = MAX_SWEEP_SEARCHES * 4;
+
+interface SweepGrid {
+  center: LocationCoords;
+  cols: number;
+  rows: number;
+  /** Offsets in km from `center` of the grid's west and north edges. */
+  left: number;
+  top: number;
+}
+
+/** The grid of tiles over the sweep area's bounding box. */
+const getSweepGrid = ({ location, radiusKm, sweep: { tileKm, bounds } }: SweepArea): SweepGrid | null => {
+  const center = bounds ? getBoundsCircle(bounds).center : location;
+  if (!center || !(tileKm > 0)) return null;
+
+  // The area as a box in km around the center.
+  const { x: west, y: south } = bounds ? projectToKm(center, { latitude: bounds.south, longitude: bounds.west }) : { x: -radiusKm, y: -radiusKm };
+  const { x: east, y: north } = bounds ? projectToKm(center, { latitude: bounds.north, longitude: bounds.east }) : { x: radiusKm, y: radiusKm };
+  const cols = Math.max(1, Math.ceil((east - west) / tileKm));
+  const rows = Math.max(1, Math.ceil((north - south) / tileKm));
+  // Tiles are centered on the area, so any overhang is split evenly.
+  const left = (west + east) / 2 - (cols * tileKm) / 2;
+  const top = (south + north) / 2 + (rows * tileKm) / 2;
+  return { center, cols, rows, left, top };
+};
+
+/** Every tile of `grid` that overlaps the sweep area. */
+const layOutTiles = ({ center, cols, rows, left, top }: SweepGrid, { radiusKm, sweep: { tileKm, bounds } }: SweepArea): SweepTile[] => {
+  const tiles: SweepTile[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const x = left + (col + 0.5) * tileKm;
+      const y = top - (row + 0.5) * tileKm;
+      if (!bounds) {
+        // Distance from the circle's center to the nearest point of the tile.
+        const dx = Math.max(Math.abs(x) - tileKm / 2, 0);
+        const dy = Math.max(Math.abs(y) - tileKm / 2, 0);
+        if (Math.hypot(dx, dy) > radiusKm) continue;
+      }
+      tiles.push({
+        id: `${row}:${col}`,
+        row,
+        col,
+        center: offsetByKm(center, x, y),
+        radiusKm: (tileKm * Math.SQRT2) / 2,
+      });
+    }
+  }
+  return tiles;
+};
+
+export const SWEEP_TOO_LARGE_ERROR = `This sweep would run more than ${MAX_SWEEP_SEARCHES} searches, one per tile for each category. Use larger tiles, a smaller area or fewer categories.`;
+
+/**
+ * Splits the sweep area into square tiles of `sweep.tileKm`, numbered from the
+ * north-west corner. For a circular area, tiles entirely outside the circle are
+ * left out. Throws when the area has more than `MAX_SWEEP_SEARCHES` tiles.
+ */
+export const planSweepTiles = (area: SweepArea): SweepTile[] => {
+  const grid = getSweepGrid(area);
+  if (!grid) return [];
+  const tiles = grid.rows * grid.cols > MAX_SWEEP_GRID_CELLS ? null : layOutTiles(grid, area);
+  if (!tiles || tiles.length > MAX_SWEEP_SEARCHES) throw new Error(SWEEP_TOO_LARGE_ERROR);
+  return tiles;
+};
+
+/**
+ * How many tiles a sweep would search. Doesn't depend on where a circular area
+ * is centered. Exact up to `MAX_SWEEP_SEARCHES`; above it, only known to be too many.
+ */
+export const countSweepTiles = (radiusKm: number, sweep: AreaSweep): number => {
+  const area = { location: { latitude: 0, longitude: 0 }, radiusKm, sweep };
+  const grid = getSweepGrid(area);
+  if (!grid) return 0;
+  return grid.rows * grid.cols > MAX_SWEEP_GRID_CELLS ? grid.rows * grid.cols : layOutTiles(grid, area).length;
+};
+
+/** Whether a sweep would run more than `MAX_SWEEP_SEARCHES` searches for `categoryCount` categories. */
+export const isSweepTooLarge = (radiusKm: number, sweep: AreaSweep, categoryCount: number): boolean =>
+  countSweepTiles(radiusKm, sweep) * Math.max(categoryCount, 1) > MAX_SWEEP_SEARCHES;
+
+/**
+ * Searches `tiles` one after another for every category, merging the results
+ * into one deduplicated list. A failed tile is recorded and the sweep moves
+ * on; only when no tile succeeds is the first error thrown. Stopping leaves the
+ * remaining tiles pending, so they can be searched later.
+ */
+export const runAreaSweep = async (
+  categories: string[],
+  tiles: SweepTile[],
+  { delayMs = DEFAULT_SWEEP_PACE_MS, signal, knownPlaceIds, onTileUpdate, onBusiness }: AreaSweepOptions = {},
+): Promise<AreaSweepResult> => {
+  const progress = tiles.map(createTileProgress);
+  const seen = new Set(knownPlaceIds);
+  const result: AreaSweepResult = { businesses: [], discardedCount: 0, stopped: false, tiles: progress };
+  let firstError: unknown;
+
+  const update = (index: number, changes: Partial<SweepTileProgress>) => {
+    progress[index] = { ...progress[index], ...changes };
+    onTileUpdate?.(progress[index]);
+  };
+
+  for (let index = 0; index < progress.length; index++) {
+    if (index > 0) await wait(delayMs, signal);
+    if (signal?.aborted) break;
+    update(index, { status: 'running', error: undefined });
+    try {
+      const tile = progress[index];
+      const { businesses, discardedCount, stopped, failures } = await searchCategories(categories, tile.center, undefined, { radiusKm: tile.radiusKm, signal, onBusiness });
+      const newCount = businesses.filter(business => !seen.has(business.placeId)).length;
+      businesses.forEach(business => {
+        seen.add(business.placeId);
+        result.businesses = mergeCategorizedBusiness(result.businesses, business);
+      });
+      result.discardedCount += discardedCount;
+      // A tile cut short by stopping is searched again when the sweep resumes.
+      update(index, {
+        status: stopped ? 'pending' : failures.length > 0 ? 'failed' : 'done',
+        found: businesses.length,
+        newCount,
+        error: failures.length > 0 ? `Failed for ${failures.map(failure => `"${failure.category}"`).join(', ')}` : undefined,
+      });
+    } catch (err) {
+      firstError ??= err;
+      update(index, { status: 'failed', error: err instanceof Error ? err.message : 'The search failed.' });
+    }
+  }
+
+  result.stopped = !!signal?.aborted;
+  if (firstError !== undefined && !progress.some(tile => tile.status === 'done' || tile.found > 0)) {
+    throw firstError;
+  }
+  return { ...result, tiles: progress };
+};
@@ -0,0 +1,199 @@
+import { CachedBusinessDetails } from '../types';
+import { StoreDefinition, isRecord, readStore, toStoredValue, upgradeStoredValue, writeStore } from './storage';
+import {
+  MAX_PITCH_ENTRIES_PER_BUSINESS,
+  favoritesStore,
+  fitRatingsStore,
+  leadScoringStore,
+  pitchHistoryStore,
+  pitchSettingsStore,
+  savedSearchesStore,
+  usageBudgetStore,
+} from './stores';
+import { getAllCachedDetails, importCachedDetails } from './detailsCache';
+
+const BACKUP_FORMAT = 'nearby-business-finder-backup';
+const BACKUP_VERSION = 1;
+
+/** Everything the app persists, as written to a backup file. */
+export interface Backup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  /** Each store's stored value (`{ schemaVersion, data }`), keyed by storage key. */
+  stores: Record<string, unknown>;
+  detailsCache: CachedBusinessDetails[];
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+/**
+ * A store in backups. The closures know the store's data type, so the list of
+ * backed-up stores can mix types. Backup data passed in must come from `upgrade`.
+ */
+interface BackedUpStore {
+  key: string;
+  label: string;
+  /** The current data, as written to storage. */
+  readStored: () => unknown;
+  /** Upgrades the store's value in a backup file to the current schema, throwing if it is unusable. */
+  upgrade: (stored: unknown) => unknown;
+  /** Item counts for the restore preview; omitted for settings. */
+  count?: { current: () => number; incoming: (data: unknown) => number };
+  restore: (incoming: unknown, mode: RestoreMode) => void;
+}
+
+const defineBackedUpStore = <T>(
+  store: StoreDefinition<T>,
+  { merge, count }: {
+    /** Combines current and backed-up data when restoring in merge mode. */
+    merge: (current: T, incoming: T) => T;
+    count?: (data: T) => number;
+  },
+): BackedUpStore => ({
+  key: store.key,
+  label: store.label,
+  readStored: () => toStoredValue(store, readStore(store)),
+  upgrade: stored => upgradeStoredValue(store, stored),
+  count: count && { current: () => count(readStore(store)), incoming: data => count(data as T) },
+  restore: (incoming, mode) => writeStore(store, mode === 'replace' ? incoming as T : merge(readStore(store), incoming as T)),
+});
+
+/** Combines lists by id, keeping the newer of two items with the same id. */
+const mergeById = <T>(current: T[], incoming: T[], id: (item: T) => string, updatedAt: (item: T) => number): T[] => {
+  const byId = new Map(current.map(item => [id(item), item]));
+  for (const item of incoming) {
+    const existing = byId.get(id(item));
+    if (!existing || updatedAt(item) > updatedAt(existing)) byId.set(id(item), item);
+  }
+  return Array.from(byId.values());
+};
+
+const BACKED_UP_STORES: BackedUpStore[] = [
+  defineBackedUpStore(favoritesStore, {
+    count: data => data.length,
+    merge: (current, incoming) => mergeById(current, incoming, fav => fav.placeId, fav => fav.lead.updatedAt),
+  }),
+  defineBackedUpStore(savedSearchesStore, {
+    count: data => data.length,
+    merge: (current, incoming) => mergeById(current, incoming, search => search.id, search => search.lastRunAt ?? search.createdAt),
+  }),
+  defineBackedUpStore(pitchHistoryStore, {
+    count: data => Object.values(data).reduce((sum, entries) => sum + entries.length, 0),
+    merge: (current, incoming) => {
+      const merged = { ...current };
+      for (const [placeId, entries] of Object.entries(incoming)) {
+        merged[placeId] = mergeById(merged[placeId] ?? [], entries, entry => entry.id, entry => entry.createdAt)
+          .sort((a, b) => b.createdAt - a.createdAt)
+          .slice(0, MAX_PITCH_ENTRIES_PER_BUSINESS);
+      }
+      return merged;
+    },
+  }),
+  defineBackedUpStore(fitRatingsStore, {
+    count: data => Object.keys(data).length,
+    merge: (current, incoming) => {
+      const merged = { ...current };
+      for (const [placeId, rating] of Object.entries(incoming)) {
+        if (!merged[placeId] || rating.ratedAt > merged[placeId].ratedAt) merged[placeId] = rating;
+      }
+      return merged;
+    },
+  }),
+  // Merging keeps the current settings; replacing takes the backup's.
+  defineBackedUpStore(pitchSettingsStore, { merge: current => current }),
+  defineBackedUpStore(leadScoringStore, { merge: current => current }),
+  defineBackedUpStore(usageBudgetStore, { merge: current => current }),
+];
+
+export const createBackup = async (): Promise<Backup> => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: new Date().toISOString(),
+  stores: Object.fromEntries(BACKED_UP_STORES.map(({ key, readStored }) => [key, readStored()])),
+  detailsCache: await getAllCachedDetails(),
+});
+
+/** A backup file that has been read and upgraded to the current store schemas. */
+export interface ParsedBackup {
+  exportedAt: string;
+  stores: Map<string, unknown>;
+  /** Stores present in the file that couldn't be read, with the reason. */
+  errors: Map<string, string>;
+  detailsCache: CachedBusinessDetails[];
+}
+
+/** Reads a backup file, throwing if it isn't one. Stores in it are migrated like stored data. */
+export const parseBackup = (text: string): ParsedBackup => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!isRecord(parsed) || parsed.format !== BACKUP_FORMAT || !isRecord(parsed.stores)) {
+    throw new Error('The file is not a Nearby Business Finder backup.');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > BACKUP_VERSION) {
+    throw new Error('The backup was made by a newer version of the app.');
+  }
+
+  const stores = new Map<string, unknown>();
+  const errors = new Map<string, string>();
+  for (const { key, upgrade } of BACKED_UP_STORES) {
+    if (!(key in parsed.stores)) continue;
+    try {
+      stores.set(key, upgrade(parsed.stores[key]));
+    } catch (e) {
+      errors.set(key, e instanceof Error ? e.message : String(e));
+    }
+  }
+  const detailsCache = Array.isArray(parsed.detailsCache)
+    ? parsed.detailsCache.filter((entry): entry is CachedBusinessDetails =>
+      isRecord(entry) && typeof entry.placeId === 'string' && isRecord(entry.details) && typeof entry.fetchedAt === 'number')
+    : [];
+  return { exportedAt: typeof parsed.exportedAt === 'string' ? parsed.exportedAt : '', stores, errors, detailsCache };
+};
+
+export interface RestorePreviewItem {
+  label: string;
+  /** Item counts, or null for settings. */
+  current: number | null;
+  incoming: number | null;
+  included: boolean;
+  error?: string;
+}
+
+/** What a backup holds compared with the current data, one line per store. */
+export const previewRestore = (backup: ParsedBackup): RestorePreviewItem[] => [
+  ...BACKED_UP_STORES.map(({ key, label, count }) => {
+    const incoming = backup.stores.get(key);
+    return {
+      label,
+      current: count ? count.current() : null,
+      incoming: count && incoming !== undefined ? count.incoming(incoming) : null,
+      included: incoming !== undefined,
+      error: backup.errors.get(key),
+    };
+  }),
+  {
+    label: 'Cached business details',
+    current: null,
+    incoming: backup.detailsCache.length,
+    included: backup.detailsCache.length > 0,
+  },
+];
+
+/**
+ * Writes the backup's data. In merge mode, leads, searches, pitches and
+ * ratings missing here are added and the newer copy of each one wins, while
+ * current settings are kept; replace mode overwrites each store in the backup.
+ * Cached details are always merged, since the cache can be refilled.
+ */
+export const restoreBackup = async (backup: ParsedBackup, mode: RestoreMode) => {
+  for (const { key, restore } of BACKED_UP_STORES) {
+    const incoming = backup.stores.get(key);
+    if (incoming !== undefined) restore(incoming, mode);
+  }
+  await importCachedDetails(backup.detailsCache);
+};
@@ -0,0 +1,86 @@
+import { Business, LocationCoords, SearchOptions } from '../types';
+import { dataProvider } from './dataProvider';
+
+export interface CategorySearchFailure {
+  category: string;
+  error: unknown;
+}
+
+export interface CategorySearchResult {
+  businesses: Business[];
+  discardedCount: number;
+  /** True when any category's search was stopped early. */
+  stopped: boolean;
+  /** Categories whose search failed; the others' results are still returned. */
+  failures: CategorySearchFailure[];
+}
+
+/** Splits typed text into categories on commas, dropping blanks and repeats. */
+export const parseCategories = (text: string): string[] =>
+  dedupeCategories(text.split(','));
+
+export const dedupeCategories = (categories: string[]): string[] => {
+  const seen = new Set<string>();
+  return categories
+    .map(category => category.trim())
+    .filter(category => {
+      const key = category.toLowerCase();
+      if (!category || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+/**
+ * Adds `business` to `list`, or merges its categories into the entry with the
+ * same placeId, so a business found by several categories appears once.
+ */
+export const mergeCategorizedBusiness = (list: Business[], business: Business): Business[] => {
+  const index = list.findIndex(b => b.placeId === business.placeId);
+  if (index === -1) return [...list, business];
+  const existing = list[index];
+  const categories = dedupeCategories([...(existing.categories ?? []), ...(business.categories ?? [])]);
+  return list.map((b, i) => i === index ? { ...existing, categories } : b);
+};
+
+const tag = (business: Business, category: string): Business => ({
+  ...business,
+  categories: dedupeCategories([...(business.categories ?? []), category]),
+});
+
+/**
+ * Runs one search per category in parallel and combines the results, each
+ * tagged with the categories that found it. `onBusiness` receives businesses
+ * as they stream in, already tagged.
+ */
+export const searchCategories = async (
+  categories: string[],
+  location: LocationCoords | null,
+  manualLocation: string | undefined,
+  options: SearchOptions = {},
+): Promise<CategorySearchResult> => {
+  const settled = await Promise.allSettled(categories.map(category =>
+    dataProvider.findNearbyBusinesses(category, location, manualLocation, {
+      ...options,
+      onBusiness: options.onBusiness && (business => options.onBusiness!(tag(business, category))),
+    })));
+
+  const result: CategorySearchResult = { businesses: [], discardedCount: 0, stopped: false, failures: [] };
+  settled.forEach((outcome, index) => {
+    const category = categories[index];
+    if (outcome.status === 'rejected') {
+      result.failures.push({ category, error: outcome.reason });
+      return;
+    }
+    outcome.value.businesses.forEach(business => {
+      result.businesses = mergeCategorizedBusiness(result.businesses, tag(business, category));
+    });
+    result.discardedCount += outcome.value.discardedCount;
+    result.stopped ||= !!outcome.value.stopped;
+  });
+  // With nothing to show, surface the error rather than an empty result.
+  if (result.failures.length === categories.length && categories.length > 0) {
+    throw result.failures[0].error;
+  }
+  return result;
+};
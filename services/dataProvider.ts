@@ -0,0 +1,24 @@
+import { BusinessDataProvider } from '../types';
+import { geminiProvider } from './geminiService';
+import { fixtureProvider } from './fixtureProvider';
+
+const providers: Record<string, BusinessDataProvider> = {
+  [geminiProvider.name]: geminiProvider,
+  [fixtureProvider.name]: fixtureProvider,
+};
+
+/**
+ * Returns the provider named by the DATA_PROVIDER environment variable,
+ * falling back to the live Gemini provider when it is unset.
+ */
+export const getDataProvider = (): BusinessDataProvider => {
+  const name = process.env.DATA_PROVIDER?.trim().toLowerCase() || geminiProvider.name;
+  const provider = providers[name];
+  if (!provider) {
+    console.warn(`Unknown DATA_PROVIDER "${name}", falling back to "${geminiProvider.name}".`);
+    return geminiProvider;
+  }
+  return provider;
+};
+
+export const dataProvider = getDataProvider();
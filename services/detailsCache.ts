@@ -0,0 +1,154 @@
+import { BusinessDetails, BusinessLookup, CachedBusinessDetails } from '../types';
+import { dataProvider } from './dataProvider';
+
+const DB_NAME = 'nearby-business-finder';
+const DB_VERSION = 1;
+const STORE_NAME = 'businessDetails';
+
+const DEFAULT_TTL_HOURS = 24;
+
+export const getDetailsCacheTtlMs = (): number => {
+  const hours = Number(process.env.DETAILS_CACHE_TTL_HOURS);
+  return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_TTL_HOURS) * 60 * 60 * 1000;
+};
+
+export const isCacheEntryFresh = (entry: CachedBusinessDetails, now = Date.now()): boolean =>
+  now - entry.fetchedAt < getDetailsCacheTtlMs();
+
+// Fallback used when IndexedDB is unavailable (e.g. some private browsing modes).
+const memoryStore = new Map<string, CachedBusinessDetails>();
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'placeId' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error("Failed to open details cache, using in-memory cache instead", request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T | undefined> =>
+  openDatabase().then(db => {
+    if (!db) return undefined;
+    return new Promise<T | undefined>((resolve, reject) => {
+      const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  });
+
+type CacheListener = (entry: CachedBusinessDetails) => void;
+const listeners = new Set<CacheListener>();
+
+// IndexedDB writes don't raise events in other tabs, so new entries are announced here.
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(`${DB_NAME}:${STORE_NAME}`) : null;
+
+channel?.addEventListener('message', (event: MessageEvent<CachedBusinessDetails>) => {
+  const entry = event.data;
+  if (!entry?.placeId) return;
+  memoryStore.set(entry.placeId, entry);
+  listeners.forEach(listener => listener(entry));
+});
+
+/** Subscribes to details being written to the cache. Returns an unsubscribe function. */
+export const subscribeToDetailsCache = (listener: CacheListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getCachedDetails = async (placeId: string): Promise<CachedBusinessDetails | null> => {
+  try {
+    const entry = await runRequest<CachedBusinessDetails>('readonly', store => store.get(placeId));
+    return entry ?? memoryStore.get(placeId) ?? null;
+  } catch (e) {
+    console.error("Failed to read details cache", e);
+    return memoryStore.get(placeId) ?? null;
+  }
+};
+
+export const getAllCachedDetails = async (): Promise<CachedBusinessDetails[]> => {
+  try {
+    const entries = await runRequest<CachedBusinessDetails[]>('readonly', store => store.getAll());
+    return entries ?? Array.from(memoryStore.values());
+  } catch (e) {
+    console.error("Failed to read details cache", e);
+    return Array.from(memoryStore.values());
+  }
+};
+
+export const putCachedDetails = async (placeId: string, details: BusinessDetails): Promise<CachedBusinessDetails> => {
+  const entry: CachedBusinessDetails = { placeId, details, fetchedAt: Date.now() };
+  memoryStore.set(placeId, entry);
+  try {
+    await runRequest('readwrite', store => store.put(entry));
+  } catch (e) {
+    console.error("Failed to write details cache", e);
+  }
+  listeners.forEach(listener => listener(entry));
+  channel?.postMessage(entry);
+  return entry;
+};
+
+/**
+ * Writes entries as they are, keeping their `fetchedAt`, e.g. when restoring a
+ * backup. Entries older than what is already cached are skipped.
+ */
+export const importCachedDetails = async (entries: CachedBusinessDetails[]): Promise<number> => {
+  let imported = 0;
+  for (const entry of entries) {
+    const existing = await getCachedDetails(entry.placeId);
+    if (existing && existing.fetchedAt >= entry.fetchedAt) continue;
+    memoryStore.set(entry.placeId, entry);
+    try {
+      await runRequest('readwrite', store => store.put(entry));
+    } catch (e) {
+      console.error("Failed to write details cache", e);
+    }
+    listeners.forEach(listener => listener(entry));
+    channel?.postMessage(entry);
+    imported++;
+  }
+  return imported;
+};
+
+/**
+ * Returns details for a place, serving them from the cache while they are
+ * within the TTL. Pass `forceRefresh` to bypass the cache and refetch,
+ * `lookup` for imported businesses that have no real place ID, and `signal`
+ * to cancel the request.
+ */
+export const loadBusinessDetails = async (
+  placeId: string,
+  options: { forceRefresh?: boolean; lookup?: BusinessLookup; signal?: AbortSignal } = {},
+): Promise<CachedBusinessDetails> => {
+  if (!options.forceRefresh) {
+    const cached = await getCachedDetails(placeId);
+    if (cached && isCacheEntryFresh(cached)) {
+      return cached;
+    }
+  }
+  const details = await dataProvider.getBusinessDetails(placeId, options.lookup, { signal: options.signal });
+  return putCachedDetails(placeId, details);
+};
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { Business, BusinessDetails, SavedBusiness } from '../types';
+import { compareBusinesses, findDuplicates, mergeSavedBusinesses, nameSimilarity, normalizeBusinessName } from './duplicates';
+
+const candidate = (placeId: string, title: string, extra: Partial<Business> = {}, details?: BusinessDetails) => ({
+  business: { placeId, title, uri: '', ...extra },
+  details,
+});
+
+describe('normalizeBusinessName', () => {
+  it('drops accents, punctuation and words that say nothing about the business', () => {
+    expect(normalizeBusinessName("The Café d'Été & Co., LLC")).toBe('cafe dete');
+  });
+});
+
+describe('nameSimilarity', () => {
+  it('rates identical, contained and unrelated names', () => {
+    expect(nameSimilarity("Joe's Pizza", 'JOES PIZZA')).toBe(1);
+    expect(nameSimilarity("Joe's Pizza", "Joe's Pizza & Pasta")).toBeGreaterThanOrEqual(0.9);
+    expect(nameSimilarity("Joe's Pizza", 'Main Street Dental')).toBeLessThan(0.3);
+    expect(nameSimilarity('The', 'Joe')).toBe(0);
+  });
+});
+
+describe('compareBusinesses', () => {
+  it('matches the same place ID in either search mode', () => {
+    expect(compareBusinesses(candidate('ChIJ1', 'A'), candidate('places/ChIJ1', 'B'))).toEqual(['same place ID']);
+  });
+
+  it('matches the same phone number written differently', () => {
+    const reasons = compareBusinesses(
+      candidate('a', 'Acme Plumbing', {}, { phone: '+1 415-555-0101' }),
+      candidate('b', 'Totally Different', {}, { phone: '(415) 555 0101' }),
+    );
+    expect(reasons).toEqual(['same phone']);
+  });
+
+  it('matches similar names close together', () => {
+    const reasons = compareBusinesses(
+      candidate('a', "Joe's Pizza", { latitude: 40, longitude: -75 }),
+      candidate('b', "Joe's Pizza & Pasta", { latitude: 40.0005, longitude: -75 }),
+    );
+    expect(reasons).toEqual(['similar name', '56 m apart']);
+  });
+
+  it('keeps apart similar names far away or with different phones', () => {
+    expect(compareBusinesses(
+      candidate('a', "Joe's Pizza", { latitude: 40, longitude: -75 }),
+      candidate('b', "Joe's Pizza", { latitude: 41, longitude: -75 }),
+    )).toBeNull();
+    expect(compareBusinesses(
+      candidate('a', "Joe's Pizza", {}, { phone: '555-0101' }),
+      candidate('b', "Joe's Pizza", {}, { phone: '555-0199' }),
+    )).toBeNull();
+  });
+
+  it('matches very similar names on the same website when locations are unknown', () => {
+    expect(compareBusinesses(
+      candidate('a', 'Acme Plumbing', {}, { website: 'https://www.acme.example/contact' }),
+      candidate('b', 'Acme Plumbing Inc', {}, { website: 'acme.example' }),
+    )).toEqual(['same name', 'same website']);
+  });
+});
+
+describe('findDuplicates', () => {
+  it('lists each match on both businesses', () => {
+    const matches = findDuplicates([candidate('a', 'Acme'), candidate('b', 'Acme'), candidate('c', 'Zenith Dental')]);
+    expect(matches.get('a')).toEqual([{ placeId: 'b', title: 'Acme', reasons: ['same name'] }]);
+    expect(matches.get('b')).toEqual([{ placeId: 'a', title: 'Acme', reasons: ['same name'] }]);
+    expect(matches.has('c')).toBe(false);
+  });
+});
+
+describe('mergeSavedBusinesses', () => {
+  const saved = (placeId: string, lead: Partial<SavedBusiness['lead']>, extra: Partial<SavedBusiness> = {}): SavedBusiness => ({
+    placeId,
+    title: placeId.toUpperCase(),
+    uri: '',
+    savedAt: 100,
+    lead: { status: 'new', notes: [], updatedAt: 0, ...lead },
+    ...extra,
+  });
+
+  it('keeps notes from both, the furthest status and the earlier follow-up', () => {
+    const keep = saved('a', { status: 'contacted', followUpDate: '2025-03-01', notes: [{ id: '1', text: 'first', createdAt: 1 }] });
+    const merged = saved('b', { status: 'qualified', followUpDate: '2025-02-01', notes: [{ id: '2', text: 'second', createdAt: 2 }] }, { latitude: 1, longitude: 2, savedAt: 50 });
+    const combined = mergeSavedBusinesses(keep, merged);
+    expect(combined).toMatchObject({ placeId: 'a', title: 'A', latitude: 1, longitude: 2, savedAt: 50 });
+    expect(combined.lead.status).toBe('qualified');
+    expect(combined.lead.followUpDate).toBe('2025-02-01');
+    expect(combined.lead.notes.map(note => note.text)).toEqual(['Merged with duplicate "B".', 'second', 'first']);
+  });
+
+  it("doesn't let a lost duplicate close an active lead", () => {
+    expect(mergeSavedBusinesses(saved('a', { status: 'new' }), saved('b', { status: 'lost' })).lead.status).toBe('new');
+  });
+});
@@ -0,0 +1,194 @@
+import { Business, BusinessDetails, LeadInfo, SavedBusiness } from '../types';
+import { LEAD_STATUSES, createLeadNote } from './leadPipeline';
+import { dedupeCategories } from './categorySearch';
+import { getDistance } from '../utils/geo';
+
+export interface DuplicateMatch {
+  placeId: string;
+  title: string;
+  /** Why the two are thought to be the same business, e.g. "same phone", "20 m apart". */
+  reasons: string[];
+}
+
+export interface DuplicateCandidate {
+  business: Business;
+  details?: BusinessDetails;
+}
+
+// Words that don't distinguish one business from another.
+const NAME_STOPWORDS = new Set(['the', 'and', 'inc', 'llc', 'ltd', 'co', 'corp', 'company', 'gmbh', 'sa', 'srl']);
+
+export const normalizeBusinessName = (name: string): string =>
+  name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['\u2019`]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(word => word && !NAME_STOPWORDS.has(word))
+    .join(' ');
+
+const bigrams = (text: string): string[] => {
+  const compact = text.replace(/ /g, '');
+  const result: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) result.push(compact.slice(i, i + 2));
+  return result;
+};
+
+/**
+ * Similarity of two business names from 0 to 1. Uses the Dice coefficient on
+ * character bigrams, but treats one name's words all appearing in the other
+ * ("Joe's Pizza" / "Joe's Pizza & Pasta") as a strong match.
+ */
+export const nameSimilarity = (a: string, b: string): number => {
+  const left = normalizeBusinessName(a);
+  const right = normalizeBusinessName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const leftWords = left.split(' ');
+  const rightWords = new Set(right.split(' '));
+  const [shorter, longer] = leftWords.length <= rightWords.size ? [leftWords, rightWords] : [right.split(' '), new Set(leftWords)];
+  const contained = shorter.every(word => longer.has(word)) ? 0.9 : 0;
+
+  const leftBigrams = bigrams(left);
+  const rightBigrams = bigrams(right);
+  const counts = new Map<string, number>();
+  for (const gram of leftBigrams) counts.set(gram, (counts.get(gram) ?? 0) + 1);
+  let overlap = 0;
+  for (const gram of rightBigrams) {
+    const count = counts.get(gram) ?? 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(gram, count - 1);
+    }
+  }
+  const dice = leftBigrams.length + rightBigrams.length > 0 ? (2 * overlap) / (leftBigrams.length + rightBigrams.length) : 0;
+  return Math.max(dice, contained);
+};
+
+// The two search modes report the same place as "ChIJ..." and "places/ChIJ...".
+const normalizePlaceId = (placeId: string) => placeId.replace(/^places\//, '');
+
+const normalizePhone = (phone?: string): string | undefined => {
+  const digits = phone?.replace(/\D/g, '');
+  // Compare the national number so "+1 415-555-0101" matches "(415) 555-0101".
+  return digits && digits.length >= 7 ? digits.slice(-10) : undefined;
+};
+
+const websiteHost = (website?: string): string | undefined => {
+  if (!website) return undefined;
+  try {
+    return new URL(/^https?:\/\//i.test(website) ? website : `https://${website}`).hostname.replace(/^www\./, '');
+  } catch {
+    return undefined;
+  }
+};
+
+const NEARBY_METERS = 150;
+const SIMILAR_NAME = 0.7;
+const VERY_SIMILAR_NAME = 0.85;
+
+/**
+ * Decides whether two listings are likely the same business, returning the
+ * reasons if so. A shared place ID or phone number is enough on its own;
+ * otherwise the names must be similar and either the locations close or the
+ * websites the same.
+ */
+export const compareBusinesses = (a: DuplicateCandidate, b: DuplicateCandidate): string[] | null => {
+  if (a.business.placeId === b.business.placeId) return null;
+  if (normalizePlaceId(a.business.placeId) === normalizePlaceId(b.business.placeId)) {
+    return ['same place ID'];
+  }
+
+  const phoneA = normalizePhone(a.details?.phone);
+  const phoneB = normalizePhone(b.details?.phone);
+  const hostA = websiteHost(a.details?.website);
+  const hostB = websiteHost(b.details?.website);
+  const similarity = nameSimilarity(a.business.title, b.business.title);
+  const meters = a.business.latitude !== undefined && a.business.longitude !== undefined &&
+    b.business.latitude !== undefined && b.business.longitude !== undefined
+    ? getDistance(a.business as Required<Business>, b.business as Required<Business>) * 1000
+    : undefined;
+
+  const reasons: string[] = [];
+  if (similarity >= SIMILAR_NAME) reasons.push(similarity === 1 ? 'same name' : 'similar name');
+  if (meters !== undefined && meters <= NEARBY_METERS) reasons.push(`${Math.round(meters)} m apart`);
+  const samePhone = !!phoneA && phoneA === phoneB;
+  const sameWebsite = !!hostA && hostA === hostB;
+  if (samePhone) reasons.push('same phone');
+  if (sameWebsite) reasons.push('same website');
+
+  // Different phone numbers mean different businesses, however alike the names.
+  if (phoneA && phoneB && !samePhone) return null;
+  if (samePhone) return reasons;
+  if (similarity < SIMILAR_NAME) return null;
+  if (meters !== undefined) {
+    return meters <= NEARBY_METERS || (sameWebsite && similarity >= VERY_SIMILAR_NAME) ? reasons : null;
+  }
+  return sameWebsite || similarity >= VERY_SIMILAR_NAME ? reasons : null;
+};
+
+/**
+ * Finds likely duplicates among `candidates`, keyed by placeId. Each match is
+ * listed on both businesses.
+ */
+export const findDuplicates = (candidates: DuplicateCandidate[]): Map<string, DuplicateMatch[]> => {
+  const matches = new Map<string, DuplicateMatch[]>();
+  const add = (candidate: DuplicateCandidate, other: DuplicateCandidate, reasons: string[]) => {
+    const list = matches.get(candidate.business.placeId) ?? [];
+    if (list.some(match => match.placeId === other.business.placeId)) return;
+    list.push({ placeId: other.business.placeId, title: other.business.title, reasons });
+    matches.set(candidate.business.placeId, list);
+  };
+
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      const reasons = compareBusinesses(candidates[i], candidates[j]);
+      if (reasons) {
+        add(candidates[i], candidates[j], reasons);
+        add(candidates[j], candidates[i], reasons);
+      }
+    }
+  }
+  return matches;
+};
+
+export const describeDuplicates = (matches: DuplicateMatch[]): string =>
+  matches.map(match => `${match.title} (${match.reasons.join(', ')})`).join('; ');
+
+// "Lost" ranks lowest, so an active duplicate keeps the lead open.
+const statusRank = (status: LeadInfo['status']) =>
+  status === 'lost' ? -1 : LEAD_STATUSES.findIndex(s => s.value === status);
+
+/**
+ * Combines two saved leads for the same business into `keep`. Notes from both
+ * are kept, the status furthest along the pipeline wins, the earlier follow-up
+ * date is used, and missing location or grounding data is filled in from `merged`.
+ * Pitch history and fit ratings live in their own stores; `mergeFavorites` in
+ * useFavorites moves those over.
+ */
+export const mergeSavedBusinesses = (keep: SavedBusiness, merged: SavedBusiness): SavedBusiness => {
+  const notes = [...keep.lead.notes, ...merged.lead.notes]
+    .filter((note, index, all) => all.findIndex(other => other.id === note.id) === index)
+    .sort((a, b) => b.createdAt - a.createdAt);
+  const followUpDates = [keep.lead.followUpDate, merged.lead.followUpDate].filter((date): date is string => !!date).sort();
+
+  return {
+    ...merged,
+    ...keep,
+    latitude: keep.latitude ?? merged.latitude,
+    longitude: keep.longitude ?? merged.longitude,
+    grounding: keep.grounding ?? merged.grounding,
+    categories: keep.categories || merged.categories ? dedupeCategories([...(keep.categories ?? []), ...(merged.categories ?? [])]) : undefined,
+    savedAt: Math.min(keep.savedAt, merged.savedAt),
+    lead: {
+      status: statusRank(merged.lead.status) > statusRank(keep.lead.status) ? merged.lead.status : keep.lead.status,
+      followUpDate: followUpDates[0],
+      notes: [createLeadNote(`Merged with duplicate "${merged.title}".`), ...notes],
+      updatedAt: Date.now(),
+    },
+  };
+};
@@ -0,0 +1,109 @@
+import { Business, BusinessDetails, CachedBusinessDetails, FitRating, SenderProfile } from '../types';
+import { loadBusinessDetails } from './detailsCache';
+import { dataProvider } from './dataProvider';
+
+export const DEFAULT_ENRICHMENT_CONCURRENCY = 3;
+
+export interface EnrichmentFailure {
+  business: Business;
+  message: string;
+}
+
+export interface EnrichmentProgress {
+  total: number;
+  completed: number;
+  succeeded: number;
+  failures: EnrichmentFailure[];
+}
+
+export interface EnrichmentOptions {
+  concurrency?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: EnrichmentProgress) => void;
+  onItemLoaded?: (entry: CachedBusinessDetails) => void;
+}
+
+/**
+ * Runs `task` on every item with at most `concurrency` tasks in flight.
+ * Aborting `signal` stops new tasks from starting.
+ */
+const forEachConcurrently = async <T>(items: T[], concurrency: number, task: (item: T) => Promise<void>, signal?: AbortSignal) => {
+  let nextIndex = 0;
+  const worker = async () => {
+    while (nextIndex < items.length && !signal?.aborted) {
+      await task(items[nextIndex++]);
+    }
+  };
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+};
+
+/**
+ * Loads details for every business with at most `concurrency` requests in
+ * flight. Failures are collected rather than thrown. Aborting the signal
+ * cancels the requests in flight and stops new ones from starting.
+ */
+export const enrichBusinesses = async (
+  businesses: Business[],
+  { concurrency = DEFAULT_ENRICHMENT_CONCURRENCY, signal, onProgress, onItemLoaded }: EnrichmentOptions = {},
+): Promise<EnrichmentProgress> => {
+  const progress: EnrichmentProgress = { total: businesses.length, completed: 0, succeeded: 0, failures: [] };
+
+  await forEachConcurrently(businesses, concurrency, async business => {
+    try {
+      const entry = await loadBusinessDetails(business.placeId, { lookup: business.lookup, signal });
+      progress.succeeded++;
+      onItemLoaded?.(entry);
+    } catch (err) {
+      // A cancelled request is neither loaded nor failed.
+      if (signal?.aborted) return;
+      progress.failures = [...progress.failures, {
+        business,
+        message: err instanceof Error ? err.message : 'An unknown error occurred while fetching details.',
+      }];
+    }
+    progress.completed++;
+    onProgress?.({ ...progress });
+  }, signal);
+  return { ...progress };
+};
+
+export const DEFAULT_FIT_RATING_CONCURRENCY = 2;
+
+export interface FitRatingOptions {
+  concurrency?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: EnrichmentProgress) => void;
+  onRated?: (placeId: string, rating: FitRating) => void;
+}
+
+/**
+ * Rates every business's fit with `sender`, like `enrichBusinesses`: at most
+ * `concurrency` requests in flight, failures collected, and aborting the
+ * signal cancels the requests in flight.
+ */
+export const rateBusinessesFit = async (
+  businesses: Business[],
+  sender: SenderProfile,
+  getDetails: (placeId: string) => BusinessDetails | undefined,
+  { concurrency = DEFAULT_FIT_RATING_CONCURRENCY, signal, onProgress, onRated }: FitRatingOptions = {},
+): Promise<EnrichmentProgress> => {
+  const progress: EnrichmentProgress = { total: businesses.length, completed: 0, succeeded: 0, failures: [] };
+
+  await forEachConcurrently(businesses, concurrency, async business => {
+    try {
+      const rating = await dataProvider.rateLeadFit(business, sender, getDetails(business.placeId), { signal });
+      progress.succeeded++;
+      onRated?.(business.placeId, { ...rating, ratedAt: Date.now() });
+    } catch (err) {
+      if (signal?.aborted) return;
+      progress.failures = [...progress.failures, {
+        business,
+        message: err instanceof Error ? err.message : 'An unknown error occurred while rating fit.',
+      }];
+    }
+    progress.completed++;
+    onProgress?.({ ...progress });
+  }, signal);
+  return { ...progress };
+};
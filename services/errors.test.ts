@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiError } from '@google/genai';
+import { AbortedError, NetworkError, RateLimitError, ServiceError, fromErrorPayload, toErrorPayload, toServiceError, withNetworkErrors, withRetry } from './errors';
+
+describe('toServiceError', () => {
+  it('reads how long a rate limit asks to wait', () => {
+    const error = toServiceError(new ApiError({ status: 429, message: '{"retryDelay": "20.5s"}' }), 'search');
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect((error as RateLimitError).retryAfterMs).toBe(20500);
+    expect(error.retryable).toBe(true);
+  });
+
+  it('maps rejected keys, server errors and aborts', () => {
+    expect(toServiceError(new ApiError({ status: 403, message: 'API key not valid' }), 'search').kind).toBe('missing-api-key');
+    expect(toServiceError(new ApiError({ status: 503, message: 'Unavailable' }), 'search')).toMatchObject({ kind: 'unknown', retryable: true });
+    expect(toServiceError(new DOMException('Stopped', 'AbortError'), 'search')).toBeInstanceOf(AbortedError);
+  });
+
+  it("doesn't treat a TypeError from a bug as a network failure", () => {
+    expect(toServiceError(new TypeError('x is undefined'), 'search')).toMatchObject({ kind: 'unknown', retryable: false });
+  });
+});
+
+describe('withNetworkErrors', () => {
+  it('turns a failed fetch into a retryable network error', async () => {
+    await expect(withNetworkErrors(() => Promise.reject(new TypeError('fetch failed')), 'Could not reach the proxy.'))
+      .rejects.toEqual(new NetworkError('Could not reach the proxy.'));
+  });
+});
+
+describe('error payloads', () => {
+  it('keep the kind, retryability and wait of an error', () => {
+    expect(fromErrorPayload(toErrorPayload(new RateLimitError('Slow down', 5000)))).toMatchObject({ kind: 'rate-limited', retryable: true, retryAfterMs: 5000 });
+    expect(fromErrorPayload(toErrorPayload(new ServiceError('budget-exceeded', 'Over budget')))).toMatchObject({ kind: 'budget-exceeded', retryable: false });
+  });
+});
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('retries retryable failures with growing delays until one succeeds', async () => {
+    const fn = vi.fn()
+      .mockRejectedValueOnce(new NetworkError('down'))
+      .mockRejectedValueOnce(new NetworkError('down'))
+      .mockResolvedValue('ok');
+    const result = withRetry(fn, 'search', { baseDelayMs: 1000 });
+    await vi.advanceTimersByTimeAsync(499);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fn).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(result).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the last attempt, and at once on failures that retrying won\'t fix', async () => {
+    const failing = vi.fn().mockRejectedValue(new NetworkError('down'));
+    const result = withRetry(failing, 'search', { maxAttempts: 2 });
+    const assertion = expect(result).rejects.toBeInstanceOf(NetworkError);
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(failing).toHaveBeenCalledTimes(2);
+
+    const broken = vi.fn().mockRejectedValue(new Error('bad request'));
+    await expect(withRetry(broken, 'search')).rejects.toMatchObject({ kind: 'unknown' });
+    expect(broken).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits as long as a rate limit asks, unless that is longer than the maximum delay', async () => {
+    const shortWait = vi.fn().mockRejectedValueOnce(new RateLimitError('slow', 3000)).mockResolvedValue('ok');
+    const result = withRetry(shortWait, 'search', { maxDelayMs: 5000 });
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(shortWait).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe('ok');
+
+    const longWait = vi.fn().mockRejectedValue(new RateLimitError('slow', 60000));
+    await expect(withRetry(longWait, 'search', { maxDelayMs: 5000 })).rejects.toBeInstanceOf(RateLimitError);
+    expect(longWait).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting and throws when aborted', async () => {
+    const controller = new AbortController();
+    const fn = vi.fn().mockRejectedValue(new NetworkError('down'));
+    const result = withRetry(fn, 'search', { signal: controller.signal, baseDelayMs: 10000 });
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+    await expect(result).rejects.toBeInstanceOf(AbortedError);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,221 @@
+import { ApiError, FinishReason, GenerateContentResponse } from "@google/genai";
+import { ProxyErrorPayload } from "./proxyApi";
+
+export type ServiceErrorKind =
+  | 'missing-api-key'
+  | 'rate-limited'
+  | 'network'
+  | 'safety-blocked'
+  | 'unparseable-response'
+  | 'no-location'
+  | 'location-not-found'
+  | 'aborted'
+  | 'budget-exceeded'
+  | 'unknown';
+
+/**
+ * Base class for failures surfaced by the service layer. `kind` lets the UI
+ * show specific guidance; `retryable` marks failures that may succeed if the
+ * same request is sent again.
+ */
+export class ServiceError extends Error {
+  readonly kind: ServiceErrorKind;
+  readonly retryable: boolean;
+
+  constructor(kind: ServiceErrorKind, message: string, options: { retryable?: boolean; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'ServiceError';
+    this.kind = kind;
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+export class MissingApiKeyError extends ServiceError {
+  constructor() {
+    super('missing-api-key', "No Gemini API key is configured.");
+    this.name = 'MissingApiKeyError';
+  }
+}
+
+export class RateLimitError extends ServiceError {
+  /** How long the API asked us to wait, when it said. */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, retryAfterMs?: number, cause?: unknown) {
+    super('rate-limited', message, { retryable: true, cause });
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class NetworkError extends ServiceError {
+  constructor(message: string, cause?: unknown) {
+    super('network', message, { retryable: true, cause });
+    this.name = 'NetworkError';
+  }
+}
+
+export class SafetyBlockError extends ServiceError {
+  constructor(reason?: string) {
+    super('safety-blocked', `The request was blocked by the model's safety filters${reason ? ` (${reason})` : ''}.`);
+    this.name = 'SafetyBlockError';
+  }
+}
+
+export class UnparseableResponseError extends ServiceError {
+  constructor(message: string) {
+    super('unparseable-response', message, { retryable: true });
+    this.name = 'UnparseableResponseError';
+  }
+}
+
+export class NoLocationError extends ServiceError {
+  constructor() {
+    super('no-location', "A location (either automatic or manual) must be provided.");
+    this.name = 'NoLocationError';
+  }
+}
+
+export class LocationNotFoundError extends ServiceError {
+  constructor(query: string) {
+    super('location-not-found', `Could not find a place matching "${query}".`);
+    this.name = 'LocationNotFoundError';
+  }
+}
+
+/** The caller cancelled the request, e.g. by starting a newer one. Callers normally ignore it. */
+export class AbortedError extends ServiceError {
+  constructor(operation: string) {
+    super('aborted', `The request to ${operation} was cancelled.`);
+    this.name = 'AbortedError';
+  }
+}
+
+export const throwIfAborted = (signal: AbortSignal | undefined, operation: string) => {
+  if (signal?.aborted) throw new AbortedError(operation);
+};
+
+/**
+ * Runs a network call, turning the `TypeError` that `fetch` throws when the
+ * connection fails into a `NetworkError` with `message`.
+ */
+export const withNetworkErrors = async <T>(call: () => Promise<T>, message: string): Promise<T> => {
+  try {
+    return await call();
+  } catch (error) {
+    if (error instanceof TypeError) throw new NetworkError(message, error);
+    throw error;
+  }
+};
+
+const SAFETY_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+];
+
+/** Throws a `SafetyBlockError` if the prompt or the answer was blocked. */
+export const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new SafetyBlockError(response.promptFeedback?.blockReasonMessage ?? blockReason);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && SAFETY_FINISH_REASONS.includes(finishReason)) {
+    throw new SafetyBlockError(finishReason);
+  }
+};
+
+// Gemini reports how long to wait either as a RetryInfo detail ("retryDelay": "20s")
+// or in the message text ("Please retry in 20.5s").
+const parseRetryAfterMs = (message: string): number | undefined => {
+  const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/) ?? message.match(/retry in (\d+(?:\.\d+)?)\s*s/i);
+  return match ? Math.ceil(Number(match[1]) * 1000) : undefined;
+};
+
+/** Maps any thrown value onto the service error taxonomy. */
+export const toServiceError = (error: unknown, operation: string): ServiceError => {
+  if (error instanceof ServiceError) return error;
+  if (error instanceof Error && error.name === 'AbortError') return new AbortedError(operation);
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof ApiError) {
+    if (error.status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) {
+      return new RateLimitError(`Rate limit or quota exceeded while trying to ${operation}.`, parseRetryAfterMs(message), error);
+    }
+    if (error.status === 401 || error.status === 403 || /API key not valid/i.test(message)) {
+      return new ServiceError('missing-api-key', `The Gemini API key was rejected: ${message}`, { cause: error });
+    }
+    if (error.status >= 500) {
+      return new ServiceError('unknown', `The API failed to ${operation} (HTTP ${error.status}).`, { retryable: true, cause: error });
+    }
+    return new ServiceError('unknown', `Failed to ${operation}: ${message}`, { cause: error });
+  }
+  // A failed fetch is turned into a `NetworkError` where it's made (see `withNetworkErrors`);
+  // any other TypeError is a bug, and retrying it won't help.
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    return new NetworkError(`Could not reach the API to ${operation}. Check your internet connection.`, error);
+  }
+  return new ServiceError('unknown', `Failed to ${operation}: ${message}`, { cause: error });
+};
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Cancels the wait between attempts. */
+  signal?: AbortSignal;
+}
+
+/** Resolves after `ms`, or as soon as `signal` aborts. */
+export const wait = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  if (ms <= 0 || signal?.aborted) {
+    resolve();
+    return;
+  }
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+});
+
+/**
+ * Runs `fn`, retrying retryable failures with exponential backoff and full
+ * jitter. A rate limit that asks for a longer wait than `maxDelayMs` is
+ * surfaced immediately so the UI can tell the user when to try again.
+ */
+export const withRetry = async <T>(
+  fn: () => Promise<T>,
+  operation: string,
+  { maxAttempts = 3, baseDelayMs = 1000, maxDelayMs = 15000, signal }: RetryOptions = {},
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (raw) {
+      const error = toServiceError(raw, operation);
+      if (!error.retryable || attempt >= maxAttempts || signal?.aborted) throw error;
+
+      const backoff = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      const delay = error instanceof RateLimitError && error.retryAfterMs !== undefined
+        ? error.retryAfterMs
+        : backoff;
+      if (delay > maxDelayMs) throw error;
+      console.warn(`Retrying ${operation} in ${Math.round(delay)}ms (attempt ${attempt + 1} of ${maxAttempts}):`, error.message);
+      await wait(delay, signal);
+      throwIfAborted(signal, operation);
+    }
+  }
+};
+
+/** The form a `ServiceError` takes on its way from the API proxy to the browser. */
+export const toErrorPayload = (error: ServiceError): ProxyErrorPayload => ({
+  kind: error.kind,
+  message: error.message,
+  retryable: error.retryable,
+  ...(error instanceof RateLimitError && error.retryAfterMs !== undefined ? { retryAfterMs: error.retryAfterMs } : {}),
+});
+
+export const fromErrorPayload = ({ kind, message, retryable, retryAfterMs }: ProxyErrorPayload): ServiceError =>
+  kind === 'rate-limited'
+    ? new RateLimitError(message, retryAfterMs)
+    : new ServiceError(kind, message, { retryable });
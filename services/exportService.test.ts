@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { ExportItem, buildCsv, buildJson, buildVCard } from './exportService';
+
+const item: ExportItem = {
+  business: { title: 'Joe\'s "Best" Pizza, Inc.', placeId: 'abc', uri: 'https://maps.example/abc', latitude: 39.78, longitude: -89.65 },
+  distance: 1.234,
+  cached: {
+    placeId: 'abc',
+    fetchedAt: Date.UTC(2025, 0, 2),
+    details: { address: '1 Main St\nSpringfield', phone: '+1 555 0100', website: 'https://joes.example', hours: ['Mon: 9-5', 'Tue: 9-5'] },
+  },
+};
+
+describe('buildCsv', () => {
+  it('writes a header row and quotes values with commas, quotes or line breaks', () => {
+    const [header, row] = buildCsv([item]).split('\r\n');
+    expect(header).toBe('title,uri,placeId,latitude,longitude,distanceKm,address,phone,website,hours,detailsFetchedAt');
+    expect(row).toBe(
+      `"Joe's ""Best"" Pizza, Inc.",https://maps.example/abc,abc,39.78,-89.65,1.23,"1 Main St\nSpringfield",` +
+      `'+1 555 0100,https://joes.example,Mon: 9-5; Tue: 9-5,2025-01-02T00:00:00.000Z`,
+    );
+  });
+
+  it('keeps cells a spreadsheet would run as formulas as text, but not plain numbers', () => {
+    const row = buildCsv([{ business: { title: '=HYPERLINK("x")', placeId: '@p', uri: '-x', latitude: -1.5, longitude: 2 } }]).split('\r\n')[1];
+    expect(row.startsWith(`"'=HYPERLINK(""x"")",'-x,'@p,-1.5,2,`)).toBe(true);
+  });
+
+  it('leaves detail columns empty when nothing is cached', () => {
+    expect(buildCsv([{ business: { title: 'A', placeId: 'a', uri: 'u' } }]).split('\r\n')[1]).toBe('A,u,a,,,,,,,,');
+  });
+});
+
+describe('buildVCard', () => {
+  it('escapes values and folds long lines', () => {
+    const card = buildVCard([{ ...item, business: { ...item.business, title: 'A'.repeat(100) } }]);
+    expect(card).toContain(`FN:${'A'.repeat(72)}\r\n ${'A'.repeat(28)}`);
+    expect(card).toContain('ADR;TYPE=WORK:;;1 Main St\\nSpringfield;;;;');
+    expect(card).toContain('GEO:39.78;-89.65');
+    expect(card.endsWith('END:VCARD\r\n')).toBe(true);
+  });
+});
+
+describe('buildJson', () => {
+  it('includes the details and when they were fetched', () => {
+    const { source, businesses } = JSON.parse(buildJson([item], 'favorites'));
+    expect(source).toBe('favorites');
+    expect(businesses[0]).toMatchObject({ placeId: 'abc', distanceKm: 1.234, details: item.cached!.details, detailsFetchedAt: '2025-01-02T00:00:00.000Z' });
+  });
+});
@@ -0,0 +1,146 @@
+import { Business, CachedBusinessDetails } from '../types';
+import { enrichBusinesses } from './enrichment';
+
+export type ExportFormat = 'csv' | 'vcard' | 'json';
+
+export interface ExportItem {
+  business: Business;
+  distance?: number;
+  cached?: CachedBusinessDetails;
+}
+
+const FILE_TYPES: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  csv: { extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  vcard: { extension: 'vcf', mimeType: 'text/vcard;charset=utf-8' },
+  json: { extension: 'json', mimeType: 'application/json;charset=utf-8' },
+};
+
+const CSV_COLUMNS = [
+  'title', 'uri', 'placeId', 'latitude', 'longitude', 'distanceKm',
+  'address', 'phone', 'website', 'hours', 'detailsFetchedAt',
+] as const;
+
+// Spreadsheets run cells starting with these as formulas. Names and notes come
+// from the model or imported files, so such cells get a leading ' to stay text.
+// Plain numbers (e.g. negative coordinates) are left alone.
+const neutralizeFormula = (value: string): string =>
+  /^[=+\-@\t\r]/.test(value) && !/^-?\d+(\.\d+)?$/.test(value) ? `'${value}` : value;
+
+const escapeCsvValue = (raw: string): string => {
+  const value = neutralizeFormula(raw);
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const buildCsv = (items: ExportItem[]): string => {
+  const rows = items.map(({ business, distance, cached }) => {
+    const details = cached?.details;
+    const values: Record<typeof CSV_COLUMNS[number], string> = {
+      title: business.title,
+      uri: business.uri,
+      placeId: business.placeId,
+      latitude: business.latitude?.toString() ?? '',
+      longitude: business.longitude?.toString() ?? '',
+      distanceKm: distance !== undefined ? distance.toFixed(2) : '',
+      address: details?.address ?? '',
+      phone: details?.phone ?? '',
+      website: details?.website ?? '',
+      hours: details?.hours?.join('; ') ?? '',
+      detailsFetchedAt: cached ? new Date(cached.fetchedAt).toISOString() : '',
+    };
+    return CSV_COLUMNS.map(column => escapeCsvValue(values[column])).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+const escapeVCardValue = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/\r?\n/g, '\\n').replace(/,/g, '\\,').replace(/;/g, '\\;');
+
+// RFC 2425 line folding: lines longer than 75 characters continue on the next
+// line, which starts with a single space.
+const foldVCardLine = (line: string): string => {
+  if (line.length <= 75) return line;
+  const parts = [line.slice(0, 75)];
+  for (let i = 75; i < line.length; i += 74) {
+    parts.push(' ' + line.slice(i, i + 74));
+  }
+  return parts.join('\r\n');
+};
+
+/** Builds a vCard 3.0 file with one contact per business. */
+export const buildVCard = (items: ExportItem[]): string =>
+  items.map(({ business, cached }) => {
+    const details = cached?.details;
+    const noteLines = [`Google Maps: ${business.uri}`, `Place ID: ${business.placeId}`];
+    if (details?.hours?.length) {
+      noteLines.push('Hours:', ...details.hours);
+    }
+    const lines = [
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      `FN:${escapeVCardValue(business.title)}`,
+      'N:;;;;',
+      `ORG:${escapeVCardValue(business.title)}`,
+    ];
+    if (details?.address) lines.push(`ADR;TYPE=WORK:;;${escapeVCardValue(details.address)};;;;`);
+    if (details?.phone) lines.push(`TEL;TYPE=WORK,VOICE:${escapeVCardValue(details.phone)}`);
+    if (details?.website) lines.push(`URL:${escapeVCardValue(details.website)}`);
+    if (business.latitude !== undefined && business.longitude !== undefined) {
+      lines.push(`GEO:${business.latitude};${business.longitude}`);
+    }
+    lines.push(`NOTE:${escapeVCardValue(noteLines.join('\n'))}`, 'END:VCARD');
+    return lines.map(foldVCardLine).join('\r\n');
+  }).join('\r\n') + '\r\n';
+
+export const buildJson = (items: ExportItem[], source: string): string =>
+  JSON.stringify({
+    exportedAt: new Date().toISOString(),
+    source,
+    businesses: items.map(({ business, distance, cached }) => ({
+      ...business,
+      distanceKm: distance,
+      details: cached?.details,
+      detailsFetchedAt: cached ? new Date(cached.fetchedAt).toISOString() : undefined,
+    })),
+  }, null, 2);
+
+/**
+ * Loads details for every item that doesn't have any cached yet. Items whose
+ * details can't be fetched, or weren't fetched before `signal` aborted, are
+ * exported without them.
+ */
+export const fillMissingDetails = async (
+  items: ExportItem[],
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal,
+): Promise<ExportItem[]> => {
+  const missing = items.filter(item => !item.cached);
+  const filled = new Map<string, CachedBusinessDetails>();
+  const result = await enrichBusinesses(missing.map(item => item.business), {
+    signal,
+    onItemLoaded: entry => filled.set(entry.placeId, entry),
+    onProgress: ({ completed, total }) => onProgress?.(completed, total),
+  });
+  result.failures.forEach(({ business, message }) =>
+    console.error(`Failed to load details for ${business.title}: ${message}`));
+  return items.map(item => item.cached ? item : { ...item, cached: filled.get(item.business.placeId) });
+};
+
+export const downloadFile = (content: string, filename: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export const exportBusinesses = (items: ExportItem[], format: ExportFormat, source: string) => {
+  const content = format === 'csv' ? buildCsv(items)
+    : format === 'vcard' ? buildVCard(items)
+    : buildJson(items, source);
+  const { extension, mimeType } = FILE_TYPES[format];
+  const date = new Date().toISOString().slice(0, 10);
+  downloadFile(content, `businesses-${source}-${date}.${extension}`, mimeType);
+};
@@ -0,0 +1,176 @@
+import { Business, BusinessDetails, BusinessDataProvider, BusinessLookup, FitRating, GeneratedPitch, GeocodedPlace, LocationCoords, PitchPurpose, PitchRequest, PitchStreamOptions, RequestOptions, ReviewSnippet, SearchOptions, SearchResult, SenderProfile } from '../types';
+import { buildMapsSearchUri } from './responseValidation';
+import { NoLocationError, ServiceError, throwIfAborted, wait } from './errors';
+import { getDistance } from '../utils/geo';
+import demoFixture from '../fixtures/demo.json';
+
+interface FixtureBusiness {
+  title: string;
+  placeId: string;
+  latitude: number;
+  longitude: number;
+  categories: string[];
+  reviews?: ReviewSnippet[];
+}
+
+interface Fixture {
+  center: LocationCoords;
+  latencyMs?: number;
+  /** Maximum businesses per search response, so "load more" can be exercised. */
+  pageSize?: number;
+  businesses: FixtureBusiness[];
+  details: Record<string, BusinessDetails>;
+  /** Keyed by purpose; `{{placeholders}}` are filled from the pitch request. */
+  pitchTemplates: Record<PitchPurpose, GeneratedPitch>;
+  places: GeocodedPlace[];
+}
+
+const fixture = demoFixture as Fixture;
+
+const matchesCategory = (business: FixtureBusiness, category: string): boolean => {
+  const term = category.trim().toLowerCase();
+  if (!term) return false;
+  return business.title.toLowerCase().includes(term) ||
+    business.categories.some(c => c.includes(term) || term.includes(c));
+};
+
+// Recorded coordinates are moved so they keep the same offset (in km) from the
+// user's position as they had from the fixture's center. This keeps distance
+// badges and radius filtering meaningful wherever the demo is run.
+const relocate = (business: FixtureBusiness, location: LocationCoords): LocationCoords => {
+  const toRad = Math.PI / 180;
+  const lonScale = Math.cos(fixture.center.latitude * toRad) / Math.cos(location.latitude * toRad);
+  return {
+    latitude: location.latitude + (business.latitude - fixture.center.latitude),
+    longitude: location.longitude + (business.longitude - fixture.center.longitude) * lonScale,
+  };
+};
+
+export const findNearbyBusinesses = async (
+  category: string,
+  location: LocationCoords | null,
+  manualLocation?: string,
+  options: SearchOptions = {},
+): Promise<SearchResult> => {
+  if (!location && !manualLocation?.trim()) {
+    throw new NoLocationError();
+  }
+  const seen = new Set(options.exclude?.map(item => item.placeId));
+  const { radiusKm } = options;
+  const businesses = fixture.businesses
+    .filter(b => matchesCategory(b, category) && !seen.has(b.placeId))
+    .map(b => {
+      const coords = location ? relocate(b, location) : { latitude: b.latitude, longitude: b.longitude };
+      const uri = buildMapsSearchUri(b.title, b.placeId);
+      return {
+        title: b.title,
+        placeId: b.placeId,
+        latitude: coords.latitude,
+        longitude: coords.longitude,
+        uri,
+        grounding: { sources: [{ title: b.title, uri }], reviewSnippets: b.reviews ?? [] },
+      };
+    })
+    .filter(b => !location || !radiusKm || getDistance(location, b) <= radiusKm)
+    .slice(0, fixture.pageSize ?? Infinity);
+
+  // Streaming is simulated by spreading the latency across the results.
+  const { onBusiness, signal } = options;
+  if (!onBusiness && !signal) {
+    await wait(fixture.latencyMs ?? 0);
+    return { businesses, discardedCount: 0 };
+  }
+  const received: typeof businesses = [];
+  for (const business of businesses) {
+    await wait((fixture.latencyMs ?? 0) / Math.max(1, businesses.length), signal);
+    if (signal?.aborted) return { businesses: received, discardedCount: 0, stopped: true };
+    received.push(business);
+    onBusiness?.(business);
+  }
+  return { businesses: received, discardedCount: 0 };
+};
+
+// Imported businesses are matched to recorded ones by name.
+const findByLookup = (lookup: BusinessLookup): FixtureBusiness | undefined => {
+  const query = lookup.query.toLowerCase();
+  return fixture.businesses.find(b => query.includes(b.title.toLowerCase()));
+};
+
+export const getBusinessDetails = async (placeId: string, lookup?: BusinessLookup, { signal }: RequestOptions = {}): Promise<BusinessDetails> => {
+  await wait(fixture.latencyMs ?? 0, signal);
+  throwIfAborted(signal, 'get business details');
+  const details = fixture.details[placeId] ?? (lookup && fixture.details[findByLookup(lookup)?.placeId ?? '']);
+  if (!details) {
+    throw new ServiceError('unknown', `Failed to get business details: No recorded details for ${lookup ? `"${lookup.query}"` : `place ${placeId}`}.`);
+  }
+  return { ...details, hours: details.hours ? [...details.hours] : undefined };
+};
+
+// Tone and language aren't simulated; the recorded templates are in English.
+export const generateContactPitch = async (
+  request: PitchRequest,
+  { onText, signal }: PitchStreamOptions = {},
+): Promise<GeneratedPitch> => {
+  const values: Record<string, string> = {
+    businessName: request.businessName,
+    businessCategory: request.businessCategory || 'local business',
+    senderCompany: request.sender?.company.trim() || 'our company',
+    senderOffering: request.sender?.offering.trim() || 'our services',
+  };
+  const fill = (template: string) => template.replace(/\{\{(\w+)\}\}/g, (match, key: string) => values[key] ?? match);
+  const template = fixture.pitchTemplates[request.purpose] ?? fixture.pitchTemplates.inquiry;
+  const pitch = { subject: fill(template.subject), body: fill(template.body) };
+  if (!onText && !signal) {
+    await wait(fixture.latencyMs ?? 0);
+    return pitch;
+  }
+
+  // Stream the body a few words at a time.
+  const words = pitch.body.split(/(?<=\s)/);
+  const step = 4;
+  let body = '';
+  for (let i = 0; i < words.length; i += step) {
+    await wait((fixture.latencyMs ?? 0) / Math.ceil(words.length / step), signal);
+    if (signal?.aborted) return { subject: pitch.subject, body: body.trim(), stopped: true };
+    body += words.slice(i, i + step).join('');
+    onText?.({ subject: pitch.subject, body });
+  }
+  return pitch;
+};
+
+// Fit ratings are derived from the business's categories: a business whose
+// categories appear in the sender's offering is rated a strong fit.
+export const rateLeadFit = async (
+  business: Business,
+  sender: SenderProfile,
+  _details?: BusinessDetails,
+  { signal }: RequestOptions = {},
+): Promise<Omit<FitRating, 'ratedAt'>> => {
+  await wait(fixture.latencyMs ?? 0, signal);
+  throwIfAborted(signal, 'rate lead fit');
+  const offering = sender.offering.toLowerCase();
+  const categories = fixture.businesses.find(b => b.placeId === business.placeId)?.categories ?? [];
+  const matched = categories.find(category => offering.includes(category));
+  return matched
+    ? { score: 85, reason: `Your offering mentions ${matched}, which this business is.` }
+    : { score: 40, reason: 'No obvious link between your offering and this kind of business.' };
+};
+
+// Typed locations match recorded places by name; anything else resolves to the
+// fixture's center so searches still return the recorded businesses.
+export const geocodeLocation = async (query: string, { signal }: RequestOptions = {}): Promise<GeocodedPlace[]> => {
+  await wait(fixture.latencyMs ?? 0, signal);
+  throwIfAborted(signal, 'look up the location');
+  const term = query.trim().toLowerCase();
+  const matches = fixture.places.filter(place => place.label.toLowerCase().includes(term));
+  return matches.length > 0 ? matches : [{ label: query.trim(), ...fixture.center }];
+};
+
+export const fixtureProvider: BusinessDataProvider = {
+  name: 'fixture',
+  findNearbyBusinesses,
+  getBusinessDetails,
+  generateContactPitch,
+  rateLeadFit,
+  geocodeLocation,
+};
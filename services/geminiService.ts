@@ -1,179 +1,313 @@
-import { GoogleGenAI, GenerateContentResponse, Type } from "@google/genai";
-import { Business, LocationCoords, GroundingChunk, BusinessDetails } from '../types';
+import { Business, GroundingChunk, BusinessDetails, BusinessDataProvider, BusinessLookup, FitRating, GeneratedPitch, GeocodedPlace, LocationCoords, PitchRequest, PitchStreamOptions, RequestOptions, SearchOptions, SearchResult, SenderProfile } from '../types';
+import {
+  ResponseValidationError,
+  ValidatedBusinesses,
+  parseJsonResponse,
+  matchGroundedBusinesses,
+  validateBusinessesPayload,
+  validateBusinessDetailsPayload,
+  validateGeocodePayload,
+  validateBusinessItems,
+  validatePitchPayload,
+  validateFitPayload,
+} from './responseValidation';
+import { extractCompleteArrayItems } from './streamingJson';
+import { parsePitchText } from './pitch';
+import { NoLocationError, throwIfAborted, toServiceError, withRetry } from './errors';
+import { ProxyChunk, ProxyOperation, ProxyRequest, ProxyUsage } from './proxyApi';
+import { openProxyStream } from './proxyClient';
+import { updateStore } from './storage';
+import { usageLogStore } from './stores';
+import { UsageOutcome, appendUsageRecord } from './usage';
+
+// The Gemini key stays on the server: every call goes through the API proxy in
+// `server/`, which builds the prompt and streams back the model's raw answer.
+// Validating that answer happens here, and each call is added to the usage log.
+
+interface StreamedResponse {
+  text: string;
+  groundingChunks: GroundingChunk[];
+  /** True when the caller stopped the stream before the response was complete. */
+  stopped: boolean;
+}
+
+interface OpenedStream {
+  chunks: AsyncGenerator<ProxyChunk>;
+  startedAt: number;
+}
+
+/** Adds one proxy call to the usage log, whatever its outcome. */
+const recordUsage = (operation: ProxyOperation, startedAt: number, usage: ProxyUsage | undefined, outcome: UsageOutcome, error?: unknown) => {
+  updateStore(usageLogStore, records => appendUsageRecord(records, {
+    operation,
+    startedAt,
+    latencyMs: Date.now() - startedAt,
+    outcome,
+    errorKind: outcome === 'error' ? toServiceError(error, operation).kind : undefined,
+    inputTokens: usage?.inputTokens ?? 0,
+    outputTokens: usage?.outputTokens ?? 0,
+  }));
+};
+
+const openStream = async (request: ProxyRequest, operation: string, signal?: AbortSignal): Promise<OpenedStream> => {
+  const startedAt = Date.now();
+  try {
+    return { chunks: await openProxyStream(request, operation, signal), startedAt };
+  } catch (error) {
+    recordUsage(request.operation, startedAt, undefined, signal?.aborted ? 'stopped' : 'error', error);
+    throw error;
+  }
+};
+
+/**
+ * Reads an opened answer to the end, reporting the text accumulated so far
+ * after each chunk. When `signal` aborts, resolves with whatever had arrived.
+ */
+const readStream = async (
+  { chunks, startedAt }: OpenedStream,
+  operation: ProxyOperation,
+  onText?: (text: string) => void,
+  signal?: AbortSignal,
+): Promise<StreamedResponse> => {
+  const result: StreamedResponse = { text: '', groundingChunks: [], stopped: false };
+  let usage: ProxyUsage | undefined;
+  try {
+    for await (const chunk of chunks) {
+      result.text += chunk.text;
+      result.groundingChunks.push(...chunk.groundingChunks);
+      usage = chunk.usage ?? usage;
+      onText?.(result.text);
+      if (signal?.aborted) break;
+    }
+  } catch (error) {
+    if (!signal?.aborted) {
+      recordUsage(operation, startedAt, usage, 'error', error);
+      throw error;
+    }
+  }
+  result.stopped = !!signal?.aborted;
+  recordUsage(operation, startedAt, usage, result.stopped ? 'stopped' : 'success');
+  return result;
+};
+
+/**
+ * Calls the proxy and reads the whole answer, with retry/backoff for transient
+ * failures. Rejects with an `AbortedError` when `signal` aborts.
+ */
+const generate = (request: ProxyRequest, operation: string, signal?: AbortSignal): Promise<StreamedResponse> =>
+  withRetry(async () => {
+    const response = await readStream(await openStream(request, operation, signal), request.operation, undefined, signal);
+    // Part of an answer is only of use to the streaming callers.
+    throwIfAborted(signal, operation);
+    return response;
+  }, operation, { signal });
+
+/**
+ * Streams an answer, reporting the text accumulated so far after each chunk.
+ * Only opening the stream is retried, so partial output is never repeated.
+ * When `signal` aborts, resolves with whatever had arrived.
+ */
+const generateStream = async (
+  request: ProxyRequest,
+  operation: string,
+  onText: (text: string) => void,
+  signal?: AbortSignal,
+): Promise<StreamedResponse> => {
+  let opened: OpenedStream;
+  try {
+    opened = await withRetry(() => openStream(request, operation, signal), operation, { signal });
+  } catch (error) {
+    if (!signal?.aborted) throw error;
+    return { text: '', groundingChunks: [], stopped: true };
+  }
+  return readStream(opened, request.operation, onText, signal);
+};
+
+/**
+ * Runs a request and validates the response. If the response is unusable,
+ * retries once with a stricter prompt before giving up.
+ */
+const withStrictRetry = async <T>(
+  request: (strict: boolean) => Promise<StreamedResponse>,
+  validate: (response: StreamedResponse) => T,
+): Promise<T> => {
+  try {
+    return validate(await request(false));
+  } catch (error) {
+    if (!(error instanceof ResponseValidationError)) throw error;
+    console.warn("Unusable response from Gemini API, retrying with a stricter prompt:", error.message);
+    return validate(await request(true));
+  }
+};
+
+const validateGroundedResponse = ({ text, groundingChunks }: StreamedResponse): ValidatedBusinesses => {
+  const mapsChunks = groundingChunks.filter(chunk => chunk.maps);
+  let listed: ValidatedBusinesses;
+  try {
+    listed = validateBusinessesPayload(parseJsonResponse(text));
+  } catch (error) {
+    // The grounded places are still usable without the model's list, just without coordinates.
+    if (error instanceof ResponseValidationError && mapsChunks.length > 0) {
+      console.warn("Could not read the business list, using grounding sources only:", error.message);
+      return matchGroundedBusinesses([], mapsChunks);
+    }
+    throw error;
+  }
+  if (listed.businesses.length > 0 && mapsChunks.length === 0) {
+    throw new ResponseValidationError("The response listed businesses without any Google Maps sources.");
+  }
+  const grounded = matchGroundedBusinesses(listed.businesses, mapsChunks);
+  return { ...grounded, discardedCount: grounded.discardedCount + listed.discardedCount, repairedCount: listed.repairedCount };
+};
 
 export const findNearbyBusinesses = async (
   category: string,
   location: LocationCoords | null,
   manualLocation?: string,
-): Promise<Business[]> => {
+  options: SearchOptions = {},
+): Promise<SearchResult> => {
   try {
-    if (!process.env.API_KEY) {
-      throw new Error("API_KEY environment variable not set");
+    if (!location && !manualLocation?.trim()) {
+      throw new NoLocationError();
     }
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-    let contents: string;
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const config: any = {};
-    
-    if (location) {
-      contents = `Find good ${category} businesses near latitude ${location.latitude} and longitude ${location.longitude}.`;
-      config.responseMimeType = "application/json";
-      config.responseSchema = {
-        type: Type.OBJECT,
-        properties: {
-          businesses: {
-            type: Type.ARRAY,
-            description: "A list of nearby businesses.",
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                title: { type: Type.STRING, description: "The name of the business." },
-                placeId: { type: Type.STRING, description: "The Google Maps Place ID." },
-                latitude: { type: Type.NUMBER, description: "The latitude of the business location." },
-                longitude: { type: Type.NUMBER, description: "The longitude of the business location." },
-              },
-              required: ["title", "placeId", "latitude", "longitude"],
-            },
-          },
-        },
-        required: ["businesses"],
-      };
-    } else if (manualLocation?.trim()) {
-      contents = `Find good ${category} businesses in ${manualLocation}.`;
-      config.tools = [{ googleMaps: {} }];
+    const search = { operation: 'search', category, location, manualLocation, exclude: options.exclude, radiusKm: options.radiusKm } as const;
+    const { onBusiness, signal } = options;
+    const request = (strict: boolean) => generate({ ...search, strict }, 'find businesses', signal);
+
+    // Remove duplicates by placeId, and anything the caller has already seen
+    const seen = new Set(options.exclude?.map(item => item.placeId));
+    const dedupe = (businesses: Business[]): Business[] =>
+      Array.from(new Map(businesses.map(item => [item.placeId, item])).values())
+        .filter(item => !seen.has(item.placeId));
+
+    // When streaming, each business is reported as soon as its JSON object is
+    // complete. Grounding sources only arrive at the end, so these are provisional.
+    let first: StreamedResponse;
+    if (onBusiness || signal) {
+      const reported = new Set<string>();
+      let itemCount = 0;
+      first = await generateStream({ ...search, strict: false }, 'find businesses', text => {
+        const items = extractCompleteArrayItems(text);
+        if (items.length === itemCount) return;
+        for (const business of dedupe(validateBusinessItems(items.slice(itemCount)).businesses)) {
+          if (reported.has(business.placeId)) continue;
+          reported.add(business.placeId);
+          onBusiness?.(business);
+        }
+        itemCount = items.length;
+      }, signal);
     } else {
-      throw new Error("A location (either automatic or manual) must be provided.");
+      first = await request(false);
     }
-    
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents,
-      config,
-    });
-    
-    let businesses: Business[] = [];
-
-    if (location) {
-      // Handle JSON response for geolocation search
-      if (response.text) {
-        const parsed = JSON.parse(response.text);
-        businesses = (parsed.businesses || []).map((b: any) => ({
-            title: b.title,
-            placeId: b.placeId,
-            latitude: b.latitude,
-            longitude: b.longitude,
-            uri: `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(b.title)}&query_place_id=${b.placeId}`,
-        }));
-      }
-    } else {
-      // Handle grounding response for manual location search
-      const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-      if (groundingChunks && groundingChunks.length > 0) {
-        businesses = (groundingChunks as GroundingChunk[])
-            .filter(chunk => chunk.maps && chunk.maps.title && chunk.maps.uri)
-            .map(chunk => ({
-                title: chunk.maps.title,
-                uri: chunk.maps.uri,
-                placeId: chunk.maps.placeId,
-            }));
-      }
+
+    // A stopped answer keeps only the businesses its grounding sources so far
+    // confirm, like a complete one; the provisional list is replaced by these.
+    const toStoppedResult = (response: StreamedResponse): SearchResult => {
+      const received = validateBusinessItems(extractCompleteArrayItems(response.text));
+      const grounded = matchGroundedBusinesses(received.businesses, response.groundingChunks.filter(chunk => chunk.maps));
+      return { businesses: dedupe(grounded.businesses), discardedCount: received.discardedCount + grounded.discardedCount, stopped: true };
+    };
+    if (first.stopped) return toStoppedResult(first);
+
+    let validated: ValidatedBusinesses;
+    try {
+      validated = await withStrictRetry(
+        strict => strict ? request(true) : Promise.resolve(first),
+        validateGroundedResponse,
+      );
+    } catch (error) {
+      // Stopped during the stricter retry: fall back to what the first answer listed.
+      if (signal?.aborted) return toStoppedResult(first);
+      throw error;
     }
-      
-    // Remove duplicates by placeId
-    const uniqueBusinesses = Array.from(new Map(businesses.map(item => [item.placeId, item])).values());
-    return uniqueBusinesses;
+
+    if (validated.discardedCount > 0 || validated.repairedCount > 0) {
+      console.warn(`Discarded ${validated.discardedCount} and repaired ${validated.repairedCount} invalid or unverified businesses in the API response.`);
+    }
+
+    return { businesses: dedupe(validated.businesses), discardedCount: validated.discardedCount };
 
   } catch (error) {
     console.error("Error fetching data from Gemini API:", error);
-    if (error instanceof Error) {
-        throw new Error(`Failed to find businesses: ${error.message}`);
-    }
-    throw new Error("An unknown error occurred while finding businesses.");
+    throw toServiceError(error, 'find businesses');
   }
 };
 
-export const getBusinessDetails = async (placeId: string): Promise<BusinessDetails> => {
+export const getBusinessDetails = async (placeId: string, lookup?: BusinessLookup, { signal }: RequestOptions = {}): Promise<BusinessDetails> => {
   try {
-    if (!process.env.API_KEY) {
-      throw new Error("API_KEY environment variable not set");
-    }
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: `Provide details for the business with Google Maps Place ID: ${placeId}. Ensure the address is complete and the phone number includes the country code.`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            address: {
-              type: Type.STRING,
-              description: "The full, formatted street address of the business."
-            },
-            phone: {
-              type: Type.STRING,
-              description: "The international phone number for the business."
-            },
-            hours: {
-              type: Type.ARRAY,
-              description: "A list of strings, each representing the opening hours for a day of the week.",
-              items: { type: Type.STRING }
-            },
-            website: {
-              type: Type.STRING,
-              description: "The official website URL of the business."
-            }
-          },
-          required: ["address", "phone", "hours"]
-        }
-      }
-    });
+    const request = (strict: boolean) => generate({ operation: 'details', placeId, lookup, strict }, 'get business details', signal);
 
-    if (!response.text) {
-        throw new Error("Received an empty response from the API.");
-    }
-
-    const details = JSON.parse(response.text);
-    return details;
+    return await withStrictRetry(request, response => validateBusinessDetailsPayload(parseJsonResponse(response.text)));
 
   } catch (error) {
     console.error("Error fetching business details from Gemini API:", error);
-     if (error instanceof Error) {
-        throw new Error(`Failed to get business details: ${error.message}`);
-    }
-    throw new Error("An unknown error occurred while fetching business details.");
+    throw toServiceError(error, 'get business details');
   }
 };
 
-export const generateContactPitch = async (businessName: string, businessCategory: string): Promise<string> => {
+export const generateContactPitch = async (
+  pitchRequest: PitchRequest,
+  { onText, signal }: PitchStreamOptions = {},
+): Promise<GeneratedPitch> => {
   try {
-    if (!process.env.API_KEY) {
-      throw new Error("API_KEY environment variable not set");
-    }
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: `Generate a short, professional outreach email template to a business.
-      Business Name: "${businessName}"
-      Business Category: "${businessCategory}"
-
-      The email should be from a potential customer inquiring about their services. Make it friendly, concise, and easy to customize. Provide only the email body text, without any introduction or sign-off formalities like "Subject:" or "Sincerely,".`,
-       config: {
-        systemInstruction: "You are a helpful assistant that writes professional business communication.",
-      }
-    });
-
-    if (!response.text) {
-      throw new Error("Received an empty response from the API.");
+    const request = (strict: boolean): ProxyRequest => ({ operation: 'pitch', request: pitchRequest, strict });
+
+    const first = onText || signal
+      ? await generateStream(request(false), 'generate pitch', text => onText?.(parsePitchText(text)), signal)
+      : await generate(request(false), 'generate pitch');
+    if (first.stopped) {
+      return { ...parsePitchText(first.text), stopped: true };
     }
 
-    return response.text;
+    try {
+      return await withStrictRetry(
+        strict => strict ? generate(request(true), 'generate pitch', signal) : Promise.resolve(first),
+        response => validatePitchPayload(parsePitchText(response.text)),
+      );
+    } catch (error) {
+      if (signal?.aborted) return { ...parsePitchText(first.text), stopped: true };
+      throw error;
+    }
   } catch (error) {
     console.error("Error generating contact pitch:", error);
-    if (error instanceof Error) {
-        throw new Error(`Failed to generate pitch: ${error.message}`);
-    }
-    throw new Error("An unknown error occurred while generating the contact pitch.");
+    throw toServiceError(error, 'generate pitch');
   }
-};
\ No newline at end of file
+};
+
+export const rateLeadFit = async (
+  business: Business,
+  sender: SenderProfile,
+  details?: BusinessDetails,
+  { signal }: RequestOptions = {},
+): Promise<Omit<FitRating, 'ratedAt'>> => {
+  try {
+    const request = (strict: boolean) => generate({ operation: 'fit', business, sender, details, strict }, 'rate lead fit', signal);
+
+    return await withStrictRetry(request, response => validateFitPayload(parseJsonResponse(response.text)));
+
+  } catch (error) {
+    console.error("Error rating lead fit with Gemini API:", error);
+    throw toServiceError(error, 'rate lead fit');
+  }
+};
+
+export const geocodeLocation = async (query: string, { signal }: RequestOptions = {}): Promise<GeocodedPlace[]> => {
+  try {
+    const request = (strict: boolean) => generate({ operation: 'geocode', query, strict }, 'look up the location', signal);
+
+    return await withStrictRetry(request, response => validateGeocodePayload(parseJsonResponse(response.text)));
+
+  } catch (error) {
+    console.error("Error geocoding location with Gemini API:", error);
+    throw toServiceError(error, 'look up the location');
+  }
+};
+
+export const geminiProvider: BusinessDataProvider = {
+  name: 'gemini',
+  findNearbyBusinesses,
+  getBusinessDetails,
+  generateContactPitch,
+  rateLeadFit,
+  geocodeLocation,
+};
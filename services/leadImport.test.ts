@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_TEXT_LENGTH } from './proxyApi';
+import { buildCsv } from './exportService';
+import { IMPORTED_PLACE_ID_PREFIX, guessColumnMapping, mapImportRows, parseCsv, parseLeadFile } from './leadImport';
+
+describe('parseCsv', () => {
+  it('handles quoted commas, doubled quotes, line breaks and a byte order mark', () => {
+    expect(parseCsv('\uFEFFname,notes\r\n"Joe\'s, Inc.","said ""hi""\nthen left"\r\n')).toEqual([
+      ['name', 'notes'],
+      ["Joe's, Inc.", 'said "hi"\nthen left'],
+    ]);
+  });
+
+  it('drops blank rows and keeps a last row without a line break', () => {
+    expect(parseCsv('a,b\n\n,\n1,2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+});
+
+describe('parseLeadFile', () => {
+  it('reads the JSON export, flattening details', () => {
+    const json = JSON.stringify({ businesses: [{ title: 'A', placeId: 'a', details: { phone: '1', hours: ['Mon: 9-5', 'Tue: 9-5'] } }] });
+    const table = parseLeadFile(json, 'leads.json');
+    expect(table.headers).toEqual(['title', 'placeId', 'phone', 'hours']);
+    expect(table.rows).toEqual([['A', 'a', '1', 'Mon: 9-5; Tue: 9-5']]);
+  });
+
+  it('gives back the values the CSV export wrote, without its formula guard', () => {
+    const titles = ['=SUM(A1)', '+1 Plumbing', '-minus', '@home', 'Plain'];
+    const csv = buildCsv(titles.map((title, i) => ({ business: { title, placeId: `p${i}`, uri: '', latitude: -1.5, longitude: 2 } })));
+    const table = parseLeadFile(csv, 'leads.csv');
+    const mapping = guessColumnMapping(table.headers);
+    const { leads } = mapImportRows(table, mapping);
+    expect(leads.map(lead => lead.business.title)).toEqual(titles);
+    expect(leads[0].business).toMatchObject({ placeId: 'p0', latitude: -1.5, longitude: 2 });
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('matches common header names regardless of case and separators', () => {
+    expect(guessColumnMapping(['Business Name', 'Street Address', 'place_id', 'Tel', 'LAT', 'lng'])).toEqual({
+      title: 0, address: 1, placeId: 2, phone: 3, latitude: 4, longitude: 5,
+    });
+  });
+});
+
+describe('mapImportRows', () => {
+  const table = {
+    headers: ['name', 'address', 'phone', 'hours', 'lat', 'lng'],
+    rows: [
+      ['Joe\'s Pizza', '1 Main St', '555-0100', 'Mon: 9-5; Tue: 9-5', '39.78', '500'],
+      ['', 'No name', '', '', '', ''],
+    ],
+  };
+  const mapping = guessColumnMapping(table.headers);
+
+  it('skips rows without a name and gives the rest a placeholder ID and lookup query', () => {
+    const { leads, skipped } = mapImportRows(table, mapping);
+    expect(skipped).toBe(1);
+    expect(leads).toHaveLength(1);
+    const [{ business, details }] = leads;
+    expect(business.placeId.startsWith(IMPORTED_PLACE_ID_PREFIX)).toBe(true);
+    expect(business.lookup).toEqual({ query: "Joe's Pizza, 1 Main St, 555-0100" });
+    expect(business.uri).toContain('query=Joe');
+    expect(details).toEqual({ address: '1 Main St', phone: '555-0100', hours: ['Mon: 9-5', 'Tue: 9-5'] });
+  });
+
+  it('drops coordinates that are out of range', () => {
+    const [{ business }] = mapImportRows(table, mapping).leads;
+    expect(business.latitude).toBeUndefined();
+    expect(business.longitude).toBeUndefined();
+  });
+
+  it('cuts text to what the proxy accepts', () => {
+    const long = 'x'.repeat(MAX_TEXT_LENGTH + 100);
+    const [{ business, details }] = mapImportRows({ headers: ['name', 'address'], rows: [[long, long]] }, { title: 0, address: 1 }).leads;
+    expect(business.title).toHaveLength(MAX_TEXT_LENGTH);
+    expect(details?.address).toHaveLength(MAX_TEXT_LENGTH);
+    expect(business.lookup?.query).toHaveLength(MAX_TEXT_LENGTH);
+  });
+});
@@ -0,0 +1,192 @@
+import { Business, BusinessDetails } from '../types';
+import { buildMapsSearchUri } from './responseValidation';
+import { MAX_HOURS_LINES, MAX_TEXT_LENGTH } from './proxyApi';
+
+export type LeadImportField = 'title' | 'placeId' | 'uri' | 'latitude' | 'longitude' | 'address' | 'phone' | 'website' | 'hours';
+
+export const LEAD_IMPORT_FIELDS: { value: LeadImportField; label: string; aliases: string[] }[] = [
+  { value: 'title', label: 'Name', aliases: ['title', 'name', 'business', 'business name', 'company', 'company name'] },
+  { value: 'placeId', label: 'Place ID', aliases: ['placeid', 'place id', 'place_id', 'google place id'] },
+  { value: 'uri', label: 'Maps link', aliases: ['uri', 'url', 'maps url', 'google maps', 'link'] },
+  { value: 'latitude', label: 'Latitude', aliases: ['latitude', 'lat'] },
+  { value: 'longitude', label: 'Longitude', aliases: ['longitude', 'lng', 'lon', 'long'] },
+  { value: 'address', label: 'Address', aliases: ['address', 'street address', 'location', 'full address'] },
+  { value: 'phone', label: 'Phone', aliases: ['phone', 'phone number', 'telephone', 'tel'] },
+  { value: 'website', label: 'Website', aliases: ['website', 'web', 'site', 'homepage'] },
+  { value: 'hours', label: 'Opening hours', aliases: ['hours', 'opening hours', 'open hours'] },
+];
+
+/** Which column (by index) each field is read from; unmapped fields are left out. */
+export type ColumnMapping = Partial<Record<LeadImportField, number>>;
+
+export interface ImportTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportedLead {
+  business: Business;
+  details?: BusinessDetails;
+}
+
+/** Parses RFC 4180 CSV: quoted fields may contain commas, doubled quotes and line breaks. */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+};
+
+const toCell = (value: unknown): string =>
+  value === null || value === undefined ? ''
+    : Array.isArray(value) ? value.join('; ')
+      : typeof value === 'object' ? JSON.stringify(value)
+        : String(value);
+
+/**
+ * Reads a lead list as a table. CSV files need a header row; JSON files must
+ * hold an array of objects (or `{ businesses: [...] }` as written by the JSON
+ * export), whose keys become the headers. Nested `details` are flattened.
+ */
+export const parseLeadFile = (text: string, fileName: string): ImportTable => {
+  if (/\.json$/i.test(fileName) || /^\s*[[{]/.test(text)) {
+    const parsed = JSON.parse(text);
+    const items: unknown[] = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.businesses) ? parsed.businesses : [];
+    const records = items
+      .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+      .map(item => ({
+        ...item,
+        ...(item.details && typeof item.details === 'object' ? item.details : {}),
+      } as Record<string, unknown>));
+    const headers = Array.from(new Set(records.flatMap(record => Object.keys(record))))
+      .filter(header => header !== 'details');
+    return { headers, rows: records.map(record => headers.map(header => toCell(record[header]))) };
+  }
+  const [headers = [], ...rows] = parseCsv(text);
+  return { headers: headers.map(header => header.trim()), rows: rows.map(row => row.map(restoreFormulaCell)) };
+};
+
+/**
+ * Undoes the `'` the CSV export puts before cells that a spreadsheet would
+ * read as a formula, so an exported file imports with its original values.
+ */
+const restoreFormulaCell = (cell: string): string =>
+  /^'[=+\-@\t\r]/.test(cell) && !/^-?\d+(\.\d+)?$/.test(cell.slice(1)) ? cell.slice(1) : cell;
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[_-]+/g, ' ');
+
+/** Maps each field to the first column whose header is one of its usual names. */
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+  for (const { value, aliases } of LEAD_IMPORT_FIELDS) {
+    const index = normalized.findIndex(header => aliases.includes(header));
+    if (index !== -1) mapping[value] = index;
+  }
+  return mapping;
+};
+
+const parseCoordinate = (value: string | undefined, limit: number): number | undefined => {
+  if (!value?.trim()) return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) && Math.abs(number) <= limit ? number : undefined;
+};
+
+/** Starts the placeholder place ID of an imported business that has none. */
+export const IMPORTED_PLACE_ID_PREFIX = 'import:';
+
+/** Google Maps search link for an imported business without a place ID. */
+export const buildLookupUri = (query: string): string =>
+  `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(query)}`;
+
+const createPlaceholderId = () => `${IMPORTED_PLACE_ID_PREFIX}${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Imported text is cut to what the proxy accepts, so lookups and pitches for the lead aren't refused.
+const truncate = (text: string): string => text.slice(0, MAX_TEXT_LENGTH).trim();
+
+/**
+ * Turns table rows into businesses using `mapping`. Rows without a name are
+ * skipped. Rows without a place ID (or with one too long to be real) get a
+ * placeholder ID and a `lookup` query, so their details can be found by name
+ * and address later.
+ */
+export const mapImportRows = (table: ImportTable, mapping: ColumnMapping): { leads: ImportedLead[]; skipped: number } => {
+  const leads: ImportedLead[] = [];
+  let skipped = 0;
+
+  for (const row of table.rows) {
+    const get = (field: LeadImportField) => {
+      const index = mapping[field];
+      const value = index === undefined ? undefined : row[index]?.trim();
+      return value ? truncate(value) : undefined;
+    };
+    const title = get('title');
+    if (!title) {
+      skipped++;
+      continue;
+    }
+
+    const details: BusinessDetails = {};
+    const address = get('address');
+    const phone = get('phone');
+    const website = get('website');
+    const hours = get('hours')?.split(/\s*[;\n]\s*/).filter(Boolean).slice(0, MAX_HOURS_LINES);
+    if (address) details.address = address;
+    if (phone) details.phone = phone;
+    if (website) details.website = website;
+    if (hours?.length) details.hours = hours;
+
+    const rawPlaceId = get('placeId');
+    const knownPlaceId = rawPlaceId && rawPlaceId.length < MAX_TEXT_LENGTH ? rawPlaceId : undefined;
+    const placeId = knownPlaceId ?? createPlaceholderId();
+    const query = truncate([title, address, phone].filter(Boolean).join(', ').replace(/\s+/g, ' '));
+    const uri = get('uri');
+    const latitude = parseCoordinate(get('latitude'), 90);
+    const longitude = parseCoordinate(get('longitude'), 180);
+
+    const business: Business = {
+      title,
+      placeId,
+      uri: uri?.startsWith('http') ? uri
+        : knownPlaceId ? buildMapsSearchUri(title, knownPlaceId)
+          : buildLookupUri(query),
+      ...(latitude !== undefined && longitude !== undefined ? { latitude, longitude } : {}),
+      ...(knownPlaceId ? {} : { lookup: { query } }),
+    };
+    leads.push({ business, ...(Object.keys(details).length > 0 ? { details } : {}) });
+  }
+  return { leads, skipped };
+};
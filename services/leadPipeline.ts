@@ -0,0 +1,58 @@
+import { Business, LeadInfo, LeadNote, LeadStatus, SavedBusiness } from '../types';
+
+export const LEAD_STATUSES: { value: LeadStatus; label: string; badgeClass: string }[] = [
+  { value: 'new', label: 'New', badgeClass: 'bg-slate-600 text-slate-100' },
+  { value: 'contacted', label: 'Contacted', badgeClass: 'bg-sky-700 text-sky-100' },
+  { value: 'replied', label: 'Replied', badgeClass: 'bg-indigo-700 text-indigo-100' },
+  { value: 'qualified', label: 'Qualified', badgeClass: 'bg-amber-600 text-amber-50' },
+  { value: 'won', label: 'Won', badgeClass: 'bg-emerald-700 text-emerald-100' },
+  { value: 'lost', label: 'Lost', badgeClass: 'bg-rose-800 text-rose-100' },
+];
+
+export const getLeadStatusMeta = (status: LeadStatus) =>
+  LEAD_STATUSES.find(s => s.value === status) ?? LEAD_STATUSES[0];
+
+export const createLead = (): LeadInfo => ({
+  status: 'new',
+  notes: [],
+  updatedAt: Date.now(),
+});
+
+export const toSavedBusiness = (business: Business): SavedBusiness => ({
+  ...business,
+  savedAt: Date.now(),
+  lead: createLead(),
+});
+
+/**
+ * Brings a stored favorite up to the current shape. Favorites saved before the
+ * pipeline existed are plain `Business` objects and become "new" leads.
+ */
+export const normalizeSavedBusiness = (stored: Business & Partial<SavedBusiness>): SavedBusiness => ({
+  ...stored,
+  savedAt: stored.savedAt ?? Date.now(),
+  lead: {
+    ...createLead(),
+    ...stored.lead,
+    notes: stored.lead?.notes ?? [],
+  },
+});
+
+export const createLeadNote = (text: string): LeadNote => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  text,
+  createdAt: Date.now(),
+});
+
+const toLocalDateString = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/** True when the lead has a follow-up date of today or earlier and is still open. */
+export const isFollowUpDue = (lead: LeadInfo, now = new Date()): boolean =>
+  !!lead.followUpDate &&
+  lead.status !== 'won' &&
+  lead.status !== 'lost' &&
+  lead.followUpDate <= toLocalDateString(now);
@@ -0,0 +1,130 @@
+import { Business, BusinessDetails, FitRating, LeadScoreFactor, LeadScoringConfig, SenderProfile } from '../types';
+import { parseOpeningHours } from './openingHours';
+
+export const LEAD_SCORE_FACTORS: { value: LeadScoreFactor; label: string; description: string }[] = [
+  { value: 'distance', label: 'Distance', description: 'Closer to the search center within the radius' },
+  { value: 'phone', label: 'Phone', description: 'Has a listed phone number' },
+  { value: 'website', label: 'Website', description: 'Has a website' },
+  { value: 'hours', label: 'Hours', description: 'Open more hours per week' },
+  { value: 'keywords', label: 'Keywords', description: 'Name contains one of your keywords' },
+  { value: 'fit', label: 'Fit rating', description: 'Model-assisted fit with your sender profile' },
+];
+
+export const DEFAULT_LEAD_SCORING: LeadScoringConfig = {
+  weights: { distance: 6, phone: 4, website: 4, hours: 3, keywords: 3, fit: 5 },
+  keywords: [],
+};
+
+export const MAX_FACTOR_WEIGHT = 10;
+
+// Open this many hours a week (12 hours, 7 days) counts as full hours coverage.
+const FULL_COVERAGE_MINUTES = 12 * 60 * 7;
+
+export interface LeadScoreInput {
+  title: string;
+  distance?: number;
+  radiusKm?: number;
+  details?: BusinessDetails;
+  fit?: FitRating;
+}
+
+export interface LeadScoreFactorResult {
+  factor: LeadScoreFactor;
+  label: string;
+  weight: number;
+  /** 0 to 1, or null when the data needed is missing (counted as 0). */
+  value: number | null;
+  detail: string;
+}
+
+export interface LeadScore {
+  /** 0 to 100. */
+  total: number;
+  factors: LeadScoreFactorResult[];
+}
+
+const weeklyOpenMinutes = (hours: string[]): number | null => {
+  const schedule = parseOpeningHours(hours);
+  if (!schedule) return null;
+  return schedule.reduce((sum, spans) => sum + (spans ?? []).reduce((daySum, span) => daySum + (span.close - span.open), 0), 0);
+};
+
+const evaluateFactor = (factor: LeadScoreFactor, input: LeadScoreInput, config: LeadScoringConfig): { value: number | null; detail: string } => {
+  const { details } = input;
+  switch (factor) {
+    case 'distance':
+      if (input.distance === undefined || !input.radiusKm) return { value: null, detail: 'distance unknown' };
+      return {
+        value: Math.max(0, 1 - input.distance / input.radiusKm),
+        detail: `${input.distance.toFixed(1)} km of ${input.radiusKm} km`,
+      };
+    case 'phone':
+      if (!details) return { value: null, detail: 'details not loaded' };
+      return details.phone ? { value: 1, detail: 'listed' } : { value: 0, detail: 'none listed' };
+    case 'website':
+      if (!details) return { value: null, detail: 'details not loaded' };
+      return details.website ? { value: 1, detail: 'listed' } : { value: 0, detail: 'none listed' };
+    case 'hours': {
+      if (!details) return { value: null, detail: 'details not loaded' };
+      const minutes = details.hours ? weeklyOpenMinutes(details.hours) : null;
+      if (minutes === null) return { value: 0, detail: 'hours unknown' };
+      return { value: Math.min(1, minutes / FULL_COVERAGE_MINUTES), detail: `${Math.round(minutes / 60)} h/week` };
+    }
+    case 'keywords': {
+      const name = input.title.toLowerCase();
+      const matched = config.keywords.filter(keyword => name.includes(keyword.toLowerCase()));
+      return matched.length > 0 ? { value: 1, detail: `matches "${matched[0]}"` } : { value: 0, detail: 'no match' };
+    }
+    case 'fit':
+      if (!input.fit) return { value: null, detail: 'not rated' };
+      return { value: input.fit.score / 100, detail: input.fit.reason };
+  }
+};
+
+/**
+ * Scores a business as a lead from 0 to 100: the weighted average of each
+ * factor's value. Missing data counts as 0, so enriching results can only
+ * raise their score. The keyword factor is skipped when no keywords are set.
+ */
+export const scoreLead = (input: LeadScoreInput, config: LeadScoringConfig): LeadScore => {
+  const factors = LEAD_SCORE_FACTORS
+    .filter(({ value }) => config.weights[value] > 0 && (value !== 'keywords' || config.keywords.length > 0))
+    .map(({ value: factor, label }): LeadScoreFactorResult => ({
+      factor,
+      label,
+      weight: config.weights[factor],
+      ...evaluateFactor(factor, input, config),
+    }));
+  const totalWeight = factors.reduce((sum, f) => sum + f.weight, 0);
+  const points = factors.reduce((sum, f) => sum + f.weight * (f.value ?? 0), 0);
+  return { total: totalWeight > 0 ? Math.round((points / totalWeight) * 100) : 0, factors };
+};
+
+/** One line per factor, for the score tooltip. */
+export const describeLeadScore = (score: LeadScore): string =>
+  [
+    `Lead score ${score.total}/100`,
+    ...score.factors.map(f => `${f.label} (weight ${f.weight}): ${f.value === null ? '—' : Math.round(f.value * 100)} · ${f.detail}`),
+  ].join('\n');
+
+export const getLeadScoreBadgeClass = (total: number): string =>
+  total >= 70 ? 'bg-emerald-700 text-emerald-100'
+    : total >= 40 ? 'bg-amber-600 text-amber-50'
+      : 'bg-slate-600 text-slate-200';
+
+export const buildFitPrompt = (business: Business, sender: SenderProfile, details?: BusinessDetails): string => {
+  const lines = [
+    'Rate how good a sales lead this local business is for the sender, from 0 (poor fit) to 100 (ideal fit).',
+    `Business Name: "${business.title}"`,
+  ];
+  if (details?.address) lines.push(`Business Address: ${details.address}`);
+  if (details?.website) lines.push(`Business Website: ${details.website}`);
+  lines.push(
+    '',
+    `Sender Company: ${sender.company.trim() || 'not specified'}`,
+    `What the sender offers: ${sender.offering.trim()}`,
+    '',
+    'Consider whether a business of this kind is likely to need the offering. Give the reason in one short sentence.',
+  );
+  return lines.join('\n');
+};
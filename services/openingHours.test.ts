@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { describeOpenStatus, getOpenStatusAt, matchesOpenHoursFilter, parseOpeningHours } from './openingHours';
+
+const WEEKDAYS_NINE_TO_FIVE = [
+  'Monday: 9:00 AM – 5:00 PM',
+  'Tuesday: 9:00 AM – 5:00 PM',
+  'Wednesday: 9:00 AM – 5:00 PM',
+  'Thursday: 9:00 AM – 5:00 PM',
+  'Friday: 9:00 AM – 5:00 PM',
+  'Saturday: Closed',
+  'Sunday: Closed',
+];
+
+const at = (hour: number, minute = 0) => hour * 60 + minute;
+
+describe('parseOpeningHours', () => {
+  it('parses one line per day', () => {
+    const schedule = parseOpeningHours(WEEKDAYS_NINE_TO_FIVE);
+    expect(schedule?.[1]).toEqual([{ open: at(9), close: at(17) }]);
+    expect(schedule?.[6]).toEqual([]);
+    expect(schedule?.[0]).toEqual([]);
+  });
+
+  it('parses day ranges, groups and several spans a day', () => {
+    const schedule = parseOpeningHours(['Mon-Fri: 11:30 AM – 2:00 PM, 5:00 – 10:00 PM', 'Weekends: noon to midnight']);
+    expect(schedule?.[3]).toEqual([{ open: at(11, 30), close: at(14) }, { open: at(17), close: at(22) }]);
+    expect(schedule?.[0]).toEqual([{ open: at(12), close: at(24) }]);
+  });
+
+  it('treats spans ending before they start as running past midnight', () => {
+    expect(parseOpeningHours(['Friday: 22:00-02:00'])?.[5]).toEqual([{ open: at(22), close: at(26) }]);
+  });
+
+  it('applies a single line without a day to every day', () => {
+    expect(parseOpeningHours(['Open 24 hours'])).toEqual(Array(7).fill([{ open: 0, close: at(24) }]));
+  });
+
+  it('leaves days with unreadable lines unknown', () => {
+    const schedule = parseOpeningHours(['Monday: 9:00 AM – 5:00 PM', 'Tuesday: by appointment']);
+    expect(schedule?.[1]).toHaveLength(1);
+    expect(schedule?.[2]).toBeNull();
+  });
+
+  it('returns null when nothing can be parsed', () => {
+    expect(parseOpeningHours(undefined)).toBeNull();
+    expect(parseOpeningHours(['Call ahead'])).toBeNull();
+  });
+});
+
+describe('getOpenStatusAt', () => {
+  const schedule = parseOpeningHours(WEEKDAYS_NINE_TO_FIVE)!;
+
+  it('reports when an open business closes', () => {
+    const status = getOpenStatusAt(schedule, 1, at(10));
+    expect(status).toEqual({ isOpen: true, isAlwaysOpen: false, changesAt: { day: 1, minutes: at(17), daysAhead: 0 } });
+    expect(describeOpenStatus(status!)).toBe('Open now · closes at 17:00');
+  });
+
+  it('reports the next opening on a later day', () => {
+    const status = getOpenStatusAt(schedule, 5, at(18));
+    expect(status?.isOpen).toBe(false);
+    expect(status?.changesAt).toEqual({ day: 1, minutes: at(9), daysAhead: 3 });
+    expect(describeOpenStatus(status!)).toBe('Closed · opens Mon 09:00');
+  });
+
+  it('tells a reopening next week apart from one later today', () => {
+    const onlyMonday = parseOpeningHours(['Monday: 9:00 AM – 5:00 PM', ...WEEKDAYS_NINE_TO_FIVE.slice(1).map(line => line.replace(/:.*/, ': Closed'))])!;
+    expect(describeOpenStatus(getOpenStatusAt(onlyMonday, 1, at(8))!)).toBe('Closed · opens at 09:00');
+    expect(describeOpenStatus(getOpenStatusAt(onlyMonday, 1, at(18))!)).toBe('Closed · opens next Mon 09:00');
+  });
+
+  it('keeps a late span open after midnight, including from Saturday into Sunday', () => {
+    const lateNights = parseOpeningHours(['Saturday: 8:00 PM – 3:00 AM'])!;
+    expect(getOpenStatusAt(lateNights, 0, at(1))?.isOpen).toBe(true);
+  });
+
+  it('returns null when the day asked about is unknown', () => {
+    expect(getOpenStatusAt(parseOpeningHours(['Monday: 9:00 AM – 5:00 PM'])!, 2, at(10))).toBeNull();
+  });
+
+  it('recognizes businesses that never close', () => {
+    expect(describeOpenStatus(getOpenStatusAt(parseOpeningHours(['Daily: 24 hours'])!, 3, at(3))!)).toBe('Open 24 hours');
+  });
+});
+
+describe('matchesOpenHoursFilter', () => {
+  it('matches a day and time, and returns null for missing hours', () => {
+    expect(matchesOpenHoursFilter(WEEKDAYS_NINE_TO_FIVE, { mode: 'at', day: 2, minutes: at(12) })).toBe(true);
+    expect(matchesOpenHoursFilter(WEEKDAYS_NINE_TO_FIVE, { mode: 'at', day: 6, minutes: at(12) })).toBe(false);
+    expect(matchesOpenHoursFilter(undefined, { mode: 'now' })).toBeNull();
+    expect(matchesOpenHoursFilter(undefined, { mode: 'any' })).toBe(true);
+  });
+});
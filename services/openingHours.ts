@@ -0,0 +1,258 @@
+import { TimeSpan, WeeklySchedule } from '../types';
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+
+const DAY_KEYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+const DAY_GROUPS: Record<string, number[]> = {
+  'daily': ALL_DAYS,
+  'every day': ALL_DAYS,
+  'everyday': ALL_DAYS,
+  'all week': ALL_DAYS,
+  'weekdays': [1, 2, 3, 4, 5],
+  'weekends': [0, 6],
+};
+
+const RANGE_SEPARATOR = /\s*(?:-|–|—|\bto\b|\bthrough\b|\bthru\b)\s*/;
+
+const parseDay = (word: string): number | null => {
+  const index = DAY_KEYS.indexOf(word.trim().toLowerCase().replace(/\./g, '').slice(0, 3));
+  return index === -1 ? null : index;
+};
+
+/** Parses "Monday", "Mon-Fri", "Sat & Sun", "Weekdays" and similar into day indexes. */
+const parseDays = (text: string): number[] | null => {
+  const normalized = text.trim().toLowerCase();
+  if (DAY_GROUPS[normalized]) return DAY_GROUPS[normalized];
+
+  const days: number[] = [];
+  for (const part of normalized.split(/\s*(?:,|&|\band\b)\s*/)) {
+    if (DAY_GROUPS[part]) {
+      days.push(...DAY_GROUPS[part]);
+      continue;
+    }
+    const bounds = part.split(RANGE_SEPARATOR);
+    const start = parseDay(bounds[0]);
+    const end = bounds.length === 2 ? parseDay(bounds[1]) : start;
+    if (start === null || end === null || bounds.length > 2) return null;
+    for (let day = start; ; day = (day + 1) % 7) {
+      days.push(day);
+      if (day === end) break;
+    }
+  }
+  return days.length > 0 ? days : null;
+};
+
+interface ParsedTime {
+  hour: number;
+  minute: number;
+  meridiem?: 'a' | 'p';
+}
+
+const parseTime = (text: string): ParsedTime | null => {
+  const normalized = text.trim().toLowerCase();
+  if (normalized === 'noon') return { hour: 12, minute: 0, meridiem: 'p' };
+  if (normalized === 'midnight') return { hour: 12, minute: 0, meridiem: 'a' };
+  const match = normalized.match(/^(\d{1,2})(?:[:.](\d{2}))?\s*(?:([ap])\.?\s*m?\.?)?$/);
+  if (!match) return null;
+  const hour = Number(match[1]);
+  const minute = match[2] ? Number(match[2]) : 0;
+  if (hour > 24 || minute > 59) return null;
+  return { hour, minute, meridiem: match[3] as ParsedTime['meridiem'] };
+};
+
+const toMinutes = ({ hour, minute, meridiem }: ParsedTime): number | null => {
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    return ((hour % 12) + (meridiem === 'p' ? 12 : 0)) * 60 + minute;
+  }
+  return hour * 60 + minute;
+};
+
+/**
+ * Parses a span like "9:00 AM – 5:00 PM", "5:00 – 10:00 PM" or "22:00-02:00".
+ * A start time without AM/PM takes the meridiem of the end time, and spans that
+ * end at or before they start are treated as running past midnight.
+ */
+const parseSpan = (text: string): TimeSpan | null => {
+  const bounds = text.split(/\s*(?:-|–|—|\bto\b)\s*/);
+  if (bounds.length !== 2) return null;
+  const start = parseTime(bounds[0]);
+  const end = parseTime(bounds[1]);
+  if (!start || !end) return null;
+  if (!start.meridiem && end.meridiem && start.hour <= 12) {
+    start.meridiem = end.meridiem;
+  }
+  const open = toMinutes(start);
+  let close = toMinutes(end);
+  if (open === null || close === null || open >= MINUTES_PER_DAY) return null;
+  if (close <= open) close += MINUTES_PER_DAY;
+  return { open, close };
+};
+
+/** Parses the part after "Monday:" into spans; `[]` means closed. */
+const parseDaySpans = (text: string): TimeSpan[] | null => {
+  const normalized = text.trim().toLowerCase();
+  if (/^closed\b/.test(normalized)) return [];
+  if (/^(open )?24 hours$|^24\/7$|^open all day$/.test(normalized)) {
+    return [{ open: 0, close: MINUTES_PER_DAY }];
+  }
+  const spans: TimeSpan[] = [];
+  for (const part of normalized.split(/\s*(?:,|;|\band\b)\s*/)) {
+    const span = parseSpan(part);
+    if (!span) return null;
+    spans.push(span);
+  }
+  return spans;
+};
+
+const normalizeLine = (line: string): string =>
+  line.replace(/[\u00a0\u2009\u202f]/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Parses opening-hours strings like "Monday: 9:00 AM – 5:00 PM" into a weekly
+ * schedule. Lines that can't be parsed leave their days unknown. Returns null
+ * when nothing at all could be parsed.
+ */
+export const parseOpeningHours = (lines: string[] | undefined): WeeklySchedule | null => {
+  if (!lines || lines.length === 0) return null;
+  const schedule: WeeklySchedule = Array(7).fill(null);
+  let parsedAny = false;
+
+  for (const rawLine of lines) {
+    const line = normalizeLine(rawLine);
+    const match = line.match(/^([^\d:]+?)\s*:\s*(.+)$/);
+    let days = match ? parseDays(match[1]) : null;
+    let spans = match && days ? parseDaySpans(match[2]) : null;
+    // A single line without a day prefix (e.g. "Open 24 hours") applies to every day.
+    if (!days && lines.length === 1) {
+      days = ALL_DAYS;
+      spans = parseDaySpans(line);
+    }
+    if (!days || !spans) continue;
+    for (const day of days) {
+      schedule[day] = [...(schedule[day] ?? []), ...spans];
+    }
+    parsedAny = true;
+  }
+  return parsedAny ? schedule : null;
+};
+
+export interface OpenStatus {
+  isOpen: boolean;
+  isAlwaysOpen: boolean;
+  /**
+   * When the business next closes (if open) or opens (if closed). `daysAhead`
+   * counts days from the day asked about: 0 for the same day, 7 for the same
+   * weekday a week later.
+   */
+  changesAt?: { day: number; minutes: number; daysAhead: number };
+}
+
+const toWeekIntervals = (schedule: WeeklySchedule): [number, number][] => {
+  const intervals = schedule
+    .flatMap((spans, day) => (spans ?? []).map(({ open, close }): [number, number] =>
+      [day * MINUTES_PER_DAY + open, day * MINUTES_PER_DAY + close]))
+    .sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  for (const interval of intervals) {
+    const last = merged[merged.length - 1];
+    if (last && interval[0] <= last[1]) {
+      last[1] = Math.max(last[1], interval[1]);
+    } else {
+      merged.push([...interval]);
+    }
+  }
+  return merged;
+};
+
+/**
+ * Works out whether the schedule is open at the given day and minute of day.
+ * Returns null when the answer depends on a day whose hours are unknown.
+ */
+export const getOpenStatusAt = (schedule: WeeklySchedule, day: number, minutes: number): OpenStatus | null => {
+  const now = day * MINUTES_PER_DAY + minutes;
+  const intervals = toWeekIntervals(schedule);
+  const toChange = (wait: number): OpenStatus['changesAt'] => {
+    const at = now + wait;
+    return {
+      day: Math.floor(at / MINUTES_PER_DAY) % 7,
+      minutes: at % MINUTES_PER_DAY,
+      daysAhead: Math.floor(at / MINUTES_PER_DAY) - day,
+    };
+  };
+
+  for (const [start, end] of intervals) {
+    if (end - start >= MINUTES_PER_WEEK) {
+      return { isOpen: true, isAlwaysOpen: true };
+    }
+    // Spans that run past Saturday midnight wrap around to Sunday.
+    if (now >= start && now < end) {
+      return { isOpen: true, isAlwaysOpen: false, changesAt: toChange(end - now) };
+    }
+    if (now + MINUTES_PER_WEEK >= start && now + MINUTES_PER_WEEK < end) {
+      return { isOpen: true, isAlwaysOpen: false, changesAt: toChange(end - now - MINUTES_PER_WEEK) };
+    }
+  }
+
+  if (schedule[day] === null) return null;
+
+  // Minutes until the next opening; a span that started earlier today opens again next week.
+  let nextWait: number | undefined;
+  for (const [start] of intervals) {
+    const wait = (start - now + MINUTES_PER_WEEK) % MINUTES_PER_WEEK || MINUTES_PER_WEEK;
+    if (nextWait === undefined || wait < nextWait) nextWait = wait;
+  }
+  return {
+    isOpen: false,
+    isAlwaysOpen: false,
+    changesAt: nextWait === undefined ? undefined : toChange(nextWait),
+  };
+};
+
+export const getOpenStatus = (schedule: WeeklySchedule, date = new Date()): OpenStatus | null =>
+  getOpenStatusAt(schedule, date.getDay(), date.getHours() * 60 + date.getMinutes());
+
+export const formatMinutes = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60) % 24).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+/**
+ * Describes a status relative to the day it was worked out for, e.g.
+ * "Open now · closes at 18:00", "Closed · opens Tue 09:00" or, a week later,
+ * "Closed · opens next Mon 09:00".
+ */
+export const describeOpenStatus = (status: OpenStatus): string => {
+  if (status.isAlwaysOpen) return 'Open 24 hours';
+  const label = status.isOpen ? 'Open now' : 'Closed';
+  if (!status.changesAt) return label;
+  const { day, minutes, daysAhead } = status.changesAt;
+  const weekday = DAY_NAMES[day].slice(0, 3);
+  const when = daysAhead === 0 ? `at ${formatMinutes(minutes)}` : `${daysAhead >= 7 ? 'next ' : ''}${weekday} ${formatMinutes(minutes)}`;
+  return `${label} · ${status.isOpen ? 'closes' : 'opens'} ${when}`;
+};
+
+export type OpenHoursFilter =
+  | { mode: 'any' }
+  | { mode: 'now' }
+  | { mode: 'at'; day: number; minutes: number };
+
+/**
+ * Whether the hours match the filter. Businesses whose hours are missing or
+ * can't be parsed return null so callers can report them separately.
+ */
+export const matchesOpenHoursFilter = (
+  hours: string[] | undefined,
+  filter: OpenHoursFilter,
+  now = new Date(),
+): boolean | null => {
+  if (filter.mode === 'any') return true;
+  const schedule = parseOpeningHours(hours);
+  if (!schedule) return null;
+  const status = filter.mode === 'now'
+    ? getOpenStatus(schedule, now)
+    : getOpenStatusAt(schedule, filter.day, filter.minutes);
+  return status ? status.isOpen : null;
+};
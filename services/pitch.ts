@@ -0,0 +1,126 @@
+import { GeneratedPitch, PitchHistoryEntry, PitchOptions, PitchPurpose, PitchRequest, PitchTone, SenderProfile } from '../types';
+
+export const PITCH_PURPOSES: { value: PitchPurpose; label: string; instruction: string }[] = [
+  {
+    value: 'inquiry',
+    label: 'Customer inquiry',
+    instruction: 'The email is from a potential customer inquiring about their services, availability and pricing.',
+  },
+  {
+    value: 'partnership',
+    label: 'Partnership',
+    instruction: 'The email proposes a partnership or collaboration between the sender\'s company and the business, explaining the mutual benefit.',
+  },
+  {
+    value: 'sell',
+    label: 'Sell our service',
+    instruction: 'The email introduces the sender\'s offering to the business and asks for a short call, explaining concretely how it would help a business like theirs.',
+  },
+];
+
+export const PITCH_TONES: { value: PitchTone; label: string }[] = [
+  { value: 'professional', label: 'Professional' },
+  { value: 'friendly', label: 'Friendly' },
+  { value: 'casual', label: 'Casual' },
+  { value: 'persuasive', label: 'Persuasive' },
+];
+
+export const DEFAULT_PITCH_OPTIONS: PitchOptions = {
+  purpose: 'inquiry',
+  tone: 'friendly',
+  language: 'English',
+  includeDetails: true,
+};
+
+export const EMPTY_SENDER_PROFILE: SenderProfile = {
+  name: '',
+  company: '',
+  offering: '',
+  signature: '',
+};
+
+export const getPitchPurposeMeta = (purpose: PitchPurpose) =>
+  PITCH_PURPOSES.find(p => p.value === purpose) ?? PITCH_PURPOSES[0];
+
+export const isSenderProfileEmpty = (profile: SenderProfile): boolean =>
+  !profile.name.trim() && !profile.company.trim() && !profile.offering.trim() && !profile.signature.trim();
+
+/** Builds the prompt for a pitch, including only the sender and business facts that are known. */
+export const buildPitchPrompt = ({ businessName, businessCategory, purpose, tone, language, sender, details }: PitchRequest): string => {
+  const lines = [
+    'Write a short outreach email to a local business.',
+    `Business Name: "${businessName}"`,
+  ];
+  if (businessCategory) lines.push(`Business Category: "${businessCategory}"`);
+  if (details?.address) lines.push(`Business Address: ${details.address}`);
+  if (details?.website) lines.push(`Business Website: ${details.website}`);
+  if (details?.hours?.length) lines.push(`Business Opening Hours: ${details.hours.join('; ')}`);
+
+  if (sender && !isSenderProfileEmpty(sender)) {
+    lines.push('');
+    if (sender.name.trim()) lines.push(`Sender Name: ${sender.name.trim()}`);
+    if (sender.company.trim()) lines.push(`Sender Company: ${sender.company.trim()}`);
+    if (sender.offering.trim()) lines.push(`What the sender offers: ${sender.offering.trim()}`);
+  }
+
+  lines.push(
+    '',
+    getPitchPurposeMeta(purpose).instruction,
+    `Use a ${tone} tone and write both the subject line and the body in ${language || 'English'}.`,
+    'Keep it concise and easy to customize, and refer to the business details where they make the email more specific. Do not invent facts about the sender.',
+    'Start with a line of the form "Subject: <subject line>", then a blank line, then the email body. Use plain text without markdown.',
+    sender?.signature.trim()
+      ? 'End the body with a brief closing line only; the signature is added separately.'
+      : 'End the body with a brief closing line and a placeholder for the sender\'s name.',
+  );
+  return lines.join('\n');
+};
+
+/** Appends the stored signature to a generated body, unless the model already included it. */
+export const withSignature = (pitch: GeneratedPitch, sender?: SenderProfile): GeneratedPitch => {
+  const signature = sender?.signature.trim();
+  if (!signature || pitch.body.includes(signature)) return pitch;
+  const body = pitch.body.trimEnd();
+  // Keep a closing like "Best regards," directly above the signature.
+  const separator = body.endsWith(',') ? '\n' : '\n\n';
+  return { ...pitch, body: `${body}${separator}${signature}` };
+};
+
+export const createPitchHistoryEntry = (pitch: GeneratedPitch, options: PitchOptions): PitchHistoryEntry => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  createdAt: Date.now(),
+  subject: pitch.subject,
+  body: pitch.body,
+  ...(pitch.stopped ? { stopped: true } : {}),
+  purpose: options.purpose,
+  tone: options.tone,
+  language: options.language,
+});
+
+const SUBJECT_PREFIX = 'subject:';
+
+/**
+ * Splits "Subject: ..." plus body text into a pitch. Works on partial text
+ * while it streams: until the subject line is complete, the body is empty.
+ */
+export const parsePitchText = (text: string): GeneratedPitch => {
+  const trimmed = text.replace(/^\s+/, '');
+  const head = trimmed.slice(0, SUBJECT_PREFIX.length).toLowerCase();
+  if (head.length < SUBJECT_PREFIX.length && SUBJECT_PREFIX.startsWith(head)) {
+    return { subject: '', body: '' };
+  }
+  if (head !== SUBJECT_PREFIX) {
+    return { subject: '', body: trimmed.trim() };
+  }
+  const lineEnd = trimmed.indexOf('\n');
+  if (lineEnd === -1) {
+    return { subject: trimmed.slice(SUBJECT_PREFIX.length).trim(), body: '' };
+  }
+  return {
+    subject: trimmed.slice(SUBJECT_PREFIX.length, lineEnd).trim(),
+    body: trimmed.slice(lineEnd + 1).trim(),
+  };
+};
+
+export const formatPitchForCopy = (pitch: GeneratedPitch): string =>
+  `Subject: ${pitch.subject}\n\n${pitch.body}`;
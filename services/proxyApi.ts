@@ -0,0 +1,64 @@
+import { Business, BusinessDetails, BusinessLookup, GroundingChunk, LocationCoords, PitchRequest, SearchOptions, SenderProfile } from '../types';
+import { ServiceErrorKind } from './errors';
+
+/**
+ * The contract between the browser and the API proxy in `server/`. The proxy
+ * holds the Gemini key, builds the prompts and streams the model's raw output
+ * back; validating that output stays in the browser.
+ */
+
+export const PROXY_BASE_PATH = '/api';
+
+/** The proxy refuses requests with longer text fields, since each can end up in a prompt. */
+export const MAX_TEXT_LENGTH = 500;
+/** The proxy refuses details with more opening-hours lines than this. */
+export const MAX_HOURS_LINES = 14;
+
+/** Request bodies, by endpoint. `strict` asks for the stricter prompt used after an unusable answer. */
+export interface ProxyRequests {
+  search: {
+    category: string;
+    location: LocationCoords | null;
+    manualLocation?: string;
+    exclude?: SearchOptions['exclude'];
+    radiusKm?: number;
+    strict?: boolean;
+  };
+  details: { placeId: string; lookup?: BusinessLookup; strict?: boolean };
+  pitch: { request: PitchRequest; strict?: boolean };
+  fit: { business: Business; sender: SenderProfile; details?: BusinessDetails; strict?: boolean };
+  geocode: { query: string; strict?: boolean };
+}
+
+export type ProxyOperation = keyof ProxyRequests;
+
+export type ProxyRequest = { [K in ProxyOperation]: { operation: K } & ProxyRequests[K] }[ProxyOperation];
+
+export const PROXY_OPERATIONS: ProxyOperation[] = ['search', 'details', 'pitch', 'fit', 'geocode'];
+
+/** Tokens used by the call so far, from the model's usage metadata. */
+export interface ProxyUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/** A piece of the model's answer, as it streams in. */
+export interface ProxyChunk {
+  text: string;
+  groundingChunks: GroundingChunk[];
+  /** Sent with the chunks that carry usage metadata; the last one covers the whole call. */
+  usage?: ProxyUsage;
+}
+
+export interface ProxyErrorPayload {
+  kind: ServiceErrorKind;
+  message: string;
+  retryable: boolean;
+  retryAfterMs?: number;
+}
+
+/**
+ * Responses are newline-delimited JSON, one event per line. An error after the
+ * stream has started arrives as an `error` event, since the status is already sent.
+ */
+export type ProxyEvent = { chunk: ProxyChunk } | { error: ProxyErrorPayload };
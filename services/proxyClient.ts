@@ -0,0 +1,58 @@
+import { PROXY_BASE_PATH, ProxyChunk, ProxyEvent, ProxyRequest } from './proxyApi';
+import { ServiceError, fromErrorPayload, withNetworkErrors } from './errors';
+
+const unreachable = (operation: string) => `Could not reach the API to ${operation}. Check your internet connection.`;
+
+const readErrorResponse = async (response: Response, operation: string): Promise<ServiceError> => {
+  try {
+    const { error } = await response.json();
+    if (error?.kind && error.message) return fromErrorPayload(error);
+  } catch {
+    // Not one of the proxy's own errors; fall through to the status.
+  }
+  if (response.status === 404) {
+    return new ServiceError('unknown', `Failed to ${operation}: the API proxy isn't running. Start the app with "npm run dev" or "npm start".`);
+  }
+  return new ServiceError('unknown', `The API proxy failed to ${operation} (HTTP ${response.status}).`, { retryable: response.status >= 500 });
+};
+
+async function* readEvents(body: ReadableStream<Uint8Array>, operation: string): AsyncGenerator<ProxyChunk> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  try {
+    for (;;) {
+      const { done, value } = await withNetworkErrors(() => reader.read(), unreachable(operation));
+      buffered += decoder.decode(value, { stream: !done });
+      const lines = buffered.split('\n');
+      buffered = done ? '' : lines.pop()!;
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const event = JSON.parse(line) as ProxyEvent;
+        if ('error' in event) throw fromErrorPayload(event.error);
+        yield event.chunk;
+      }
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Sends `request` to the API proxy. Resolves once the answer has started, with
+ * its chunks as they arrive; a failure to start rejects with a `ServiceError`.
+ */
+export const openProxyStream = async (request: ProxyRequest, operation: string, signal?: AbortSignal): Promise<AsyncGenerator<ProxyChunk>> => {
+  const { operation: endpoint, ...body } = request;
+  const response = await withNetworkErrors(() => fetch(`${PROXY_BASE_PATH}/${endpoint}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  }), unreachable(operation));
+  if (!response.ok || !response.body) {
+    throw await readErrorResponse(response, operation);
+  }
+  return readEvents(response.body, operation);
+};
@@ -0,0 +1,250 @@
+import { Business, BusinessDetails, BusinessGrounding, FitRating, GeneratedPitch, GeocodedPlace, GroundingChunk, ReviewSnippet } from '../types';
+import { UnparseableResponseError } from './errors';
+
+/** Thrown when a model response can't be turned into the expected shape at all. */
+export class ResponseValidationError extends UnparseableResponseError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ResponseValidationError';
+  }
+}
+
+export interface ValidatedBusinesses {
+  businesses: Business[];
+  /** Items dropped because they couldn't be repaired (e.g. no title or placeId). */
+  discardedCount: number;
+  /** Items kept after fixing a field (e.g. dropping out-of-range coordinates). */
+  repairedCount: number;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asTrimmedString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+const asNumber = (value: unknown): number | undefined => {
+  const num = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof num === 'number' && Number.isFinite(num) ? num : undefined;
+};
+
+export const buildMapsSearchUri = (title: string, placeId: string) =>
+  `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(title)}&query_place_id=${placeId}`;
+
+/**
+ * Parses a model response body as JSON, throwing a `ResponseValidationError`
+ * rather than a bare `SyntaxError` so callers can tell it apart from other failures.
+ */
+export const parseJsonResponse = (text: string | undefined): unknown => {
+  if (!text?.trim()) {
+    throw new ResponseValidationError("Received an empty response from the API.");
+  }
+  // Models occasionally wrap JSON in a markdown code fence despite the MIME type.
+  const unfenced = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return JSON.parse(unfenced);
+  } catch {
+    throw new ResponseValidationError("The API returned a response that is not valid JSON.");
+  }
+};
+
+/**
+ * Checks raw business items against the `Business` shape. Items without a
+ * title or placeId are dropped; coordinates that are missing, non-numeric or
+ * out of range are removed so the business is kept without a distance.
+ */
+export const validateBusinessItems = (items: unknown[]): ValidatedBusinesses => {
+  const result: ValidatedBusinesses = { businesses: [], discardedCount: 0, repairedCount: 0 };
+
+  for (const item of items) {
+    if (!isRecord(item)) {
+      result.discardedCount++;
+      continue;
+    }
+    const title = asTrimmedString(item.title);
+    const placeId = asTrimmedString(item.placeId);
+    if (!title || !placeId) {
+      result.discardedCount++;
+      continue;
+    }
+
+    let repaired = false;
+    const latitude = asNumber(item.latitude);
+    const longitude = asNumber(item.longitude);
+    const hasValidCoords = latitude !== undefined && longitude !== undefined &&
+      Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180 &&
+      !(latitude === 0 && longitude === 0);
+    if (!hasValidCoords && (item.latitude !== undefined || item.longitude !== undefined)) {
+      repaired = true;
+    }
+
+    const uri = asTrimmedString(item.uri);
+    if (item.uri !== undefined && !uri?.startsWith('http')) {
+      repaired = true;
+    }
+
+    result.businesses.push({
+      title,
+      placeId,
+      uri: uri?.startsWith('http') ? uri : buildMapsSearchUri(title, placeId),
+      ...(hasValidCoords ? { latitude, longitude } : {}),
+    });
+    if (repaired) result.repairedCount++;
+  }
+
+  return result;
+};
+
+/**
+ * Validates a `{ businesses: [...] }` payload. Throws when the payload itself
+ * is unusable: not an object, no `businesses` array, or every item invalid.
+ */
+export const validateBusinessesPayload = (payload: unknown): ValidatedBusinesses => {
+  if (!isRecord(payload) || !Array.isArray(payload.businesses)) {
+    throw new ResponseValidationError("The API response did not contain a list of businesses.");
+  }
+  const result = validateBusinessItems(payload.businesses);
+  if (payload.businesses.length > 0 && result.businesses.length === 0) {
+    throw new ResponseValidationError(`All ${payload.businesses.length} businesses in the API response were invalid.`);
+  }
+  return result;
+};
+
+// Grounding reports place IDs as resource names ("places/ChIJ..."); models usually omit the prefix.
+const normalizePlaceId = (placeId: string) => placeId.replace(/^places\//, '');
+
+const toGrounding = (maps: NonNullable<GroundingChunk['maps']>, title: string, uri: string): BusinessGrounding => ({
+  sources: [{ title, uri }],
+  reviewSnippets: (maps.placeAnswerSources?.reviewSnippets ?? [])
+    .filter(snippet => asTrimmedString(snippet.review))
+    .map((snippet): ReviewSnippet => ({
+      text: snippet.review!.trim(),
+      author: asTrimmedString(snippet.authorAttribution?.displayName),
+      relativeTime: asTrimmedString(snippet.relativePublishTimeDescription),
+      uri: asTrimmedString(snippet.googleMapsUri),
+    })),
+  flagContentUri: asTrimmedString(maps.placeAnswerSources?.flagContentUri),
+});
+
+/**
+ * Cross-checks the businesses a model listed against the Google Maps grounding
+ * chunks of the same response. Title, placeId and link come from the grounding
+ * source and coordinates from the model's list (matched by placeId, then title).
+ * Grounded places the model didn't list are kept without coordinates; listed
+ * businesses with no grounding source are discarded as unverified.
+ */
+export const matchGroundedBusinesses = (listed: Business[], chunks: GroundingChunk[]): ValidatedBusinesses => {
+  const result: ValidatedBusinesses = { businesses: [], discardedCount: 0, repairedCount: 0 };
+  const byPlaceId = new Map(listed.map(item => [normalizePlaceId(item.placeId), item]));
+  const byTitle = new Map(listed.map(item => [item.title.toLowerCase(), item]));
+  const matched = new Set<Business>();
+
+  for (const { maps } of chunks) {
+    const title = asTrimmedString(maps?.title);
+    const placeId = asTrimmedString(maps?.placeId);
+    if (!maps || !title || !placeId) continue;
+    const uri = asTrimmedString(maps.uri)?.startsWith('http') ? maps.uri!.trim() : buildMapsSearchUri(title, placeId);
+    const match = byPlaceId.get(normalizePlaceId(placeId)) ?? byTitle.get(title.toLowerCase());
+    if (match) matched.add(match);
+    result.businesses.push({
+      title,
+      placeId,
+      uri,
+      ...(match?.latitude !== undefined && match.longitude !== undefined
+        ? { latitude: match.latitude, longitude: match.longitude }
+        : {}),
+      grounding: toGrounding(maps, title, uri),
+    });
+  }
+
+  result.discardedCount = listed.filter(item => !matched.has(item)).length;
+  return result;
+};
+
+const normalizeWebsite = (value: unknown): string | undefined => {
+  const website = asTrimmedString(value);
+  if (!website) return undefined;
+  const withScheme = /^https?:\/\//i.test(website) ? website : `https://${website}`;
+  try {
+    return new URL(withScheme).toString();
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Validates a details payload against `BusinessDetails`, dropping fields of the
+ * wrong type. Throws when the payload isn't an object or has no usable fields.
+ */
+export const validateBusinessDetailsPayload = (payload: unknown): BusinessDetails => {
+  if (!isRecord(payload)) {
+    throw new ResponseValidationError("The API response did not contain business details.");
+  }
+  const hours = Array.isArray(payload.hours)
+    ? payload.hours.map(asTrimmedString).filter((line): line is string => !!line)
+    : [];
+  const details: BusinessDetails = {
+    address: asTrimmedString(payload.address),
+    phone: asTrimmedString(payload.phone),
+    hours: hours.length > 0 ? hours : undefined,
+    website: normalizeWebsite(payload.website),
+  };
+  if (!details.address && !details.phone && !details.hours && !details.website) {
+    throw new ResponseValidationError("The API response did not include an address, phone number, hours or website.");
+  }
+  return details;
+};
+
+/**
+ * Validates a `{ places: [...] }` geocoding payload, dropping candidates without
+ * a label or with out-of-range coordinates. An empty list means "no match".
+ */
+export const validateGeocodePayload = (payload: unknown): GeocodedPlace[] => {
+  if (!isRecord(payload) || !Array.isArray(payload.places)) {
+    throw new ResponseValidationError("The API response did not contain a list of places.");
+  }
+  const places: GeocodedPlace[] = [];
+  for (const item of payload.places) {
+    if (!isRecord(item)) continue;
+    const label = asTrimmedString(item.label);
+    const latitude = asNumber(item.latitude);
+    const longitude = asNumber(item.longitude);
+    if (!label || latitude === undefined || longitude === undefined ||
+      Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      continue;
+    }
+    places.push({ label, latitude, longitude });
+  }
+  if (payload.places.length > 0 && places.length === 0) {
+    throw new ResponseValidationError(`All ${payload.places.length} places in the API response were invalid.`);
+  }
+  return places;
+};
+
+/** Validates a `{ subject, body }` pitch payload; both fields must be non-empty. */
+export const validatePitchPayload = (payload: unknown): GeneratedPitch => {
+  if (!isRecord(payload)) {
+    throw new ResponseValidationError("The API response did not contain a pitch.");
+  }
+  const subject = asTrimmedString(payload.subject);
+  const body = asTrimmedString(payload.body);
+  if (!subject || !body) {
+    throw new ResponseValidationError("The API response was missing the pitch subject or body.");
+  }
+  return { subject, body };
+};
+
+/** Validates a `{ score, reason }` fit rating, clamping the score to 0-100. */
+export const validateFitPayload = (payload: unknown): Omit<FitRating, 'ratedAt'> => {
+  if (!isRecord(payload)) {
+    throw new ResponseValidationError("The API response did not contain a fit rating.");
+  }
+  const score = asNumber(payload.score);
+  if (score === undefined) {
+    throw new ResponseValidationError("The API response was missing a numeric fit score.");
+  }
+  return {
+    score: Math.round(Math.min(100, Math.max(0, score))),
+    reason: asTrimmedString(payload.reason) ?? '',
+  };
+};
@@ -0,0 +1,47 @@
+import { AreaSweep, Business, LocationCoords, SavedSearch } from '../types';
+
+export interface SearchDiff {
+  newPlaceIds: Set<string>;
+  removed: { placeId: string; title: string }[];
+}
+
+export interface SearchParams {
+  categories: string[];
+  location: LocationCoords | null;
+  manualLocation?: string;
+  radiusKm: number;
+  /** Present when the search is an area sweep rather than a single search. */
+  sweep?: AreaSweep;
+}
+
+export const describeSearchCategories = ({ categories }: Pick<SearchParams, 'categories'>): string =>
+  categories.join(', ');
+
+export const describeSearchLocation = ({ location, manualLocation }: Pick<SearchParams, 'location' | 'manualLocation'>): string => {
+  if (manualLocation?.trim()) return manualLocation.trim();
+  if (location) return `${location.latitude.toFixed(3)}, ${location.longitude.toFixed(3)}`;
+  return 'unknown location';
+};
+
+export const createSavedSearch = (name: string, params: SearchParams, results: Business[]): SavedSearch => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  name: name.trim() || `${describeSearchCategories(params)} near ${describeSearchLocation(params)}`,
+  categories: params.categories,
+  location: params.location,
+  manualLocation: params.manualLocation?.trim() || undefined,
+  radiusKm: params.radiusKm,
+  sweep: params.sweep,
+  createdAt: Date.now(),
+  lastRunAt: results.length > 0 ? Date.now() : undefined,
+  lastResults: results.map(({ placeId, title }) => ({ placeId, title })),
+});
+
+/** Compares a run's results with the previous run's snapshot by placeId. */
+export const diffSearchResults = (previous: SavedSearch['lastResults'], current: Business[]): SearchDiff => {
+  const previousIds = new Set(previous.map(item => item.placeId));
+  const currentIds = new Set(current.map(item => item.placeId));
+  return {
+    newPlaceIds: new Set(current.filter(item => !previousIds.has(item.placeId)).map(item => item.placeId)),
+    removed: previous.filter(item => !currentIds.has(item.placeId)),
+  };
+};
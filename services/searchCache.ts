@@ -0,0 +1,42 @@
+import { Business } from '../types';
+import { SearchParams } from './savedSearches';
+import { isSameSearch } from './urlState';
+
+// Results are kept per tab, so reloading or going back to a search doesn't
+// query the API again, but a new session starts fresh.
+const STORAGE_KEY = 'searchResultsCache';
+const MAX_ENTRIES = 10;
+
+interface CachedSearch {
+  params: SearchParams;
+  businesses: Business[];
+  cachedAt: number;
+}
+
+const loadEntries = (): CachedSearch[] => {
+  try {
+    const stored = sessionStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      // Entries from before multi-category searches have no `categories`.
+      return (JSON.parse(stored) as CachedSearch[]).filter(entry => Array.isArray(entry.params?.categories));
+    }
+  } catch (e) {
+    console.error("Failed to parse search results cache from sessionStorage", e);
+  }
+  return [];
+};
+
+export const getCachedSearch = (params: SearchParams): Business[] | null =>
+  loadEntries().find(entry => isSameSearch(entry.params, params))?.businesses ?? null;
+
+export const putCachedSearch = (params: SearchParams, businesses: Business[]) => {
+  const entries = [
+    { params, businesses, cachedAt: Date.now() },
+    ...loadEntries().filter(entry => !isSameSearch(entry.params, params)),
+  ].slice(0, MAX_ENTRIES);
+  try {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch (e) {
+    console.error("Failed to write search results cache", e);
+  }
+};
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { StoreDefinition, listQuarantinedData, readStore, subscribeToStore, updateStore, writeStore } from './storage';
+import { savedSearchesStore } from './stores';
+
+/** An in-memory localStorage that can be made to refuse new quarantine keys, as when it is full. */
+const createMemoryStorage = () => {
+  const items = new Map<string, string>();
+  const storage = {
+    isFull: false,
+    get length() { return items.size; },
+    key: (index: number) => Array.from(items.keys())[index] ?? null,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      if (storage.isFull && !items.has(key)) throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+      items.set(key, value);
+    },
+    removeItem: (key: string) => { items.delete(key); },
+    clear: () => items.clear(),
+  };
+  return storage;
+};
+
+let storage: ReturnType<typeof createMemoryStorage>;
+let storeCount = 0;
+
+// A fresh key per test, since the storage module remembers keys it couldn't quarantine.
+const createStore = (): StoreDefinition<string[]> => ({
+  key: `test-store-${++storeCount}`,
+  label: 'Test list',
+  migrations: [(stored: string) => stored.split(',')],
+  validate: data => Array.isArray(data) && data.every(item => typeof item === 'string'),
+  fallback: () => [],
+});
+
+beforeEach(() => {
+  storage = createMemoryStorage();
+  vi.stubGlobal('localStorage', storage);
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('readStore', () => {
+  it('returns the fallback when nothing is stored', () => {
+    expect(readStore(createStore())).toEqual([]);
+  });
+
+  it('migrates unversioned data and writes it back at the current version', () => {
+    const store = createStore();
+    storage.setItem(store.key, JSON.stringify('a,b'));
+    expect(readStore(store)).toEqual(['a', 'b']);
+    updateStore(store, data => [...data, 'c']);
+    expect(JSON.parse(storage.getItem(store.key)!)).toEqual({ schemaVersion: 1, data: ['a', 'b', 'c'] });
+  });
+
+  it('runs every migration from the stored version', () => {
+    storage.setItem(savedSearchesStore.key, JSON.stringify({ schemaVersion: 1, data: [{ id: 's', category: 'pizza', lastResults: [] }] }));
+    expect(readStore(savedSearchesStore)).toEqual([{ id: 's', categories: ['pizza'], lastResults: [] }]);
+  });
+
+  it('quarantines data it cannot read instead of dropping it', () => {
+    const store = createStore();
+    storage.setItem(store.key, '{not json');
+    expect(readStore(store)).toEqual([]);
+    expect(storage.getItem(store.key)).toBeNull();
+    expect(listQuarantinedData()).toEqual([
+      expect.objectContaining({ storeKey: store.key, raw: '{not json', reason: 'The saved data is not valid JSON.' }),
+    ]);
+  });
+
+  it('quarantines data from a newer schema or with the wrong shape', () => {
+    const newer = createStore();
+    storage.setItem(newer.key, JSON.stringify({ schemaVersion: 5, data: [] }));
+    readStore(newer);
+    const wrongShape = createStore();
+    storage.setItem(wrongShape.key, JSON.stringify({ schemaVersion: 1, data: [1, 2] }));
+    readStore(wrongShape);
+    expect(listQuarantinedData().map(entry => entry.reason).sort()).toEqual([
+      'The data was saved by a newer version of the app (schema 5, this version reads up to 1).',
+      'The saved data does not have the expected shape.',
+    ]);
+  });
+});
+
+describe('writeStore', () => {
+  it('notifies subscribers only when the stored value changes', () => {
+    const store = createStore();
+    const listener = vi.fn();
+    const unsubscribe = subscribeToStore(store, listener);
+    writeStore(store, ['a']);
+    writeStore(store, ['a']);
+    unsubscribe();
+    writeStore(store, ['b']);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(['a']);
+  });
+
+  it("doesn't overwrite unreadable data that couldn't be quarantined", () => {
+    const store = createStore();
+    storage.setItem(store.key, '{not json');
+    storage.isFull = true;
+    expect(readStore(store)).toEqual([]);
+    writeStore(store, []);
+    expect(storage.getItem(store.key)).toBe('{not json');
+
+    // Once there is room, the data is set aside and the write goes through.
+    storage.isFull = false;
+    writeStore(store, ['a']);
+    expect(readStore(store)).toEqual(['a']);
+    expect(listQuarantinedData()).toEqual([expect.objectContaining({ storeKey: store.key, raw: '{not json' })]);
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * Versioned persistence for app state in localStorage.
+ *
+ * Each store is saved as `{ schemaVersion, data }`. When the shape of a store
+ * changes, add a migration rather than changing how old data is read: data is
+ * upgraded one version at a time on load and written back at the current
+ * version. Data that can't be parsed, migrated or validated is moved to a
+ * quarantine key instead of being dropped, and the user is told about it.
+ *
+ * Writes are picked up by other open tabs through `storage` events.
+ */
+
+export interface StoreDefinition<T> {
+  key: string;
+  /** Name of the data as shown to the user, e.g. "Favorites". */
+  label: string;
+  /**
+   * `migrations[i]` upgrades data from schema version i to i + 1, so the
+   * current version is `migrations.length`. Version 0 is the unversioned data
+   * written before stores had a schema version. Each migration declares the
+   * older shape it expects; nothing checks it, so it gets the stored data as-is.
+   */
+  migrations: ((data: never) => unknown)[];
+  /** Checks data at the current version has the expected shape. */
+  validate: (data: unknown) => boolean;
+  /** Value used when nothing is stored or the stored data is unusable. */
+  fallback: () => T;
+}
+
+/** Stored data that couldn't be read, kept so it can be downloaded for recovery. */
+export interface QuarantinedData {
+  /** localStorage key the quarantined payload is kept under. */
+  id: string;
+  storeKey: string;
+  label: string;
+  reason: string;
+  quarantinedAt: number;
+  raw: string;
+}
+
+const QUARANTINE_PREFIX = 'quarantine:';
+
+interface StoredEnvelope {
+  schemaVersion: number;
+  data: unknown;
+}
+
+const isEnvelope = (value: unknown): value is StoredEnvelope =>
+  !!value && typeof value === 'object' && !Array.isArray(value) &&
+  typeof (value as StoredEnvelope).schemaVersion === 'number' && 'data' in value;
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Upgrades a parsed payload (an envelope, or unversioned data) to the current
+ * schema, throwing with a user-facing reason if it is unusable.
+ */
+export const upgradeStoredValue = <T>(store: StoreDefinition<T>, parsed: unknown): T => {
+  const currentVersion = store.migrations.length;
+  let version = isEnvelope(parsed) ? parsed.schemaVersion : 0;
+  let data = isEnvelope(parsed) ? parsed.data : parsed;
+  if (version > currentVersion) {
+    throw new Error(`The data was saved by a newer version of the app (schema ${version}, this version reads up to ${currentVersion}).`);
+  }
+  for (; version < currentVersion; version++) {
+    try {
+      data = (store.migrations[version] as (data: unknown) => unknown)(data);
+    } catch (e) {
+      throw new Error(`Upgrading the data from schema ${version} failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  if (!store.validate(data)) {
+    throw new Error('The saved data does not have the expected shape.');
+  }
+  return data as T;
+};
+
+const parseStored = <T>(store: StoreDefinition<T>, raw: string): T => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error('The saved data is not valid JSON.');
+  }
+  return upgradeStoredValue(store, parsed);
+};
+
+/** The value as written to storage, for backups. */
+export const toStoredValue = <T>(store: StoreDefinition<T>, data: T) => ({ schemaVersion: store.migrations.length, data });
+
+type QuarantineListener = () => void;
+const quarantineListeners = new Set<QuarantineListener>();
+const notifyQuarantine = () => quarantineListeners.forEach(listener => listener());
+
+/**
+ * Keys still holding unreadable data because it couldn't be copied to a
+ * quarantine key, so writes don't overwrite the only copy.
+ */
+const unquarantinedKeys = new Set<string>();
+
+/** Moves unreadable data to a quarantine key, returning whether that worked. */
+const quarantine = (store: StoreDefinition<unknown>, raw: string, reason: string): boolean => {
+  const entry: QuarantinedData = {
+    id: `${QUARANTINE_PREFIX}${store.key}:${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    storeKey: store.key,
+    label: store.label,
+    reason,
+    quarantinedAt: Date.now(),
+    raw,
+  };
+  console.error(`Quarantined unreadable ${store.label} data under "${entry.id}": ${reason}`);
+  try {
+    localStorage.setItem(entry.id, JSON.stringify(entry));
+    localStorage.removeItem(store.key);
+  } catch (e) {
+    // Leave the original in place rather than lose it if there is no room to copy it.
+    console.error(`Failed to quarantine ${store.label} data`, e);
+    unquarantinedKeys.add(store.key);
+    return false;
+  }
+  unquarantinedKeys.delete(store.key);
+  // Stores are usually read while a component renders; notify once that's done.
+  queueMicrotask(notifyQuarantine);
+  return true;
+};
+
+/**
+ * Whether `store` can be written: false while its key holds unreadable data
+ * that still can't be quarantined. Retries the quarantine, e.g. once space
+ * has been freed.
+ */
+const canOverwrite = (store: StoreDefinition<unknown>): boolean => {
+  if (!unquarantinedKeys.has(store.key)) return true;
+  const raw = localStorage.getItem(store.key);
+  if (raw === null) {
+    unquarantinedKeys.delete(store.key);
+    return true;
+  }
+  try {
+    parseStored(store, raw);
+    // Another tab replaced it with readable data.
+    unquarantinedKeys.delete(store.key);
+    return true;
+  } catch (e) {
+    return quarantine(store, raw, e instanceof Error ? e.message : String(e));
+  }
+};
+
+/** Reads a store, migrating old data and quarantining unusable data. */
+export const readStore = <T>(store: StoreDefinition<T>): T => {
+  let raw: string | null;
+  try {
+    raw = localStorage.getItem(store.key);
+  } catch (e) {
+    console.error(`Failed to read ${store.label} from localStorage`, e);
+    return store.fallback();
+  }
+  if (raw === null) return store.fallback();
+  try {
+    return parseStored(store, raw);
+  } catch (e) {
+    quarantine(store as StoreDefinition<unknown>, raw, e instanceof Error ? e.message : String(e));
+    return store.fallback();
+  }
+};
+
+type StoreListener<T> = (data: T) => void;
+const storeListeners = new Map<string, Set<StoreListener<unknown>>>();
+
+/** The listeners of `store`, typed by the store their key belongs to. */
+const getStoreListeners = <T>(store: StoreDefinition<T>) =>
+  storeListeners.get(store.key) as Set<StoreListener<T>> | undefined;
+
+/** Writes a store at the current schema version and notifies its subscribers in this tab. */
+export const writeStore = <T>(store: StoreDefinition<T>, data: T) => {
+  const raw = JSON.stringify(toStoredValue(store, data));
+  try {
+    // Skipping unchanged writes keeps tabs from echoing each other's updates.
+    if (localStorage.getItem(store.key) === raw) return;
+    if (!canOverwrite(store as StoreDefinition<unknown>)) {
+      console.error(`Not saving ${store.label}: the unreadable data saved before couldn't be set aside, so saving would overwrite it.`);
+      return;
+    }
+    localStorage.setItem(store.key, raw);
+  } catch (e) {
+    console.error(`Failed to save ${store.label} to localStorage`, e);
+    return;
+  }
+  getStoreListeners(store)?.forEach(listener => listener(data));
+};
+
+/** Applies `update` to the stored value, e.g. from code outside the hook that owns the store. */
+export const updateStore = <T>(store: StoreDefinition<T>, update: (data: T) => T) => {
+  writeStore(store, update(readStore(store)));
+};
+
+const storesByKey = new Map<string, StoreDefinition<unknown>>();
+let isListeningToOtherTabs = false;
+
+const listenToOtherTabs = () => {
+  if (isListeningToOtherTabs || typeof window === 'undefined') return;
+  isListeningToOtherTabs = true;
+  window.addEventListener('storage', (event) => {
+    if (event.storageArea !== localStorage) return;
+    // `null` means another tab cleared localStorage.
+    if (event.key === null || event.key.startsWith(QUARANTINE_PREFIX)) notifyQuarantine();
+    const keys = event.key === null ? Array.from(storesByKey.keys()) : [event.key];
+    keys.forEach(key => {
+      const store = storesByKey.get(key);
+      if (!store) return;
+      const data = readStore(store);
+      getStoreListeners(store)?.forEach(listener => listener(data));
+    });
+  });
+};
+
+/**
+ * Calls `listener` with the new value whenever the store is written, in this
+ * tab or another one. Returns an unsubscribe function.
+ */
+export const subscribeToStore = <T>(store: StoreDefinition<T>, listener: StoreListener<T>): (() => void) => {
+  storesByKey.set(store.key, store as StoreDefinition<unknown>);
+  listenToOtherTabs();
+  const listeners = getStoreListeners(store) ?? new Set<StoreListener<T>>();
+  listeners.add(listener);
+  storeListeners.set(store.key, listeners as Set<StoreListener<unknown>>);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const listQuarantinedData = (): QuarantinedData[] => {
+  const entries: QuarantinedData[] = [];
+  try {
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (!key?.startsWith(QUARANTINE_PREFIX)) continue;
+      try {
+        entries.push(JSON.parse(localStorage.getItem(key) ?? ''));
+      } catch {
+        entries.push({ id: key, storeKey: '', label: 'Unknown data', reason: 'The quarantine record is unreadable.', quarantinedAt: 0, raw: localStorage.getItem(key) ?? '' });
+      }
+    }
+  } catch (e) {
+    console.error("Failed to list quarantined data", e);
+  }
+  return entries.sort((a, b) => b.quarantinedAt - a.quarantinedAt);
+};
+
+export const discardQuarantinedData = (id: string) => {
+  localStorage.removeItem(id);
+  notifyQuarantine();
+};
+
+/** Subscribes to data being quarantined or discarded. Returns an unsubscribe function. */
+export const subscribeToQuarantine = (listener: QuarantineListener): (() => void) => {
+  listenToOtherTabs();
+  quarantineListeners.add(listener);
+  return () => {
+    quarantineListeners.delete(listener);
+  };
+};
@@ -0,0 +1,102 @@
+import { Business, FitRating, LeadScoringConfig, PitchHistoryEntry, PitchOptions, SavedBusiness, SavedSearch, SenderProfile } from '../types';
+import { StoreDefinition, isRecord } from './storage';
+import { normalizeSavedBusiness } from './leadPipeline';
+import { DEFAULT_PITCH_OPTIONS, EMPTY_SENDER_PROFILE } from './pitch';
+import { DEFAULT_LEAD_SCORING } from './leadScoring';
+import { DEFAULT_USAGE_BUDGET, UsageBudget, UsageRecord } from './usage';
+
+// Every store the app persists. Add a migration here when a stored shape changes.
+
+export const favoritesStore: StoreDefinition<SavedBusiness[]> = {
+  key: 'favoriteBusinesses',
+  label: 'Favorites',
+  migrations: [
+    // v0 → v1: favorites saved before the lead pipeline have no lead info.
+    (stored: Business[]) => stored.map(normalizeSavedBusiness),
+  ],
+  validate: (data) => Array.isArray(data) &&
+    data.every(item => isRecord(item) && typeof item.placeId === 'string' && typeof item.title === 'string' && isRecord(item.lead)),
+  fallback: () => [],
+};
+
+export const savedSearchesStore: StoreDefinition<SavedSearch[]> = {
+  key: 'savedSearches',
+  label: 'Saved searches',
+  migrations: [
+    (stored) => stored,
+    // v1 → v2: a search can have several categories.
+    (stored: (Omit<SavedSearch, 'categories'> & { category: string })[]) =>
+      stored.map(({ category, ...search }) => ({ ...search, categories: [category] })),
+  ],
+  validate: (data) => Array.isArray(data) &&
+    data.every(item => isRecord(item) && typeof item.id === 'string' && Array.isArray(item.categories) && Array.isArray(item.lastResults)),
+  fallback: () => [],
+};
+
+// Oldest pitches are dropped beyond this many per business.
+export const MAX_PITCH_ENTRIES_PER_BUSINESS = 20;
+
+export const pitchHistoryStore: StoreDefinition<Record<string, PitchHistoryEntry[]>> = {
+  key: 'pitchHistory',
+  label: 'Pitch history',
+  migrations: [(stored) => stored],
+  validate: (data) => isRecord(data) && Object.values(data).every(Array.isArray),
+  fallback: () => ({}),
+};
+
+export interface PitchSettings {
+  profile: SenderProfile;
+  options: PitchOptions;
+}
+
+export const pitchSettingsStore: StoreDefinition<PitchSettings> = {
+  key: 'pitchSettings',
+  label: 'Sender profile and pitch options',
+  migrations: [
+    // v0 → v1: fill in fields missing from settings saved by earlier builds.
+    (stored: Partial<PitchSettings>) => ({
+      profile: { ...EMPTY_SENDER_PROFILE, ...stored.profile },
+      options: { ...DEFAULT_PITCH_OPTIONS, ...stored.options },
+    }),
+  ],
+  validate: (data) => isRecord(data) && isRecord(data.profile) && isRecord(data.options),
+  fallback: () => ({ profile: EMPTY_SENDER_PROFILE, options: DEFAULT_PITCH_OPTIONS }),
+};
+
+export const leadScoringStore: StoreDefinition<LeadScoringConfig> = {
+  key: 'leadScoring',
+  label: 'Lead scoring settings',
+  migrations: [
+    (stored: Partial<LeadScoringConfig>) => ({
+      weights: { ...DEFAULT_LEAD_SCORING.weights, ...stored.weights },
+      keywords: stored.keywords ?? DEFAULT_LEAD_SCORING.keywords,
+    }),
+  ],
+  validate: (data) => isRecord(data) && isRecord(data.weights) && Array.isArray(data.keywords),
+  fallback: () => DEFAULT_LEAD_SCORING,
+};
+
+export const fitRatingsStore: StoreDefinition<Record<string, FitRating>> = {
+  key: 'fitRatings',
+  label: 'Fit ratings',
+  migrations: [(stored) => stored],
+  validate: (data) => isRecord(data) && Object.values(data).every(rating => isRecord(rating) && typeof rating.score === 'number'),
+  fallback: () => ({}),
+};
+
+export const usageLogStore: StoreDefinition<UsageRecord[]> = {
+  key: 'usageLog',
+  label: 'API usage history',
+  migrations: [(stored) => stored],
+  validate: (data) => Array.isArray(data) &&
+    data.every(record => isRecord(record) && typeof record.operation === 'string' && typeof record.startedAt === 'number'),
+  fallback: () => [],
+};
+
+export const usageBudgetStore: StoreDefinition<UsageBudget> = {
+  key: 'usageBudget',
+  label: 'Usage budgets',
+  migrations: [(stored: Partial<UsageBudget>) => ({ ...DEFAULT_USAGE_BUDGET, ...stored })],
+  validate: (data) => isRecord(data) && typeof data.inputUsdPerMillionTokens === 'number' && typeof data.outputUsdPerMillionTokens === 'number',
+  fallback: () => DEFAULT_USAGE_BUDGET,
+};
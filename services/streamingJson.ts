@@ -0,0 +1,41 @@
+/**
+ * Returns the items of the first JSON array in a possibly incomplete document
+ * that have been fully received, e.g. the two finished businesses in
+ * `{"businesses": [{...}, {...}, {"title": "Ha`. Items that fail to parse are skipped.
+ */
+export const extractCompleteArrayItems = (text: string): unknown[] => {
+  const items: unknown[] = [];
+  const arrayStart = text.indexOf('[');
+  if (arrayStart === -1) return items;
+
+  let depth = 1;
+  let itemStart = -1;
+  let inString = false;
+  let escaped = false;
+  for (let i = arrayStart + 1; i < text.length && depth > 0; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      if (depth === 1) itemStart = i;
+      depth++;
+    } else if (char === '}' || char === ']') {
+      depth--;
+      if (depth === 1 && itemStart !== -1) {
+        try {
+          items.push(JSON.parse(text.slice(itemStart, i + 1)));
+        } catch {
+          // A malformed item is dropped; the final validation reports it.
+        }
+        itemStart = -1;
+      }
+    }
+  }
+  return items;
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { Business } from '../types';
+import { MAX_SHARED_BUSINESSES, MAX_URL_CATEGORIES, buildUrlSearch, decodeSharedList, encodeSharedList, isSameSearch, parseUrlState } from './urlState';
+import { IMPORTED_PLACE_ID_PREFIX } from './leadImport';
+
+const business = (n: number, extra: Partial<Business> = {}): Business => ({
+  title: `Business ${n}`,
+  placeId: `place-${n}`,
+  uri: '',
+  ...extra,
+});
+
+describe('parseUrlState', () => {
+  it('reads a search back from the URL it was written to', () => {
+    const search = {
+      categories: ['pizza', 'pasta'],
+      location: { latitude: 39.78, longitude: -89.65 },
+      manualLocation: 'Springfield, IL',
+      radiusKm: 10,
+      sweep: { tileKm: 5, bounds: { south: 39.7, west: -89.8, north: 39.9, east: -89.5 } },
+    };
+    const state = parseUrlState(buildUrlSearch({ search, place: { placeId: 'abc', title: "Joe's Pizza" } }));
+    expect(state.search).toEqual(search);
+    expect(state.place).toEqual({ placeId: 'abc', title: "Joe's Pizza" });
+  });
+
+  it('drops repeated categories and caps how many a link can start', () => {
+    const query = Array.from({ length: MAX_URL_CATEGORIES + 5 }, (_, i) => `q=cat${i}`).join('&');
+    expect(parseUrlState(`?q=Pizza&q=pizza&q=tacos`).search?.categories).toEqual(['Pizza', 'tacos']);
+    expect(parseUrlState(`?${query}`).search?.categories).toHaveLength(MAX_URL_CATEGORIES);
+  });
+
+  it('ignores coordinates that are out of range or incomplete', () => {
+    expect(parseUrlState('?q=a&lat=91&lng=10').search?.location).toBeNull();
+    expect(parseUrlState('?q=a&lat=45').search?.location).toBeNull();
+    expect(parseUrlState('?q=a&sweep=5&bb=1,2,3,200').search?.sweep).toEqual({ tileKm: 5 });
+  });
+
+  it('defaults the radius and snaps the tile size to one the search bar offers', () => {
+    const { search } = parseUrlState('?q=a&r=-3&sweep=7');
+    expect(search?.radiusKm).toBe(50);
+    expect(search?.sweep?.tileKm).toBe(5);
+  });
+
+  it('returns nothing for an empty query string', () => {
+    expect(parseUrlState('')).toEqual({});
+    expect(buildUrlSearch({})).toBe('');
+  });
+});
+
+describe('shared lists', () => {
+  it('round-trips businesses with rounded coordinates and rebuilt Maps links', () => {
+    const [decoded] = decodeSharedList(encodeSharedList([business(1, { latitude: 1.1234567, longitude: 2.7654321 })]));
+    expect(decoded).toMatchObject({ title: 'Business 1', placeId: 'place-1', latitude: 1.12346, longitude: 2.76543 });
+    expect(decoded.uri).toContain('query_place_id=place-1');
+  });
+
+  it('keeps the lookup query of imported businesses and drops placeholders without one', () => {
+    const imported = business(2, { placeId: `${IMPORTED_PLACE_ID_PREFIX}x`, lookup: { query: 'Business 2, Main St' } });
+    expect(decodeSharedList(encodeSharedList([imported]))).toEqual([
+      { title: 'Business 2', placeId: `${IMPORTED_PLACE_ID_PREFIX}x`, uri: expect.stringContaining('Main%20St'), lookup: { query: 'Business 2, Main St' } },
+    ]);
+    const forged = btoa(JSON.stringify([['Fake', `${IMPORTED_PLACE_ID_PREFIX}y`]]));
+    expect(decodeSharedList(forged)).toEqual([]);
+  });
+
+  it('caps the list length and skips malformed entries', () => {
+    const many = Array.from({ length: MAX_SHARED_BUSINESSES + 5 }, (_, i) => business(i));
+    expect(decodeSharedList(encodeSharedList(many))).toHaveLength(MAX_SHARED_BUSINESSES);
+    expect(decodeSharedList(btoa(JSON.stringify([['ok', 'id'], [1, 2], 'nope'])))).toHaveLength(1);
+    expect(decodeSharedList('!!not base64')).toEqual([]);
+  });
+});
+
+describe('isSameSearch', () => {
+  const search = { categories: ['Pizza', 'tacos'], location: { latitude: 1, longitude: 2 }, radiusKm: 5 };
+
+  it('ignores category order and case, and the radius', () => {
+    expect(isSameSearch(search, { ...search, categories: ['TACOS', 'pizza'], radiusKm: 20 })).toBe(true);
+  });
+
+  it('tells apart different locations and sweeps', () => {
+    expect(isSameSearch(search, { ...search, location: { latitude: 1.1, longitude: 2 } })).toBe(false);
+    expect(isSameSearch(search, { ...search, sweep: { tileKm: 5 } })).toBe(false);
+    expect(isSameSearch(search, null)).toBe(false);
+  });
+});
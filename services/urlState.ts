@@ -0,0 +1,194 @@
+import { Business, LocationCoords } from '../types';
+import { SearchParams } from './savedSearches';
+import { dedupeCategories } from './categorySearch';
+import { buildMapsSearchUri } from './responseValidation';
+import { SWEEP_TILE_SIZES_KM } from './areaSweep';
+import { IMPORTED_PLACE_ID_PREFIX, buildLookupUri } from './leadImport';
+
+/**
+ * The part of the app's state that lives in the URL, so a refresh or a shared
+ * link brings it back and back/forward navigation moves through it.
+ *
+ *   ?q=pizza&q=pasta&loc=Springfield%2C+IL&lat=39.78&lng=-89.65&r=10&place=ChIJ...&pt=Joe%27s+Pizza
+ *   ?q=plumbers&lat=39.78&lng=-89.65&r=20&sweep=5           (area sweep with 5 km tiles)
+ *   ?q=plumbers&sweep=5&bb=39.7,-89.8,39.9,-89.5           (area sweep of a south,west,north,east box)
+ *   ?list=<compact list of businesses>&lt=Lunch+spots
+ */
+export interface UrlState {
+  search?: SearchParams;
+  /** The business whose details are open, with its name so it can be shown before anything loads. */
+  place?: { placeId: string; title: string };
+  sharedList?: SharedList;
+}
+
+export interface SharedList {
+  title?: string;
+  businesses: Business[];
+}
+
+/** Share links stay short enough for chat apps and email clients. */
+export const MAX_SHARED_BUSINESSES = 20;
+
+/** Each category is a search of its own, so a link can't start more than this many. */
+export const MAX_URL_CATEGORIES = 10;
+
+const COORDINATE_DECIMALS = 5;
+
+const parseNumber = (value: string | null): number | undefined => {
+  if (value === null || value.trim() === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+const toBase64Url = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string): string => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+};
+
+/** The pair as coordinates, or null unless both are finite numbers in range. */
+const toCoordinates = (latitude: unknown, longitude: unknown): LocationCoords | null =>
+  typeof latitude === 'number' && typeof longitude === 'number' &&
+  Number.isFinite(latitude) && Number.isFinite(longitude) && Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180
+    ? { latitude, longitude }
+    : null;
+
+// Each business is stored as [title, placeId, latitude?, longitude?, lookup?];
+// the Maps link is rebuilt from the title and place ID. Imported businesses
+// without a real place ID carry their lookup query, with null coordinates if
+// they have none.
+type CompactBusiness = [string, string, (number | null)?, (number | null)?, string?];
+
+const round = (value: number) => Number(value.toFixed(COORDINATE_DECIMALS));
+
+const toCompactBusiness = ({ title, placeId, latitude, longitude, lookup }: Business): CompactBusiness => {
+  const hasCoords = latitude !== undefined && longitude !== undefined;
+  if (lookup) return [title, placeId, hasCoords ? round(latitude) : null, hasCoords ? round(longitude) : null, lookup.query];
+  return hasCoords ? [title, placeId, round(latitude), round(longitude)] : [title, placeId];
+};
+
+export const encodeSharedList = (businesses: Business[]): string =>
+  toBase64Url(JSON.stringify(businesses.slice(0, MAX_SHARED_BUSINESSES).map(toCompactBusiness)));
+
+/** Reads a shared list, skipping malformed entries. Returns an empty list for an unreadable value. */
+export const decodeSharedList = (encoded: string): Business[] => {
+  let items: unknown;
+  try {
+    items = JSON.parse(fromBase64Url(encoded));
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(items)) return [];
+  return items
+    .filter((item): item is CompactBusiness => Array.isArray(item) && typeof item[0] === 'string' && typeof item[1] === 'string')
+    .slice(0, MAX_SHARED_BUSINESSES)
+    .map(([title, placeId, latitude, longitude, lookup]): Business => {
+      const query = typeof lookup === 'string' && lookup.trim() ? lookup : undefined;
+      return {
+        title,
+        placeId,
+        uri: query ? buildLookupUri(query) : buildMapsSearchUri(title, placeId),
+        ...toCoordinates(latitude, longitude),
+        ...(query ? { lookup: { query } } : {}),
+      };
+    })
+    // A placeholder place ID can't be looked up without its query.
+    .filter(business => business.lookup || !business.placeId.startsWith(IMPORTED_PLACE_ID_PREFIX));
+};
+
+export const parseUrlState = (search: string): UrlState => {
+  const params = new URLSearchParams(search);
+  const state: UrlState = {};
+
+  const categories = dedupeCategories(params.getAll('q')).slice(0, MAX_URL_CATEGORIES);
+  if (categories.length > 0) {
+    const radiusKm = parseNumber(params.get('r'));
+    state.search = {
+      categories,
+      location: toCoordinates(parseNumber(params.get('lat')), parseNumber(params.get('lng'))),
+      manualLocation: params.get('loc')?.trim() || undefined,
+      radiusKm: radiusKm !== undefined && radiusKm > 0 ? radiusKm : 50,
+    };
+    const sweepKm = parseNumber(params.get('sweep'));
+    if (sweepKm !== undefined && sweepKm > 0) {
+      // Only the tile sizes the search bar offers; the nearest one for anything else.
+      const tileKm = SWEEP_TILE_SIZES_KM.reduce((nearest, size) => Math.abs(size - sweepKm) < Math.abs(nearest - sweepKm) ? size : nearest);
+      const [south, west, north, east] = (params.get('bb') ?? '').split(',').map(value => parseNumber(value));
+      const southWest = toCoordinates(south, west);
+      const northEast = toCoordinates(north, east);
+      state.search.sweep = southWest && northEast
+        ? { tileKm, bounds: { south: southWest.latitude, west: southWest.longitude, north: northEast.latitude, east: northEast.longitude } }
+        : { tileKm };
+    }
+  }
+
+  const placeId = params.get('place');
+  if (placeId) {
+    state.place = { placeId, title: params.get('pt') || 'Shared business' };
+  }
+
+  const list = params.get('list');
+  if (list) {
+    const businesses = decodeSharedList(list);
+    if (businesses.length > 0) {
+      state.sharedList = { title: params.get('lt') || undefined, businesses };
+    }
+  }
+  return state;
+};
+
+/** Builds the query string for `state`, starting with "?", or "" when there is nothing to encode. */
+export const buildUrlSearch = (state: UrlState): string => {
+  const params = new URLSearchParams();
+  if (state.search) {
+    state.search.categories.forEach(category => params.append('q', category));
+    if (state.search.manualLocation) params.set('loc', state.search.manualLocation);
+    if (state.search.location) {
+      params.set('lat', state.search.location.latitude.toFixed(COORDINATE_DECIMALS));
+      params.set('lng', state.search.location.longitude.toFixed(COORDINATE_DECIMALS));
+    }
+    params.set('r', String(state.search.radiusKm));
+    if (state.search.sweep) {
+      params.set('sweep', String(state.search.sweep.tileKm));
+      const { bounds } = state.search.sweep;
+      if (bounds) {
+        params.set('bb', [bounds.south, bounds.west, bounds.north, bounds.east].map(value => value.toFixed(COORDINATE_DECIMALS)).join(','));
+      }
+    }
+  }
+  if (state.place) {
+    params.set('place', state.place.placeId);
+    params.set('pt', state.place.title);
+  }
+  if (state.sharedList) {
+    params.set('list', encodeSharedList(state.sharedList.businesses));
+    if (state.sharedList.title) params.set('lt', state.sharedList.title);
+  }
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
+
+/** A link to the app showing just `businesses`, for sending a hand-picked list. */
+export const buildShareListUrl = (businesses: Business[], title?: string): string =>
+  `${window.location.origin}${window.location.pathname}${buildUrlSearch({ sharedList: { title: title?.trim() || undefined, businesses } })}`;
+
+const categoriesKey = (categories: string[]) =>
+  categories.map(category => category.trim().toLowerCase()).sort().join('\n');
+
+const sweepKey = (sweep: SearchParams['sweep']) =>
+  sweep ? buildUrlSearch({ search: { categories: [], location: null, radiusKm: 0, sweep } }) : '';
+
+/** Whether two searches would return the same results (the radius only filters them). */
+export const isSameSearch = (a: SearchParams | null | undefined, b: SearchParams | null | undefined): boolean =>
+  !!a && !!b &&
+  categoriesKey(a.categories) === categoriesKey(b.categories) &&
+  sweepKey(a.sweep) === sweepKey(b.sweep) &&
+  (a.manualLocation ?? '') === (b.manualLocation ?? '') &&
+  a.location?.latitude.toFixed(COORDINATE_DECIMALS) === b.location?.latitude.toFixed(COORDINATE_DECIMALS) &&
+  a.location?.longitude.toFixed(COORDINATE_DECIMALS) === b.location?.longitude.toFixed(COORDINATE_DECIMALS);
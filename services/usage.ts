@@ -0,0 +1,118 @@
+import { ProxyOperation } from './proxyApi';
+import { ServiceErrorKind } from './errors';
+
+export type UsageOutcome = 'success' | 'stopped' | 'error';
+
+/** One call to the model through the API proxy. */
+export interface UsageRecord {
+  operation: ProxyOperation;
+  startedAt: number;
+  latencyMs: number;
+  outcome: UsageOutcome;
+  errorKind?: ServiceErrorKind;
+  /** Token counts from the response's usage metadata; 0 when the call failed before any arrived. */
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface UsageBudget {
+  /** Estimated spend per day, in US dollars, above which a warning is shown; null for none. */
+  softDailyUsd: number | null;
+  /** Estimated spend per day above which bulk actions (enrichment, fit rating, area sweeps) are blocked; null for none. */
+  hardDailyUsd: number | null;
+  inputUsdPerMillionTokens: number;
+  outputUsdPerMillionTokens: number;
+}
+
+// Gemini 2.5 Flash list prices; output includes thinking tokens.
+export const DEFAULT_USAGE_BUDGET: UsageBudget = {
+  softDailyUsd: null,
+  hardDailyUsd: null,
+  inputUsdPerMillionTokens: 0.3,
+  outputUsdPerMillionTokens: 2.5,
+};
+
+export const USAGE_OPERATION_LABELS: Record<ProxyOperation, string> = {
+  search: 'Searches',
+  details: 'Detail lookups',
+  pitch: 'Pitches',
+  fit: 'Fit ratings',
+  geocode: 'Location lookups',
+};
+
+// Records older than this, or beyond the cap, are dropped as new ones are added.
+export const USAGE_RETENTION_DAYS = 30;
+const MAX_USAGE_RECORDS = 3000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The local calendar day of a timestamp, as YYYY-MM-DD. */
+export const toDayKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+export const appendUsageRecord = (records: UsageRecord[], record: UsageRecord, now = Date.now()): UsageRecord[] =>
+  [...records, record]
+    .filter(({ startedAt }) => now - startedAt < USAGE_RETENTION_DAYS * DAY_MS)
+    .slice(-MAX_USAGE_RECORDS);
+
+export const estimateCost = ({ inputTokens, outputTokens }: Pick<UsageRecord, 'inputTokens' | 'outputTokens'>, budget: UsageBudget): number =>
+  (inputTokens * budget.inputUsdPerMillionTokens + outputTokens * budget.outputUsdPerMillionTokens) / 1e6;
+
+export interface UsageTotals {
+  calls: number;
+  failed: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  /** Mean latency over all calls, in milliseconds. */
+  averageLatencyMs: number;
+}
+
+const totalUsage = (records: UsageRecord[], budget: UsageBudget): UsageTotals => {
+  const totals = records.reduce((sum, record) => ({
+    calls: sum.calls + 1,
+    failed: sum.failed + (record.outcome === 'error' ? 1 : 0),
+    inputTokens: sum.inputTokens + record.inputTokens,
+    outputTokens: sum.outputTokens + record.outputTokens,
+    costUsd: sum.costUsd + estimateCost(record, budget),
+    averageLatencyMs: sum.averageLatencyMs + record.latencyMs,
+  }), { calls: 0, failed: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, averageLatencyMs: 0 });
+  return { ...totals, averageLatencyMs: totals.calls > 0 ? Math.round(totals.averageLatencyMs / totals.calls) : 0 };
+};
+
+export interface DailyUsage extends UsageTotals {
+  day: string;
+  byOperation: (UsageTotals & { operation: ProxyOperation })[];
+}
+
+/** Usage per day, most recent first, with a breakdown by operation. Days without calls are left out. */
+export const summarizeUsage = (records: UsageRecord[], budget: UsageBudget): DailyUsage[] => {
+  const byDay = new Map<string, UsageRecord[]>();
+  for (const record of records) {
+    const day = toDayKey(record.startedAt);
+    byDay.set(day, [...(byDay.get(day) ?? []), record]);
+  }
+  return Array.from(byDay, ([day, dayRecords]) => {
+    const operations = Array.from(new Set(dayRecords.map(record => record.operation)));
+    return {
+      day,
+      ...totalUsage(dayRecords, budget),
+      byOperation: operations
+        .map(operation => ({ operation, ...totalUsage(dayRecords.filter(record => record.operation === operation), budget) }))
+        .sort((a, b) => b.costUsd - a.costUsd),
+    };
+  }).sort((a, b) => b.day.localeCompare(a.day));
+};
+
+export type BudgetStatus = 'ok' | 'soft-exceeded' | 'hard-exceeded';
+
+export const getBudgetStatus = (todayCostUsd: number, budget: UsageBudget): BudgetStatus => {
+  if (budget.hardDailyUsd !== null && todayCostUsd >= budget.hardDailyUsd) return 'hard-exceeded';
+  if (budget.softDailyUsd !== null && todayCostUsd >= budget.softDailyUsd) return 'soft-exceeded';
+  return 'ok';
+};
+
+export const formatUsd = (amount: number): string =>
+  `$${amount.toFixed(amount > 0 && amount < 1 ? 4 : 2)}`;
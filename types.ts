@@ -4,6 +4,38 @@ export interface Business {
   placeId: string;
   latitude?: number;
   longitude?: number;
+  /** Google Maps evidence the business was found with, when the search was grounded. */
+  grounding?: BusinessGrounding;
+  /** The search categories that found the business, e.g. ["plumbers", "HVAC"]. */
+  categories?: string[];
+  /** Set on imported businesses without a Google Maps place ID; `placeId` is then a local placeholder. */
+  lookup?: BusinessLookup;
+}
+
+/** How to find an imported business whose place ID is unknown. */
+export interface BusinessLookup {
+  /** Name plus whatever address or phone the import had, e.g. "Joe's Pizza, 12 Main St". */
+  query: string;
+}
+
+export interface GroundingSource {
+  title: string;
+  uri: string;
+}
+
+export interface ReviewSnippet {
+  text: string;
+  author?: string;
+  /** e.g. "3 months ago" */
+  relativeTime?: string;
+  uri?: string;
+}
+
+export interface BusinessGrounding {
+  sources: GroundingSource[];
+  reviewSnippets: ReviewSnippet[];
+  /** Link for reporting a problem with the grounded answer. */
+  flagContentUri?: string;
 }
 
 export interface BusinessDetails {
@@ -13,15 +45,226 @@ export interface BusinessDetails {
   website?: string;
 }
 
+/** An opening span in minutes after midnight. `close` exceeds 1440 for spans that run past midnight. */
+export interface TimeSpan {
+  open: number;
+  close: number;
+}
+
+/**
+ * Opening spans per weekday, indexed like `Date.getDay()` (0 = Sunday). An empty
+ * array means closed all day; `null` means the hours for that day are unknown.
+ */
+export type WeeklySchedule = (TimeSpan[] | null)[];
+
+export type LeadStatus = 'new' | 'contacted' | 'replied' | 'qualified' | 'won' | 'lost';
+
+export interface LeadNote {
+  id: string;
+  text: string;
+  createdAt: number;
+}
+
+export interface LeadInfo {
+  status: LeadStatus;
+  notes: LeadNote[];
+  /** Next follow-up as a local calendar date (YYYY-MM-DD). */
+  followUpDate?: string;
+  updatedAt: number;
+}
+
+/** A business saved to the user's favorites, tracked as a lead in the pipeline. */
+export interface SavedBusiness extends Business {
+  savedAt: number;
+  lead: LeadInfo;
+}
+
+export interface CachedBusinessDetails {
+  placeId: string;
+  details: BusinessDetails;
+  fetchedAt: number;
+}
+
 export interface GroundingChunk {
-  maps: {
-    uri: string;
-    title: string;
-    placeId: string;
+  maps?: {
+    uri?: string;
+    title?: string;
+    placeId?: string;
+    placeAnswerSources?: {
+      reviewSnippets?: {
+        review?: string;
+        relativePublishTimeDescription?: string;
+        googleMapsUri?: string;
+        authorAttribution?: { displayName?: string };
+      }[];
+      flagContentUri?: string;
+    };
   };
 }
 
 export interface LocationCoords {
   latitude: number;
   longitude: number;
-}
\ No newline at end of file
+}
+
+/** A typed location (city, ZIP code, address) resolved to coordinates. */
+export interface GeocodedPlace extends LocationCoords {
+  /** Human-readable name of the match, e.g. "Springfield, IL, USA". */
+  label: string;
+}
+
+export interface SearchOptions {
+  /** Businesses already shown, so a follow-up request ("load more") returns new ones. */
+  exclude?: Pick<Business, 'placeId' | 'title'>[];
+  /** Only look this far from the search location, e.g. within one area sweep tile. */
+  radiusKm?: number;
+  /** Called with each business as soon as it has been received, before the search completes. */
+  onBusiness?: (business: Business) => void;
+  /** Stops the search early; it then resolves with what was received so far. */
+  signal?: AbortSignal;
+}
+
+export interface RequestOptions {
+  /** Cancels the request; it then rejects with an `AbortedError`. */
+  signal?: AbortSignal;
+}
+
+export interface SearchResult {
+  businesses: Business[];
+  /** Items in the response that failed validation and were dropped. */
+  discardedCount: number;
+  /** True when the search was stopped early and the list is incomplete. */
+  stopped?: boolean;
+}
+
+/**
+ * A source of business data for the app. The Gemini-backed implementation talks
+ * to the live API; the fixture implementation replays recorded JSON so the UI
+ * can be developed and demoed offline.
+ */
+export interface BusinessDataProvider {
+  name: string;
+  findNearbyBusinesses: (
+    category: string,
+    location: LocationCoords | null,
+    manualLocation?: string,
+    options?: SearchOptions,
+  ) => Promise<SearchResult>;
+  /** Pass `lookup` when `placeId` is a placeholder, to find the business by name and address instead. */
+  getBusinessDetails: (placeId: string, lookup?: BusinessLookup, options?: RequestOptions) => Promise<BusinessDetails>;
+  generateContactPitch: (request: PitchRequest, options?: PitchStreamOptions) => Promise<GeneratedPitch>;
+  rateLeadFit: (business: Business, sender: SenderProfile, details?: BusinessDetails, options?: RequestOptions) => Promise<Omit<FitRating, 'ratedAt'>>;
+  /** Resolves a typed location to candidate places, most likely first. Empty when nothing matches. */
+  geocodeLocation: (query: string, options?: RequestOptions) => Promise<GeocodedPlace[]>;
+}
+
+export type PitchPurpose = 'inquiry' | 'partnership' | 'sell';
+
+export type PitchTone = 'professional' | 'friendly' | 'casual' | 'persuasive';
+
+/** Who the outreach is from; stored once and reused for every pitch. */
+export interface SenderProfile {
+  name: string;
+  company: string;
+  /** What we sell or offer, in a sentence or two. */
+  offering: string;
+  signature: string;
+}
+
+export interface PitchOptions {
+  purpose: PitchPurpose;
+  tone: PitchTone;
+  /** Language name as the user typed it, e.g. "English" or "Español". */
+  language: string;
+  /** Feed the fetched address, hours and website into the prompt. */
+  includeDetails: boolean;
+}
+
+export interface PitchRequest {
+  businessName: string;
+  /** Empty when the category isn't known, e.g. for imported leads. */
+  businessCategory: string;
+  purpose: PitchPurpose;
+  tone: PitchTone;
+  language: string;
+  sender?: SenderProfile;
+  details?: BusinessDetails;
+}
+
+export interface GeneratedPitch {
+  subject: string;
+  body: string;
+  /** True when generation was stopped early and the text is incomplete. */
+  stopped?: boolean;
+}
+
+export interface PitchStreamOptions {
+  /** Called with the text received so far as the pitch is generated. */
+  onText?: (partial: GeneratedPitch) => void;
+  /** Stops generation early; it then resolves with the text received so far. */
+  signal?: AbortSignal;
+}
+
+/** A generated pitch kept in a business's history, with the options it was written with. */
+export interface PitchHistoryEntry extends GeneratedPitch {
+  id: string;
+  createdAt: number;
+  purpose: PitchPurpose;
+  tone: PitchTone;
+  language: string;
+}
+
+export type LeadScoreFactor = 'distance' | 'phone' | 'website' | 'hours' | 'keywords' | 'fit';
+
+/** How much each factor counts towards the lead score, from 0 (ignored) to 10. */
+export type LeadScoreWeights = Record<LeadScoreFactor, number>;
+
+export interface LeadScoringConfig {
+  weights: LeadScoreWeights;
+  /** Words that make a business a better lead when they appear in its name. */
+  keywords: string[];
+}
+
+/** A model-assisted rating of how well a business fits the sender's offering. */
+export interface FitRating {
+  /** 0 (poor fit) to 100 (ideal fit). */
+  score: number;
+  reason: string;
+  ratedAt: number;
+}
+
+/** A rectangle of latitude/longitude, e.g. a region to sweep. */
+export interface GeoBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+/**
+ * Settings for an area sweep, which splits the search area into square tiles
+ * and searches each one. Without `bounds` the area is the search circle.
+ */
+export interface AreaSweep {
+  /** Side of each tile, in km. */
+  tileKm: number;
+  bounds?: GeoBounds;
+}
+
+/** A search the user saved to re-run later, with a snapshot of its last results. */
+export interface SavedSearch {
+  id: string;
+  name: string;
+  categories: string[];
+  location: LocationCoords | null;
+  manualLocation?: string;
+  radiusKm: number;
+  sweep?: AreaSweep;
+  createdAt: number;
+  lastRunAt?: number;
+  lastResults: { placeId: string; title: string }[];
+  /** Businesses in the last run that weren't in the run before it. */
+  newCount?: number;
+  /** Businesses in the run before the last one that the last run no longer returned. */
+  removedCount?: number;
+}
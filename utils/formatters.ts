@@ -0,0 +1,21 @@
+/** Formats a timestamp relative to now, e.g. "just now", "5 minutes ago", "2 days ago". */
+export const formatTimeAgo = (timestamp: number, now = Date.now()): string => {
+  const seconds = Math.max(0, Math.round((now - timestamp) / 1000));
+  if (seconds < 45) return 'just now';
+
+  const units: [number, string][] = [
+    [60 * 60 * 24 * 365, 'year'],
+    [60 * 60 * 24 * 30, 'month'],
+    [60 * 60 * 24 * 7, 'week'],
+    [60 * 60 * 24, 'day'],
+    [60 * 60, 'hour'],
+    [60, 'minute'],
+  ];
+  for (const [size, unit] of units) {
+    const value = Math.floor(seconds / size);
+    if (value >= 1) {
+      return `${value} ${unit}${value === 1 ? '' : 's'} ago`;
+    }
+  }
+  return '1 minute ago';
+};
@@ -0,0 +1,38 @@
+import { LocationCoords } from '../types';
+
+const EARTH_RADIUS_KM = 6371;
+const toRadians = (degrees: number) => degrees * (Math.PI / 180);
+
+/** Great-circle (haversine) distance between two points in km. */
+export const getDistance = (loc1: LocationCoords, loc2: LocationCoords): number => {
+    const dLat = toRadians(loc2.latitude - loc1.latitude);
+    const dLon = toRadians(loc2.longitude - loc1.longitude);
+    const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(loc1.latitude)) *
+    Math.cos(toRadians(loc2.latitude)) *
+    Math.sin(dLon / 2) *
+    Math.sin(dLon / 2);
+    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+    return EARTH_RADIUS_KM * c;
+};
+
+/**
+ * Projects a point onto a flat plane around `center`, returning east (x) and
+ * north (y) offsets in km. Accurate enough for the few-dozen-km areas we search.
+ */
+export const projectToKm = (center: LocationCoords, point: LocationCoords): { x: number; y: number } => ({
+    x: toRadians(point.longitude - center.longitude) * EARTH_RADIUS_KM * Math.cos(toRadians(center.latitude)),
+    y: toRadians(point.latitude - center.latitude) * EARTH_RADIUS_KM,
+});
+
+/** The inverse of `projectToKm`: the point `x` km east and `y` km north of `center`. */
+export const offsetByKm = (center: LocationCoords, x: number, y: number): LocationCoords => ({
+    latitude: center.latitude + (y / EARTH_RADIUS_KM) * (180 / Math.PI),
+    longitude: center.longitude + (x / (EARTH_RADIUS_KM * Math.cos(toRadians(center.latitude)))) * (180 / Math.PI),
+});
+
+export const hasCoordinates = <T extends { latitude?: number; longitude?: number }>(
+    item: T,
+): item is T & LocationCoords =>
+    typeof item.latitude === 'number' && typeof item.longitude === 'number';
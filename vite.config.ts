@@ -1,6 +1,7 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { apiProxyPlugin } from './server/vitePlugin';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,10 +10,10 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), apiProxyPlugin(env)],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.DATA_PROVIDER': JSON.stringify(env.DATA_PROVIDER),
+        'process.env.DETAILS_CACHE_TTL_HOURS': JSON.stringify(env.DETAILS_CACHE_TTL_HOURS)
       },
       resolve: {
         alias: {